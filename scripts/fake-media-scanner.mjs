@@ -0,0 +1,100 @@
+#!/usr/bin/env node
+// Stand-in for the MediaScannerMac binary that speaks the same NDJSON protocol, so the
+// scanner bridge can be exercised on any OS.
+//
+// Usage: node scripts/fake-media-scanner.mjs [--assets N] [--progress-every N]
+//          [--protocol-version N] [--no-hello] [--invalid-line] [--invalid-asset]
+//          [--no-done] [--limited] [--exit-code N]
+//        node scripts/fake-media-scanner.mjs --export DIR LOCAL_IDENTIFIER...
+//          Writes a small file per identifier; identifiers containing "missing" fail to export
+
+import { parseArgs } from 'node:util';
+import { once } from 'node:events';
+import fs from 'node:fs';
+import path from 'node:path';
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    export: { type: 'string' }, // Export the given identifiers into this folder instead of scanning
+    assets: { type: 'string', default: '3' },
+    'progress-every': { type: 'string', default: '100' },
+    'protocol-version': { type: 'string', default: '3' },
+    'no-hello': { type: 'boolean', default: false }, // Skip the handshake
+    'invalid-line': { type: 'boolean', default: false }, // Emit a malformed line after the first asset
+    'invalid-asset': { type: 'boolean', default: false }, // Emit an asset with a renamed field after the first asset
+    'no-done': { type: 'boolean', default: false }, // Stop without the final done message
+    limited: { type: 'boolean', default: false }, // Report limited Photos access in the done message
+    'exit-code': { type: 'string', default: '0' },
+  },
+});
+
+const total = Number(values.assets);
+const progressEvery = Number(values['progress-every']);
+
+async function emit(line) {
+  // Respect backpressure so large runs don't buffer everything in memory
+  if (!process.stdout.write(line + '\n')) {
+    await once(process.stdout, 'drain');
+  }
+}
+
+function fakeAsset(index) {
+  const isVideo = index % 10 === 9;
+  return {
+    localIdentifier: `FAKE-${String(index).padStart(8, '0')}/L0/001`,
+    originalPath: null,
+    originalFilename: isVideo ? `IMG_${index}.MOV` : `IMG_${index}.HEIC`,
+    uti: isVideo ? 'com.apple.quicktime-movie' : 'public.heic',
+    creationDate: new Date(Date.UTC(2020, 0, 1) + index * 60_000).toISOString(),
+    modificationDate: null,
+    sizeBytes: isVideo ? 50_000_000 : 3_000_000,
+    pixelWidth: 4032,
+    pixelHeight: 3024,
+    isInCloud: index % 7 === 6,
+    mediaType: isVideo ? 'video' : 'photo',
+    durationSeconds: isVideo ? 12.5 : null,
+    codec: null,
+  };
+}
+
+if (!values['no-hello']) {
+  await emit(JSON.stringify({ type: 'hello', protocolVersion: Number(values['protocol-version']), scanner: 'FakeMediaScanner' }));
+}
+
+if (values.export) {
+  let exported = 0;
+  for (const localIdentifier of positionals) {
+    if (localIdentifier.includes('missing')) {
+      await emit(JSON.stringify({ type: 'exportFailed', localIdentifier, error: 'Asset not found in the Photos library' }));
+      continue;
+    }
+    const filePath = path.join(values.export, `${localIdentifier.replace(/\//g, '_')}.HEIC`);
+    fs.writeFileSync(filePath, `exported ${localIdentifier}`);
+    await emit(JSON.stringify({ type: 'exported', localIdentifier, path: filePath }));
+    exported++;
+  }
+  await emit(JSON.stringify({ type: 'done', count: exported, limited: values.limited }));
+} else {
+  process.stderr.write(`Fake scanner emitting ${total} assets\n`);
+  await emit(JSON.stringify({ type: 'log', level: 'info', message: `Starting media scan. Found ${total} assets.` }));
+
+  for (let index = 0; index < total; index++) {
+    await emit(JSON.stringify({ type: 'asset', asset: fakeAsset(index) }));
+    if (index === 0 && values['invalid-line']) {
+      await emit('{"type": "asset", "asset": {');
+    }
+    if (index === 0 && values['invalid-asset']) {
+      const { originalFilename, ...asset } = fakeAsset(total);
+      await emit(JSON.stringify({ type: 'asset', asset: { ...asset, filename: originalFilename } }));
+    }
+    if ((index + 1) % progressEvery === 0) {
+      await emit(JSON.stringify({ type: 'progress', processed: index + 1, total }));
+    }
+  }
+
+  if (!values['no-done']) {
+    await emit(JSON.stringify({ type: 'done', count: total, limited: values.limited }));
+  }
+}
+process.exitCode = Number(values['exit-code']);
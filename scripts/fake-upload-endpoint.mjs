@@ -0,0 +1,58 @@
+#!/usr/bin/env node
+// Local stand-in for the Google Photos upload endpoint, so network monitoring can be exercised
+// without going online. It answers every request with 200 and can be taken down and brought back
+// up on the same port to simulate the network dropping and reconnecting.
+//
+// Usage: node scripts/fake-upload-endpoint.mjs [--port N]
+//   or import { startFakeUploadEndpoint } from './fake-upload-endpoint.mjs'
+
+import http from 'node:http';
+import { once } from 'node:events';
+import { parseArgs } from 'node:util';
+import { fileURLToPath } from 'node:url';
+
+/**
+ * Starts the endpoint on 127.0.0.1. Returns its URL and stop()/start() to take it down and back up.
+ */
+export async function startFakeUploadEndpoint({ port = 0 } = {}) {
+  const sockets = new Set();
+  const server = http.createServer((request, response) => {
+    response.writeHead(200, { 'Content-Type': 'text/plain' });
+    response.end(request.method === 'HEAD' ? undefined : 'fake upload endpoint');
+  });
+  server.on('connection', (socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+  });
+
+  server.listen(port, '127.0.0.1');
+  await once(server, 'listening');
+  const actualPort = server.address().port;
+
+  return {
+    url: `http://127.0.0.1:${actualPort}/v1/uploads`,
+    // Refuses connections from now on, and drops the open ones as a lost network would
+    async stop() {
+      if (!server.listening) {
+        return;
+      }
+      const closed = once(server, 'close');
+      server.close();
+      sockets.forEach((socket) => socket.destroy());
+      await closed;
+    },
+    async start() {
+      if (server.listening) {
+        return;
+      }
+      server.listen(actualPort, '127.0.0.1');
+      await once(server, 'listening');
+    },
+  };
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const { values } = parseArgs({ options: { port: { type: 'string', default: '8089' } } });
+  const endpoint = await startFakeUploadEndpoint({ port: Number(values.port) });
+  console.log(`Fake upload endpoint listening at ${endpoint.url}`);
+}
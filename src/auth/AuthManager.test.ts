@@ -1,15 +1,22 @@
 import { describe, it, expect, vi, beforeEach, afterEach, Mock } from 'vitest';
 import { AuthManager } from './AuthManager';
+import { EncryptedFileTokenStore } from './TokenStore';
 import { OAuth2Client, Credentials } from 'google-auth-library';
 // Correct import paths for response types if they changed
 import { GetTokenResponse } from 'google-auth-library/build/src/auth/oauth2client';
 import { GetAccessTokenResponse } from 'google-auth-library/build/src/auth/oauth2client';
 import * as fs from 'fs/promises'; // Re-add fs import
 import * as os from 'os';
+import * as keytar from 'keytar';
 
 // Mock the dependencies
 vi.mock('google-auth-library');
 vi.mock('fs/promises');
+vi.mock('keytar', () => ({
+    getPassword: vi.fn(),
+    setPassword: vi.fn(),
+    deletePassword: vi.fn(),
+}));
 vi.mock('os', () => ({
     homedir: vi.fn(() => '/mock/home'), 
 }));
@@ -21,7 +28,8 @@ const MOCK_TOKEN_PATH = `${MOCK_CONFIG_DIR}/google-tokens.json`;
 
 const MOCK_CLIENT_ID = 'mock-client-id';
 const MOCK_CLIENT_SECRET = 'mock-client-secret';
-const MOCK_VALID_CONFIG = JSON.stringify({ clientId: MOCK_CLIENT_ID, clientSecret: MOCK_CLIENT_SECRET });
+// Most tests exercise the (opt-in) plaintext token file so token persistence is observable through fs
+const MOCK_VALID_CONFIG = JSON.stringify({ clientId: MOCK_CLIENT_ID, clientSecret: MOCK_CLIENT_SECRET, tokenStore: 'plain-file' });
 
 // Define mock types for clarity - Make it simpler/Partial
 type MockOAuth2ClientInstance = Partial<OAuth2Client> & { // Use Partial
@@ -188,6 +196,139 @@ describe('AuthManager', () => {
         });
     });
 
+    describe('login with PKCE', () => {
+        beforeEach(async () => await initializeAuthManager(true, true));
+
+        it('should include the loopback redirect, state and code challenge in the auth URL', async () => {
+            await authManager.getAuthUrl({ redirectUri: 'http://127.0.0.1:5555', codeChallenge: 'challenge', state: 'xyz' });
+
+            expect(OAuth2Client.prototype.generateAuthUrl).toHaveBeenCalledWith(expect.objectContaining({
+                access_type: 'offline',
+                redirect_uri: 'http://127.0.0.1:5555',
+                state: 'xyz',
+                code_challenge: 'challenge',
+            }));
+        });
+
+        it('should exchange the code with the code verifier and redirect URI', async () => {
+            await authManager.handleAuthCode('auth-code', { redirectUri: 'http://127.0.0.1:5555', codeVerifier: 'verifier' });
+
+            expect(OAuth2Client.prototype.getToken).toHaveBeenCalledWith({
+                code: 'auth-code',
+                codeVerifier: 'verifier',
+                redirect_uri: 'http://127.0.0.1:5555',
+            });
+            expect(fs.writeFile).toHaveBeenCalledWith(MOCK_TOKEN_PATH, expect.any(String), { mode: 0o600 });
+            expect(await authManager.isAuthenticated()).toBe(true);
+        });
+    });
+
+    describe('secure token storage', () => {
+        const keychainConfig = JSON.stringify({ clientId: MOCK_CLIENT_ID, clientSecret: MOCK_CLIENT_SECRET });
+        const legacyTokens = { access_token: 'legacy_access', refresh_token: 'legacy_refresh', scope: 'legacy_scope' };
+
+        const mockConfigWithLegacyTokens = (legacyTokensExist: boolean) => {
+            vi.mocked(fs.readFile).mockImplementation(async (filePath) => {
+                if (filePath === MOCK_CONFIG_PATH) return keychainConfig;
+                if (filePath === MOCK_TOKEN_PATH && legacyTokensExist) return JSON.stringify(legacyTokens);
+                throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+            });
+        };
+
+        it('should store tokens in the OS keychain by default', async () => {
+            resetMocks();
+            mockConfigWithLegacyTokens(false);
+            vi.mocked(keytar.getPassword).mockResolvedValue(null);
+            authManager = new AuthManager();
+            await (authManager as any).initializationPromise;
+
+            await authManager.handleAuthCode('auth-code');
+
+            expect(keytar.setPassword).toHaveBeenCalledWith('photo-migrator', 'google-tokens', expect.stringContaining('mock_refresh_token'));
+            expect(fs.writeFile).not.toHaveBeenCalledWith(MOCK_TOKEN_PATH, expect.anything(), expect.anything());
+        });
+
+        it('should migrate plaintext tokens into the keychain and delete the plaintext file', async () => {
+            resetMocks();
+            mockConfigWithLegacyTokens(true);
+            let keychainSecret: string | null = null;
+            vi.mocked(keytar.setPassword).mockImplementation(async (_service, _account, secret) => { keychainSecret = secret; });
+            vi.mocked(keytar.getPassword).mockImplementation(async () => keychainSecret);
+            authManager = new AuthManager();
+            await (authManager as any).initializationPromise;
+
+            expect(await authManager.loadTokens()).toBe(true);
+
+            expect(JSON.parse(keychainSecret!)).toEqual(legacyTokens);
+            expect(fs.unlink).toHaveBeenCalledWith(MOCK_TOKEN_PATH);
+            expect(await authManager.isAuthenticated()).toBe(true);
+        });
+
+        it('should keep the encrypted token file when the passphrase is wrong', async () => {
+            resetMocks();
+            const encryptedPath = `${MOCK_CONFIG_DIR}/google-tokens.enc`;
+            const bytes = (length: number) => Buffer.from(Array.from({ length }, (_, i) => i)).toString('base64');
+            const encryptedFile = JSON.stringify({ version: 1, salt: bytes(16), iv: bytes(12), tag: bytes(16), data: bytes(64) });
+            vi.mocked(fs.readFile).mockImplementation(async (filePath) => {
+                if (filePath === MOCK_CONFIG_PATH) return MOCK_VALID_CONFIG;
+                if (filePath === encryptedPath) return encryptedFile;
+                throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+            });
+            authManager = new AuthManager({ tokenStore: new EncryptedFileTokenStore(encryptedPath, 'wrong passphrase') });
+            await (authManager as any).initializationPromise;
+
+            expect(await authManager.loadTokens()).toBe(false);
+
+            expect(fs.unlink).not.toHaveBeenCalled();
+            expect(await authManager.isAuthenticated()).toBe(false);
+        });
+
+        it('should use an injected token store instead of the configured one', async () => {
+            resetMocks();
+            const tokenStore = {
+                kind: 'encrypted-file' as const,
+                load: vi.fn().mockResolvedValue(null),
+                save: vi.fn().mockResolvedValue(undefined),
+                clear: vi.fn().mockResolvedValue(undefined),
+            };
+            authManager = new AuthManager({ tokenStore });
+            await (authManager as any).initializationPromise;
+
+            await authManager.handleAuthCode('auth-code');
+            await authManager.clearTokens();
+
+            expect(tokenStore.save).toHaveBeenCalledWith(expect.objectContaining({ refresh_token: 'mock_refresh_token' }));
+            expect(tokenStore.clear).toHaveBeenCalled();
+            expect(keytar.setPassword).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('profiles', () => {
+        it('should load config and tokens from the profile directory', async () => {
+            resetMocks();
+            const profileDir = `${MOCK_CONFIG_DIR}/profiles/family`;
+            vi.mocked(fs.readFile).mockImplementation(async (filePath) => {
+                if (filePath === `${profileDir}/config.json`) return MOCK_VALID_CONFIG;
+                if (filePath === `${profileDir}/google-tokens.json`) {
+                    return JSON.stringify({ access_token: 'family_access', refresh_token: 'family_refresh', scope: 'scope' });
+                }
+                throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+            });
+
+            authManager = new AuthManager({ profile: 'family' });
+            await (authManager as any).initializationPromise;
+
+            expect(authManager.profile).toBe('family');
+            expect(fs.readFile).not.toHaveBeenCalledWith(MOCK_CONFIG_PATH, 'utf-8');
+            expect(await authManager.isAuthenticated()).toBe(true);
+            expect((authManager as any).tokens.refresh_token).toBe('family_refresh');
+        });
+
+        it('should reject profile names that could escape the config directory', () => {
+            expect(() => new AuthManager({ profile: '../evil' })).toThrow(/Invalid profile name/);
+        });
+    });
+
     describe('clearTokens', () => {
         beforeEach(async () => await initializeAuthManager(true, true, true, true)); // Start with tokens
 
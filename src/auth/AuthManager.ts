@@ -1,35 +1,84 @@
-import { OAuth2Client, Credentials } from 'google-auth-library';
+import { OAuth2Client, CodeChallengeMethod } from 'google-auth-library';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
+import { createTokenStore, PlainFileTokenStore, StoredTokens, TokenStore, TokenStoreKind } from './TokenStore';
 
 // Constants for Google OAuth
-const REDIRECT_URI = 'urn:ietf:wg:oauth:2.0:oob'; // Out-of-band for CLI
+// Google no longer supports the out-of-band (urn:ietf:wg:oauth:2.0:oob) flow, so logins use a
+// loopback redirect. The actual port is chosen at login time and passed per request.
+const REDIRECT_URI = 'http://127.0.0.1';
 const SCOPES = ['https://www.googleapis.com/auth/photoslibrary.appendonly']; // Minimum required scope
 
 // Configuration and Token Paths
 const CONFIG_DIR = path.join(os.homedir(), '.config', 'photo-migrator');
-const CONFIG_PATH = path.join(CONFIG_DIR, 'config.json');
-const TOKEN_PATH = path.join(CONFIG_DIR, 'google-tokens.json');
+const PROFILES_DIR = path.join(CONFIG_DIR, 'profiles');
+
+// Each profile maps to one Google account with its own credentials and tokens
+export const DEFAULT_PROFILE = 'default';
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const TOKEN_STORE_KINDS: TokenStoreKind[] = ['keychain', 'encrypted-file', 'plain-file'];
 
 interface AppConfig {
     clientId: string;
     clientSecret: string;
+    tokenStore?: TokenStoreKind; // Defaults to the OS keychain
 }
 
-interface StoredTokens extends Credentials {
-    // Credentials already defines most fields like access_token, refresh_token, expiry_date, token_type
-    // Add any custom fields if needed, but google-auth-library types are usually sufficient.
-    // We ensure scope is string | undefined by filtering null during load.
+export interface AuthManagerOptions {
+    profile?: string; // Defaults to DEFAULT_PROFILE
+    tokenStore?: TokenStore; // Overrides the backend selected from config.json
+}
+
+interface ProfilePaths {
+    configPath: string;
+    tokenPath: string; // Plaintext, only with tokenStore: "plain-file"
+    encryptedTokenPath: string;
+    keychainAccount?: string; // Undefined means the token store's default account
+}
+
+/**
+ * Resolves where a profile's config and tokens live. The default profile keeps the original
+ * locations directly under CONFIG_DIR so single-account setups keep working unchanged.
+ */
+function getProfilePaths(profile: string): ProfilePaths {
+    const dir = profile === DEFAULT_PROFILE ? CONFIG_DIR : path.join(PROFILES_DIR, profile);
+    return {
+        configPath: path.join(dir, 'config.json'),
+        tokenPath: path.join(dir, 'google-tokens.json'),
+        encryptedTokenPath: path.join(dir, 'google-tokens.enc'),
+        keychainAccount: profile === DEFAULT_PROFILE ? undefined : `google-tokens:${profile}`,
+    };
+}
+
+export interface AuthUrlOptions {
+    redirectUri?: string; // Overrides the default redirect URI (e.g. a loopback listener's URL)
+    codeChallenge?: string; // PKCE S256 code challenge
+    state?: string; // Opaque value echoed back on the redirect to guard against CSRF
+}
+
+export interface AuthCodeOptions {
+    redirectUri?: string; // Must match the redirect URI used to build the auth URL
+    codeVerifier?: string; // PKCE code verifier matching the challenge sent in the auth URL
 }
 
 export class AuthManager {
     private oauth2Client: OAuth2Client | null = null;
     private tokens: StoredTokens | null = null;
     private config: AppConfig | null = null;
+    private tokenStore: TokenStore | null;
     private initializationPromise: Promise<void>;
+    private paths: ProfilePaths;
+    readonly profile: string;
 
-    constructor() {
+    constructor(options: AuthManagerOptions = {}) {
+        this.profile = options.profile ?? DEFAULT_PROFILE;
+        if (!PROFILE_NAME_PATTERN.test(this.profile)) {
+            throw new Error(`Invalid profile name "${this.profile}". Use letters, digits, '-' and '_' only.`);
+        }
+        this.paths = getProfilePaths(this.profile);
+        this.tokenStore = options.tokenStore ?? null;
         this.initializationPromise = this.loadConfigAndInitializeClient();
         this.initializationPromise.catch(err => {
             console.error("AuthManager background initialization failed:", err.message);
@@ -38,23 +87,31 @@ export class AuthManager {
 
     private async loadConfig(): Promise<AppConfig> {
         try {
-            const configData = await fs.readFile(CONFIG_PATH, 'utf-8');
+            const configData = await fs.readFile(this.paths.configPath, 'utf-8');
             const parsedConfig = JSON.parse(configData) as Partial<AppConfig>;
 
             if (!parsedConfig.clientId || !parsedConfig.clientSecret) {
                 throw new Error('clientId and clientSecret must be defined in config.json');
             }
+            if (parsedConfig.tokenStore !== undefined && !TOKEN_STORE_KINDS.includes(parsedConfig.tokenStore)) {
+                throw new Error(`tokenStore must be one of: ${TOKEN_STORE_KINDS.join(', ')}`);
+            }
             // Ensure only expected fields are present if necessary, or trust the structure
-            return { clientId: parsedConfig.clientId, clientSecret: parsedConfig.clientSecret };
+            return {
+                clientId: parsedConfig.clientId,
+                clientSecret: parsedConfig.clientSecret,
+                tokenStore: parsedConfig.tokenStore,
+            };
         } catch (error: any) {
+            const { configPath } = this.paths;
             if (error.code === 'ENOENT') {
-                console.error(`Configuration file not found at ${CONFIG_PATH}. Please create it with your clientId and clientSecret.`);
-                throw new Error(`Configuration file missing: ${CONFIG_PATH}`);
+                console.error(`Configuration file not found at ${configPath}. Please create it with your clientId and clientSecret.`);
+                throw new Error(`Configuration file missing: ${configPath}`);
             } else if (error instanceof SyntaxError) {
-                 console.error(`Invalid JSON in configuration file: ${CONFIG_PATH}`);
-                 throw new Error(`Invalid JSON in config: ${CONFIG_PATH}`);
+                 console.error(`Invalid JSON in configuration file: ${configPath}`);
+                 throw new Error(`Invalid JSON in config: ${configPath}`);
             }
-            console.error(`Error loading configuration from ${CONFIG_PATH}:`, error);
+            console.error(`Error loading configuration from ${configPath}:`, error);
             throw new Error(`Failed to load configuration: ${error.message}`);
         }
     }
@@ -62,15 +119,23 @@ export class AuthManager {
     private async loadConfigAndInitializeClient(): Promise<void> {
          try {
             this.config = await this.loadConfig();
+            if (!this.tokenStore) {
+                this.tokenStore = await createTokenStore({
+                    preferred: this.config.tokenStore,
+                    plainFilePath: this.paths.tokenPath,
+                    encryptedFilePath: this.paths.encryptedTokenPath,
+                    keychainAccount: this.paths.keychainAccount,
+                });
+            }
             this.oauth2Client = new OAuth2Client(
                 this.config.clientId,
                 this.config.clientSecret,
                 REDIRECT_URI
             );
-            console.log("AuthManager initialized with credentials from config.")
-             // Attempt to load tokens immediately after successful client initialization
-             // Don't await here, let ensureInitialized handle waiting if needed
-             this.loadTokens().catch(err => console.error("Error during initial token load:", err));
+            console.log(`AuthManager initialized with credentials from config (profile: ${this.profile}).`)
+             // Load (and if necessary migrate) stored tokens as part of initialization so that
+             // callers awaiting ensureInitialized see them. loadTokens never rejects.
+             await this.loadTokens();
         } catch (error: any) {
             console.error("Critical AuthManager initialization failure:", error.message);
              // Re-throw critical configuration errors so the promise rejects
@@ -85,21 +150,42 @@ export class AuthManager {
         }
     }
 
-    async getAuthUrl(): Promise<string> {
+    async getAuthUrl(options: AuthUrlOptions = {}): Promise<string> {
         await this.ensureInitialized();
         const authUrl = this.oauth2Client!.generateAuthUrl({
             access_type: 'offline',
             scope: SCOPES,
             prompt: 'consent',
+            redirect_uri: options.redirectUri,
+            state: options.state,
+            ...(options.codeChallenge
+                ? { code_challenge: options.codeChallenge, code_challenge_method: CodeChallengeMethod.S256 }
+                : {}),
         });
         console.log('Authorize this app by visiting this url:', authUrl);
         return authUrl;
     }
 
-    async handleAuthCode(code: string): Promise<void> {
+    /**
+     * Generates a PKCE code verifier and its S256 challenge for a single login attempt.
+     */
+    async createPkcePair(): Promise<{ codeVerifier: string; codeChallenge: string }> {
+        await this.ensureInitialized();
+        const { codeVerifier, codeChallenge } = await this.oauth2Client!.generateCodeVerifierAsync();
+        if (!codeChallenge) {
+            throw new Error('Failed to generate PKCE code challenge.');
+        }
+        return { codeVerifier, codeChallenge };
+    }
+
+    async handleAuthCode(code: string, options: AuthCodeOptions = {}): Promise<void> {
         await this.ensureInitialized();
         try {
-            const { tokens } = await this.oauth2Client!.getToken(code);
+            const { tokens } = await this.oauth2Client!.getToken({
+                code,
+                codeVerifier: options.codeVerifier,
+                redirect_uri: options.redirectUri,
+            });
             if (tokens.scope === null || tokens.scope === undefined) {
                 console.warn('Received tokens without a scope. Using default or previously known scope.');
                 tokens.scope = SCOPES.join(' ');
@@ -116,27 +202,31 @@ export class AuthManager {
 
     private async storeTokens(tokens: StoredTokens): Promise<void> {
         try {
-            await fs.mkdir(CONFIG_DIR, { recursive: true });
-            await fs.writeFile(TOKEN_PATH, JSON.stringify(tokens), { mode: 0o600 });
-            console.log('Tokens stored successfully to:', TOKEN_PATH);
+            await this.tokenStore!.save(tokens);
         } catch (error) {
             console.error('Error storing tokens:', error);
         }
     }
 
     async loadTokens(): Promise<boolean> {
-        if (!this.oauth2Client) {
+        if (!this.oauth2Client || !this.tokenStore) {
             console.log("Cannot load tokens yet, client not initialized.");
             return false;
         }
         try {
-            const tokenData = await fs.readFile(TOKEN_PATH, 'utf-8');
-            const loadedTokens = JSON.parse(tokenData) as StoredTokens;
+            await this.migratePlaintextTokens();
+            const loadedTokens = await this.tokenStore.load();
 
-            if (!loadedTokens || !loadedTokens.refresh_token || loadedTokens.scope === null || loadedTokens.scope === undefined) {
+            if (!loadedTokens) {
+                console.log('No stored tokens found. Need to login or tokens were cleared.');
+                this.tokens = null;
+                return false;
+            }
+
+            if (!loadedTokens.refresh_token || loadedTokens.scope === null || loadedTokens.scope === undefined) {
                 console.log('No valid tokens found, refresh token missing, or scope is invalid/missing.');
                 this.tokens = null;
-                await this.clearTokensOnFile();
+                await this.clearStoredTokens();
                 return false;
             }
 
@@ -145,18 +235,34 @@ export class AuthManager {
             console.log('Tokens loaded successfully.');
             return true;
         } catch (error: any) {
-            if (error.code === 'ENOENT') {
-                console.log('Token file not found. Need to login or tokens were cleared.');
-                this.tokens = null;
-                return false;
-            }
-            console.error('Error loading tokens:', error);
+            // A wrong passphrase or a locked keychain must not cost the user their refresh token,
+            // so unreadable tokens are left where they are
+            console.error(`Error loading tokens (stored tokens were left in place): ${error.message}`);
             this.tokens = null;
-            await this.clearTokensOnFile();
             return false;
         }
     }
 
+    /**
+     * Moves tokens left in the legacy plaintext google-tokens.json into the configured secure store,
+     * then deletes the plaintext file. No-op when the plain file backend is in use.
+     */
+    private async migratePlaintextTokens(): Promise<void> {
+        if (!this.tokenStore || this.tokenStore.kind === 'plain-file') {
+            return;
+        }
+
+        const legacyStore = new PlainFileTokenStore(this.paths.tokenPath);
+        const legacyTokens = await legacyStore.load().catch(() => null);
+        if (!legacyTokens) {
+            return;
+        }
+
+        await this.tokenStore.save(legacyTokens);
+        await legacyStore.clear();
+        console.log(`Migrated plaintext tokens from ${this.paths.tokenPath} to the ${this.tokenStore.kind} token store.`);
+    }
+
     async getAccessToken(): Promise<string | null | undefined> {
         await this.ensureInitialized();
 
@@ -210,17 +316,17 @@ export class AuthManager {
         if (this.oauth2Client) {
              this.oauth2Client.setCredentials({});
         }
-        await this.clearTokensOnFile();
+        await this.clearStoredTokens();
     }
 
-    private async clearTokensOnFile(): Promise<void> {
+    private async clearStoredTokens(): Promise<void> {
+        if (!this.tokenStore) {
+            return;
+        }
         try {
-            await fs.unlink(TOKEN_PATH);
-            console.log('Token file deleted.');
+            await this.tokenStore.clear();
         } catch (error: any) {
-            if (error.code !== 'ENOENT') {
-                console.error('Error deleting token file:', error);
-            }
+            console.error('Error deleting stored tokens:', error);
         }
     }
 
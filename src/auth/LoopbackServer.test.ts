@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import { LoopbackServer } from './LoopbackServer';
+
+vi.mock('../utils/logger', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+// Minimal GET helper so the test does not depend on (mocked) axios
+const get = (url: string): Promise<{ status: number; body: string }> =>
+  new Promise((resolve, reject) => {
+    http
+      .get(url, (res) => {
+        let body = '';
+        res.on('data', (chunk) => (body += chunk));
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, body }));
+      })
+      .on('error', reject);
+  });
+
+describe('LoopbackServer', () => {
+  let server: LoopbackServer;
+
+  beforeEach(() => {
+    server = new LoopbackServer();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should listen on 127.0.0.1 with an ephemeral port', async () => {
+    const redirectUri = await server.start('state-1');
+    expect(redirectUri).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/);
+  });
+
+  it('should resolve with the authorization code when the state matches', async () => {
+    const redirectUri = await server.start('state-1');
+    const codePromise = server.waitForCode();
+
+    const response = await get(`${redirectUri}/?code=auth-code-123&state=state-1`);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toContain('authorized');
+    await expect(codePromise).resolves.toBe('auth-code-123');
+  });
+
+  it('should reject when the state does not match', async () => {
+    const redirectUri = await server.start('state-1');
+    const rejection = expect(server.waitForCode()).rejects.toThrow(/state mismatch/);
+
+    const response = await get(`${redirectUri}/?code=auth-code-123&state=forged`);
+
+    expect(response.status).toBe(400);
+    await rejection;
+  });
+
+  it('should reject when the user denies access', async () => {
+    const redirectUri = await server.start('state-1');
+    const rejection = expect(server.waitForCode()).rejects.toThrow(/access_denied/);
+
+    await get(`${redirectUri}/?error=access_denied&state=state-1`);
+
+    await rejection;
+  });
+
+  it('should ignore requests for other paths', async () => {
+    const redirectUri = await server.start('state-1');
+    const codePromise = server.waitForCode();
+
+    const favicon = await get(`${redirectUri}/favicon.ico`);
+    expect(favicon.status).toBe(404);
+
+    await get(`${redirectUri}/?code=late-code&state=state-1`);
+    await expect(codePromise).resolves.toBe('late-code');
+  });
+
+  it('should time out if no redirect arrives', async () => {
+    await server.start('state-1');
+    await expect(server.waitForCode(20)).rejects.toThrow(/Timed out/);
+  });
+
+  it('should refuse to wait before being started', async () => {
+    await expect(server.waitForCode()).rejects.toThrow(/not been started/);
+  });
+});
@@ -0,0 +1,137 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('LoopbackServer');
+
+const LOOPBACK_HOST = '127.0.0.1';
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000; // Give the user 5 minutes to finish the consent screen
+
+const SUCCESS_PAGE =
+  '<html><body><h3>Photo Migrator is now authorized.</h3><p>You can close this window and return to the terminal.</p></body></html>';
+const FAILURE_PAGE =
+  '<html><body><h3>Authorization failed.</h3><p>Return to the terminal for details.</p></body></html>';
+
+/**
+ * Temporary HTTP listener on 127.0.0.1 used as the OAuth redirect target.
+ * It accepts exactly one authorization response and then stops listening.
+ */
+export class LoopbackServer {
+  private server: http.Server | null = null;
+  private expectedState: string | null = null;
+  private codePromise: Promise<string> | null = null;
+  private resolveCode: ((code: string) => void) | null = null;
+  private rejectCode: ((error: Error) => void) | null = null;
+
+  /**
+   * Starts listening on an ephemeral port and returns the redirect URI to register with Google.
+   * @param expectedState The `state` value sent in the auth URL; responses with any other state are rejected.
+   */
+  async start(expectedState: string): Promise<string> {
+    if (this.server) {
+      throw new Error('Loopback server is already running');
+    }
+
+    this.expectedState = expectedState;
+    this.codePromise = new Promise<string>((resolve, reject) => {
+      this.resolveCode = resolve;
+      this.rejectCode = reject;
+    });
+    // Avoid unhandled rejections if the caller closes the server without waiting
+    this.codePromise.catch(() => undefined);
+
+    const server = http.createServer((req, res) => this.handleRequest(req, res));
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(0, LOOPBACK_HOST, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    const { port } = server.address() as AddressInfo;
+    const redirectUri = `http://${LOOPBACK_HOST}:${port}`;
+    logger.info(`Listening for OAuth redirect on ${redirectUri}`);
+    return redirectUri;
+  }
+
+  /**
+   * Resolves with the authorization code once the browser is redirected back,
+   * or rejects on an error response, a state mismatch or a timeout.
+   */
+  async waitForCode(timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<string> {
+    if (!this.codePromise) {
+      throw new Error('Loopback server has not been started');
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () =>
+          reject(
+            new Error(`Timed out after ${Math.round(timeoutMs / 1000)}s waiting for authorization`)
+          ),
+        timeoutMs
+      );
+    });
+
+    try {
+      return await Promise.race([this.codePromise, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Stops the listener. Safe to call more than once.
+   */
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = null;
+    this.rejectCode?.(new Error('Loopback server closed before authorization completed'));
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    logger.debug('Loopback server closed');
+  }
+
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const url = new URL(req.url ?? '/', `http://${LOOPBACK_HOST}`);
+
+    // Browsers also ask for things like /favicon.ico - only the root path carries the response
+    if (url.pathname !== '/') {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const error = url.searchParams.get('error');
+    const code = url.searchParams.get('code');
+    const state = url.searchParams.get('state');
+
+    if (state !== this.expectedState) {
+      logger.warn('Ignoring OAuth redirect with unexpected state parameter');
+      res.writeHead(400, { 'Content-Type': 'text/html' }).end(FAILURE_PAGE);
+      this.rejectCode?.(new Error('OAuth state mismatch - possible forged redirect'));
+      return;
+    }
+
+    if (error) {
+      res.writeHead(400, { 'Content-Type': 'text/html' }).end(FAILURE_PAGE);
+      this.rejectCode?.(new Error(`Authorization was denied: ${error}`));
+      return;
+    }
+
+    if (!code) {
+      res.writeHead(400, { 'Content-Type': 'text/html' }).end(FAILURE_PAGE);
+      this.rejectCode?.(new Error('Authorization response did not include a code'));
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'text/html' }).end(SUCCESS_PAGE);
+    this.resolveCode?.(code);
+  }
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as keytar from 'keytar';
+import {
+  createTokenStore,
+  EncryptedFileTokenStore,
+  KeychainTokenStore,
+  PlainFileTokenStore,
+  TOKEN_PASSPHRASE_ENV,
+} from './TokenStore';
+
+vi.mock('../utils/logger', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+vi.mock('keytar', () => ({
+  getPassword: vi.fn(),
+  setPassword: vi.fn(),
+  deletePassword: vi.fn(),
+}));
+
+const TOKENS = {
+  access_token: 'access',
+  refresh_token: 'refresh',
+  scope: 'scope',
+  expiry_date: 1234,
+};
+
+describe('TokenStore', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'token-store-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+    delete process.env[TOKEN_PASSPHRASE_ENV];
+  });
+
+  describe('EncryptedFileTokenStore', () => {
+    it('should round-trip tokens without writing them in plaintext', async () => {
+      const filePath = path.join(tmpDir, 'nested', 'google-tokens.enc');
+      const store = new EncryptedFileTokenStore(filePath, 'correct horse');
+
+      await store.save(TOKENS);
+
+      const raw = await fs.readFile(filePath, 'utf-8');
+      expect(raw).not.toContain('refresh');
+      expect((await fs.stat(filePath)).mode & 0o777).toBe(0o600);
+      expect(await store.load()).toEqual(TOKENS);
+    });
+
+    it('should fail to decrypt with the wrong passphrase', async () => {
+      const filePath = path.join(tmpDir, 'google-tokens.enc');
+      await new EncryptedFileTokenStore(filePath, 'correct horse').save(TOKENS);
+
+      await expect(new EncryptedFileTokenStore(filePath, 'battery staple').load()).rejects.toThrow(
+        /wrong passphrase/
+      );
+    });
+
+    it('should return null when no file exists and clear idempotently', async () => {
+      const store = new EncryptedFileTokenStore(path.join(tmpDir, 'missing.enc'), 'pass');
+      expect(await store.load()).toBeNull();
+      await expect(store.clear()).resolves.toBeUndefined();
+    });
+  });
+
+  describe('PlainFileTokenStore', () => {
+    it('should round-trip tokens and delete the file on clear', async () => {
+      const filePath = path.join(tmpDir, 'google-tokens.json');
+      const store = new PlainFileTokenStore(filePath);
+
+      await store.save(TOKENS);
+      expect(JSON.parse(await fs.readFile(filePath, 'utf-8'))).toEqual(TOKENS);
+
+      await store.clear();
+      expect(await store.load()).toBeNull();
+    });
+  });
+
+  describe('KeychainTokenStore', () => {
+    it('should store tokens as a JSON secret under the given account', async () => {
+      const store = new KeychainTokenStore(keytar, 'account-1');
+      vi.mocked(keytar.getPassword).mockResolvedValue(JSON.stringify(TOKENS));
+
+      await store.save(TOKENS);
+      expect(keytar.setPassword).toHaveBeenCalledWith(
+        'photo-migrator',
+        'account-1',
+        JSON.stringify(TOKENS)
+      );
+      expect(await store.load()).toEqual(TOKENS);
+
+      await store.clear();
+      expect(keytar.deletePassword).toHaveBeenCalledWith('photo-migrator', 'account-1');
+    });
+  });
+
+  describe('createTokenStore', () => {
+    const options = () => ({
+      plainFilePath: path.join(tmpDir, 'google-tokens.json'),
+      encryptedFilePath: path.join(tmpDir, 'google-tokens.enc'),
+    });
+
+    it('should default to the OS keychain', async () => {
+      const store = await createTokenStore(options());
+      expect(store.kind).toBe('keychain');
+    });
+
+    it('should only use the plaintext file when explicitly requested', async () => {
+      const store = await createTokenStore({ ...options(), preferred: 'plain-file' });
+      expect(store.kind).toBe('plain-file');
+    });
+
+    it('should require a passphrase for the encrypted file', async () => {
+      await expect(createTokenStore({ ...options(), preferred: 'encrypted-file' })).rejects.toThrow(
+        TOKEN_PASSPHRASE_ENV
+      );
+
+      process.env[TOKEN_PASSPHRASE_ENV] = 'from-env';
+      const store = await createTokenStore({ ...options(), preferred: 'encrypted-file' });
+      expect(store.kind).toBe('encrypted-file');
+    });
+  });
+});
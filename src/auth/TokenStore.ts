@@ -0,0 +1,257 @@
+import { Credentials } from 'google-auth-library';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('TokenStore');
+
+const KEYCHAIN_SERVICE = 'photo-migrator';
+const KEYCHAIN_ACCOUNT = 'google-tokens';
+
+// Environment variable holding the passphrase for the encrypted-file backend
+export const TOKEN_PASSPHRASE_ENV = 'PHOTO_MIGRATOR_TOKEN_PASSPHRASE';
+
+// Parameters for the encrypted token file (AES-256-GCM, key derived with scrypt)
+const ENCRYPTED_FILE_VERSION = 1;
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+export type TokenStoreKind = 'keychain' | 'encrypted-file' | 'plain-file';
+
+export interface StoredTokens extends Credentials {
+  // Credentials already defines most fields like access_token, refresh_token, expiry_date, token_type
+  // Add any custom fields if needed, but google-auth-library types are usually sufficient.
+  // We ensure scope is string | undefined by filtering null during load.
+}
+
+/**
+ * Persistence backend for OAuth tokens.
+ */
+export interface TokenStore {
+  readonly kind: TokenStoreKind;
+  /** Returns the stored tokens, or null if none are stored. */
+  load(): Promise<StoredTokens | null>;
+  save(tokens: StoredTokens): Promise<void>;
+  /** Removes stored tokens. Succeeds if nothing was stored. */
+  clear(): Promise<void>;
+}
+
+interface EncryptedTokenFile {
+  version: number;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+type KeytarModule = typeof import('keytar');
+
+/**
+ * Loads keytar lazily so that a missing native binding (e.g. no libsecret on Linux)
+ * only disables the keychain backend instead of crashing the app.
+ */
+export async function loadKeytar(): Promise<KeytarModule | null> {
+  try {
+    return await import('keytar');
+  } catch (error: any) {
+    logger.warn(`OS keychain is not available (keytar failed to load): ${error.message}`);
+    return null;
+  }
+}
+
+/**
+ * Stores tokens in the OS credential store (macOS Keychain, Windows Credential Manager, libsecret).
+ */
+export class KeychainTokenStore implements TokenStore {
+  readonly kind = 'keychain';
+
+  constructor(
+    private readonly keytar: KeytarModule,
+    private readonly account: string = KEYCHAIN_ACCOUNT
+  ) {}
+
+  async load(): Promise<StoredTokens | null> {
+    const secret = await this.keytar.getPassword(KEYCHAIN_SERVICE, this.account);
+    return secret ? (JSON.parse(secret) as StoredTokens) : null;
+  }
+
+  async save(tokens: StoredTokens): Promise<void> {
+    await this.keytar.setPassword(KEYCHAIN_SERVICE, this.account, JSON.stringify(tokens));
+    logger.info('Tokens stored in the OS keychain.');
+  }
+
+  async clear(): Promise<void> {
+    await this.keytar.deletePassword(KEYCHAIN_SERVICE, this.account);
+  }
+}
+
+/**
+ * Stores tokens in a file encrypted with AES-256-GCM. The key is derived from a passphrase with scrypt
+ * and a random salt, so the file is useless without the passphrase.
+ */
+export class EncryptedFileTokenStore implements TokenStore {
+  readonly kind = 'encrypted-file';
+
+  constructor(
+    private readonly filePath: string,
+    private readonly passphrase: string
+  ) {
+    if (!passphrase) {
+      throw new Error('A passphrase is required for the encrypted token file');
+    }
+  }
+
+  async load(): Promise<StoredTokens | null> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    const file = JSON.parse(raw) as EncryptedTokenFile;
+    if (file.version !== ENCRYPTED_FILE_VERSION) {
+      throw new Error(`Unsupported encrypted token file version: ${file.version}`);
+    }
+
+    const key = await deriveKey(this.passphrase, Buffer.from(file.salt, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+    try {
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(file.data, 'base64')),
+        decipher.final(),
+      ]);
+      return JSON.parse(plaintext.toString('utf-8')) as StoredTokens;
+    } catch {
+      throw new Error('Failed to decrypt token file - wrong passphrase or corrupted file');
+    }
+  }
+
+  async save(tokens: StoredTokens): Promise<void> {
+    const salt = crypto.randomBytes(SALT_LENGTH);
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const key = await deriveKey(this.passphrase, salt);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(tokens), 'utf-8'), cipher.final()]);
+
+    const file: EncryptedTokenFile = {
+      version: ENCRYPTED_FILE_VERSION,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(file), { mode: 0o600 });
+    logger.info(`Tokens stored in encrypted file: ${this.filePath}`);
+  }
+
+  async clear(): Promise<void> {
+    await unlinkIfExists(this.filePath);
+  }
+}
+
+/**
+ * Stores tokens as plaintext JSON. Only used when explicitly selected in config.json.
+ */
+export class PlainFileTokenStore implements TokenStore {
+  readonly kind = 'plain-file';
+
+  constructor(private readonly filePath: string) {}
+
+  async load(): Promise<StoredTokens | null> {
+    try {
+      const tokenData = await fs.readFile(this.filePath, 'utf-8');
+      return JSON.parse(tokenData) as StoredTokens;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async save(tokens: StoredTokens): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(tokens), { mode: 0o600 });
+    logger.info(`Tokens stored successfully to: ${this.filePath}`);
+  }
+
+  async clear(): Promise<void> {
+    if (await unlinkIfExists(this.filePath)) {
+      logger.info('Token file deleted.');
+    }
+  }
+}
+
+export interface TokenStoreOptions {
+  preferred?: TokenStoreKind; // From config.json; defaults to the keychain
+  plainFilePath: string;
+  encryptedFilePath: string;
+  passphrase?: string; // Defaults to the PHOTO_MIGRATOR_TOKEN_PASSPHRASE environment variable
+  keychainAccount?: string;
+}
+
+/**
+ * Picks the token backend. The keychain is preferred; if it is unavailable we fall back to the
+ * encrypted file when a passphrase is configured. Plaintext storage is never chosen implicitly.
+ */
+export async function createTokenStore(options: TokenStoreOptions): Promise<TokenStore> {
+  const passphrase = options.passphrase ?? process.env[TOKEN_PASSPHRASE_ENV];
+
+  switch (options.preferred ?? 'keychain') {
+    case 'plain-file':
+      logger.warn('Storing OAuth tokens in a plaintext file (tokenStore: "plain-file").');
+      return new PlainFileTokenStore(options.plainFilePath);
+    case 'encrypted-file':
+      if (!passphrase) {
+        throw new Error(
+          `tokenStore "encrypted-file" requires the ${TOKEN_PASSPHRASE_ENV} environment variable`
+        );
+      }
+      return new EncryptedFileTokenStore(options.encryptedFilePath, passphrase);
+    case 'keychain': {
+      const keytar = await loadKeytar();
+      if (keytar) {
+        return new KeychainTokenStore(keytar, options.keychainAccount);
+      }
+      if (passphrase) {
+        logger.warn('Falling back to the encrypted token file.');
+        return new EncryptedFileTokenStore(options.encryptedFilePath, passphrase);
+      }
+      throw new Error(
+        `No secure token storage available. Set ${TOKEN_PASSPHRASE_ENV} to use an encrypted token file, ` +
+          'or set "tokenStore": "plain-file" in config.json to opt in to plaintext storage.'
+      );
+    }
+    default:
+      throw new Error(`Unknown tokenStore in config.json: ${options.preferred}`);
+  }
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(passphrase, salt, KEY_LENGTH, (error, key) =>
+      error ? reject(error) : resolve(key)
+    );
+  });
+}
+
+async function unlinkIfExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.unlink(filePath);
+    return true;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return false;
+    }
+    throw error;
+  }
+}
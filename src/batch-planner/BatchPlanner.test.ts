@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BatchPlanner, BatchPlannerOptions } from './BatchPlanner';
+import { DiskMonitor, MIN_FREE_BYTES } from '../disk-monitor/DiskMonitor';
+import { DatabaseManager, MediaItem, MediaType } from '../utils/database';
+
+vi.mock('../utils/logger', () => {
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+  return { logger, createLogger: () => logger };
+});
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+describe('BatchPlanner', () => {
+  let tmpDir: string;
+  let dbManager: DatabaseManager;
+  let freeBytes: number;
+  let totalBytes: number;
+
+  const add = (id: string, sizeMb: number, override: Partial<MediaItem> = {}, mediaType: MediaType = 'photo') =>
+    dbManager.addMediaItem({
+      id,
+      media_type: mediaType,
+      mime_type: mediaType === 'photo' ? 'image/jpeg' : 'video/mp4',
+      original_path: `/photos/${id}`,
+      original_name: id,
+      size_bytes: sizeMb * MB,
+      status: 'pending',
+      ...override,
+    });
+  const createPlanner = (options: Partial<BatchPlannerOptions> = {}) =>
+    new BatchPlanner(dbManager, {
+      profile: 'default',
+      stagingDir: tmpDir,
+      diskMonitor: new DiskMonitor({ stagingDir: tmpDir, getVolumeSpace: () => ({ freeBytes, totalBytes }) }),
+      ...options,
+    });
+  const ids = (items: MediaItem[]) => items.map((item) => item.id);
+
+  beforeEach(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'batch-planner-'));
+    dbManager = new DatabaseManager(path.join(tmpDir, 'test.sqlite'));
+    await dbManager.initialize();
+    freeBytes = MIN_FREE_BYTES + 100 * MB;
+    totalBytes = 20 * GB; // Small enough for the 5GB minimum to be the reserve
+  });
+
+  afterEach(() => {
+    dbManager.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should keep 5GB free and stay within the disk usage limit', () => {
+    expect(createPlanner().getBatchBudget()).toBe(100 * MB);
+    expect(createPlanner({ maxDiskUsageBytes: 40 * MB }).getBatchBudget()).toBe(40 * MB);
+
+    freeBytes = MIN_FREE_BYTES - MB;
+    expect(createPlanner().getBatchBudget()).toBe(0);
+  });
+
+  it('should keep 10% of larger volumes free', () => {
+    totalBytes = 100 * GB;
+    freeBytes = 10 * GB + 100 * MB;
+
+    expect(createPlanner().getBatchBudget()).toBe(100 * MB);
+  });
+
+  it('should plan pending items in scan order when they all fit', () => {
+    add('b', 30);
+    add('a', 10);
+    add('uploaded', 1, { status: 'uploaded' });
+    add('other-profile', 1);
+    dbManager.updateMediaProfile('other-profile', 'work');
+
+    const planned = createPlanner().planNextBatch()!;
+
+    expect(ids(planned.items)).toEqual(['b', 'a']);
+    expect(planned.batch).toMatchObject({ status: 'planned', total_size: 40 * MB, files_count: 2 });
+    expect(ids(dbManager.getBatchMedia(planned.batch.id))).toEqual(['a', 'b']);
+    // Items in an open batch aren't planned again
+    expect(createPlanner().planNextBatch()).toBeNull();
+  });
+
+  it('should favor smaller files when not everything fits', () => {
+    add('large', 80);
+    add('medium', 40);
+    add('small', 20);
+    add('tiny', 5);
+
+    const planner = createPlanner();
+    const first = planner.planNextBatch()!;
+    expect(ids(first.items)).toEqual(['tiny', 'small', 'medium']);
+
+    planner.finishBatch(first.batch.id); // Still pending, so the batch fails and its items are free again
+    dbManager.updateMediaStatus('tiny', 'uploaded');
+    dbManager.updateMediaStatus('small', 'uploaded');
+    dbManager.updateMediaStatus('medium', 'uploaded');
+    expect(ids(planner.planNextBatch()!.items)).toEqual(['large']);
+  });
+
+  it('should respect the item limit', () => {
+    ['a', 'b', 'c'].forEach((id) => add(id, 1));
+
+    expect(ids(createPlanner({ maxItems: 2 }).planNextBatch()!.items)).toEqual(['a', 'b']);
+  });
+
+  it('should not plan anything when no pending file fits', () => {
+    add('huge', 500);
+
+    expect(createPlanner().planNextBatch()).toBeNull();
+    expect(dbManager.getBatchesByStatus('planned')).toEqual([]);
+    expect(dbManager.getMediaById('huge')?.status).toBe('pending'); // Fits once space is freed
+  });
+
+  it('should skip files that could never fit in a batch', () => {
+    add('huge', 16 * 1024); // The 20GB volume can never stage more than 15GB
+    add('small', 10);
+
+    expect(ids(createPlanner().planNextBatch()!.items)).toEqual(['small']);
+    expect(dbManager.getMediaById('huge')).toMatchObject({
+      status: 'skipped',
+      error_message: expect.stringMatching(/^File is 16\.0 GB, more than the 15\.0 GB a batch can ever use/),
+    });
+
+    add('over-limit', 50);
+    expect(createPlanner({ maxDiskUsageBytes: 40 * MB }).planNextBatch()).toBeNull();
+    expect(dbManager.getMediaById('over-limit')?.status).toBe('skipped');
+  });
+
+  it('should plan photos before videos when media types are separated', () => {
+    add('clip', 10, {}, 'video');
+    add('photo', 10);
+
+    const planner = createPlanner({ separateMediaTypes: true });
+    const photos = planner.planNextBatch()!;
+    const videos = planner.planNextBatch()!;
+
+    expect(ids(photos.items)).toEqual(['photo']);
+    expect(ids(videos.items)).toEqual(['clip']);
+    expect(planner.planNextBatch()).toBeNull();
+  });
+
+  it('should move batches through their states', () => {
+    add('ok', 1);
+    add('broken', 1);
+    const planner = createPlanner();
+
+    const planned = planner.planNextBatch()!;
+    planner.startBatch(planned.batch.id);
+    expect(dbManager.getBatchById(planned.batch.id)?.status).toBe('uploading');
+
+    dbManager.updateMediaStatus('ok', 'uploaded');
+    dbManager.updateMediaStatus('broken', 'failed', 'Upload failed');
+    expect(planner.finishBatch(planned.batch.id)).toBe('failed');
+
+    add('next', 1);
+    const next = planner.planNextBatch()!;
+    dbManager.updateMediaStatus('next', 'uploaded');
+    expect(planner.finishBatch(next.batch.id)).toBe('complete');
+  });
+
+  it('should resume the pending items of a batch left open by an earlier run', () => {
+    add('done', 1);
+    add('left', 1);
+    const planned = createPlanner().planNextBatch()!;
+    createPlanner().startBatch(planned.batch.id);
+    dbManager.updateMediaStatus('done', 'uploaded');
+
+    const resumed = createPlanner().resumeOpenBatch()!;
+
+    expect(resumed.batch.id).toBe(planned.batch.id);
+    expect(ids(resumed.items)).toEqual(['left']);
+
+    dbManager.updateMediaStatus('left', 'exported'); // Staged, but not uploaded yet
+    expect(ids(createPlanner().resumeOpenBatch()!.items)).toEqual(['left']);
+
+    dbManager.updateMediaStatus('left', 'uploaded');
+    expect(createPlanner().resumeOpenBatch()).toBeNull();
+    expect(dbManager.getBatchById(planned.batch.id)?.status).toBe('complete');
+  });
+});
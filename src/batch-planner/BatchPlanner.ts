@@ -0,0 +1,189 @@
+import path from 'path';
+import crypto from 'crypto';
+import { Batch, DatabaseManager, MediaItem, MediaType } from '../utils/database';
+import { createLogger } from '../utils/logger';
+import { DiskMonitor, formatGB } from '../disk-monitor/DiskMonitor';
+
+const logger = createLogger('BatchPlanner');
+
+const GB = 1024 * 1024 * 1024;
+
+// Folder that files are exported to before upload; free space is measured on its volume
+export const DEFAULT_STAGING_DIR = path.join(process.cwd(), 'data', 'staging');
+export const DEFAULT_MAX_DISK_USAGE_BYTES = 80 * GB; // maxDiskUsageGB in the FSD config
+const DEFAULT_MAX_ITEMS = 50;
+
+export interface BatchPlannerOptions {
+  profile: string; // Only items pending for this Google account are planned
+  stagingDir?: string;
+  maxDiskUsageBytes?: number; // Upper bound on the combined size of a batch
+  maxItems?: number; // Upper bound on the number of items in a batch
+  separateMediaTypes?: boolean; // Plan photos and videos in separate batches, photos first
+  diskMonitor?: DiskMonitor; // Measures the staging volume; one for `stagingDir` is created if not given
+}
+
+/**
+ * A batch recorded in the database and the media items it contains
+ */
+export interface PlannedBatch {
+  batch: Batch;
+  items: MediaItem[];
+}
+
+/**
+ * Plans upload batches from pending media items so that a batch never needs more disk space than
+ * the staging volume can spare: at most min(maxDiskUsage, free space - reserve), where the reserve
+ * is 10% of the volume or 5GB (see DiskMonitor). When the pending items don't all fit, the smallest
+ * are planned first so that as much as possible gets uploaded. Files too large to ever be staged are
+ * skipped with an error message saying why.
+ *
+ * Each batch is recorded with its members in the database and moves from 'planned' to 'uploading'
+ * to 'complete', or to 'failed' if any of its items did not make it. Items of a failed batch that
+ * are still pending, or failed and due for a retry, are planned again into a later batch.
+ */
+export class BatchPlanner {
+  private dbManager: DatabaseManager;
+  private profile: string;
+  private stagingDir: string;
+  private maxDiskUsageBytes: number;
+  private maxItems: number;
+  private separateMediaTypes: boolean;
+  private diskMonitor: DiskMonitor;
+
+  constructor(dbManager: DatabaseManager, options: BatchPlannerOptions) {
+    this.dbManager = dbManager;
+    this.profile = options.profile;
+    this.stagingDir = options.stagingDir ?? DEFAULT_STAGING_DIR;
+    this.maxDiskUsageBytes = options.maxDiskUsageBytes ?? DEFAULT_MAX_DISK_USAGE_BYTES;
+    this.maxItems = options.maxItems ?? DEFAULT_MAX_ITEMS;
+    this.separateMediaTypes = options.separateMediaTypes ?? false;
+    this.diskMonitor = options.diskMonitor ?? new DiskMonitor({ stagingDir: this.stagingDir });
+  }
+
+  /**
+   * The most bytes a new batch may contain right now.
+   */
+  getBatchBudget(): number {
+    return Math.min(this.maxDiskUsageBytes, this.diskMonitor.getAvailableBytes());
+  }
+
+  /**
+   * Returns the batch a previous run left planned or uploading, with its items that are still pending
+   * or exported, so an interrupted run carries on where it stopped. Batches with nothing left to upload
+   * are closed.
+   */
+  resumeOpenBatch(): PlannedBatch | null {
+    const open = [...this.dbManager.getBatchesByStatus('uploading'), ...this.dbManager.getBatchesByStatus('planned')];
+    for (const batch of open) {
+      const items = this.dbManager
+        .getBatchMedia(batch.id)
+        .filter((item) => (item.status === 'pending' || item.status === 'exported') && (!item.profile || item.profile === this.profile));
+      if (items.length > 0) {
+        logger.info(`Resuming batch ${batch.id} (${items.length} of ${batch.files_count} items left)`);
+        return { batch, items };
+      }
+      this.finishBatch(batch.id);
+    }
+    return null;
+  }
+
+  /**
+   * Selects pending items that fit in the current budget and records them as a new 'planned' batch.
+   * Returns null when nothing is pending, or when no pending item fits in the space available.
+   */
+  planNextBatch(): PlannedBatch | null {
+    const mediaTypes: (MediaType | undefined)[] = this.separateMediaTypes ? ['photo', 'video'] : [undefined];
+    for (const mediaType of mediaTypes) {
+      const planned = this.planBatch(mediaType);
+      if (planned) {
+        return planned;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Marks a batch as being uploaded.
+   */
+  startBatch(batchId: string): void {
+    this.dbManager.updateBatchStatus(batchId, 'uploading');
+  }
+
+  /**
+   * Closes a batch: 'complete' if all of its items were uploaded or skipped, 'failed' otherwise
+   * (including when items were abandoned).
+   */
+  finishBatch(batchId: string): Batch['status'] {
+    const unfinished = this.dbManager.getBatchMedia(batchId).filter(isUnfinished);
+    const status = unfinished.length === 0 ? 'complete' : 'failed';
+    this.dbManager.updateBatchStatus(batchId, status);
+    logger.info(`Batch ${batchId} ${status}${unfinished.length > 0 ? ` (${unfinished.length} items not uploaded)` : ''}`);
+    return status;
+  }
+
+  private planBatch(mediaType: MediaType | undefined): PlannedBatch | null {
+    const pending = this.dbManager.getUnbatchedPendingTotals(this.profile, mediaType);
+    if (pending.count === 0) {
+      return null;
+    }
+
+    const budget = this.getBatchBudget();
+    // Files above this wouldn't fit in a batch even with the staging volume empty
+    const maxFileSize = Math.min(this.maxDiskUsageBytes, this.diskMonitor.getMaxStageableBytes());
+    // Space is tight when not everything pending fits: fill the batch smallest first
+    const smallestFirst = pending.total_bytes > budget;
+    const items: MediaItem[] = [];
+    const tooLarge: MediaItem[] = [];
+    let totalSize = 0;
+
+    for (const item of this.dbManager.iterateUnbatchedPendingMedia(this.profile, { mediaType, smallestFirst })) {
+      const size = item.size_bytes ?? 0;
+      if (size > maxFileSize) {
+        tooLarge.push(item);
+        continue;
+      }
+      if (totalSize + size > budget) {
+        if (smallestFirst) {
+          break; // Everything after this is at least as large
+        }
+        continue; // Left for a later batch
+      }
+      items.push(item);
+      totalSize += size;
+      if (items.length >= this.maxItems) {
+        break;
+      }
+    }
+
+    // Updated once the iteration is done, as the connection is busy while it runs
+    for (const item of tooLarge) {
+      const reason =
+        `File is ${formatGB(item.size_bytes ?? 0)}, more than the ${formatGB(maxFileSize)} a batch can ever use ` +
+        `(limited by the staging volume of ${this.stagingDir} and the disk usage limit)`;
+      logger.warn(`Skipping ${item.id}: ${reason}`);
+      this.dbManager.updateMediaStatus(item.id, 'skipped', reason);
+    }
+
+    if (items.length === 0) {
+      if (tooLarge.length < pending.count) {
+        logger.warn(`No pending ${mediaType ?? 'item'} fits in the ${formatGB(budget)} available for a batch in ${this.stagingDir}`);
+      }
+      return null;
+    }
+
+    const batch: Omit<Batch, 'created_at'> = {
+      id: crypto.randomUUID(),
+      status: 'planned',
+      total_size: totalSize,
+      files_count: items.length,
+    };
+    this.dbManager.addBatch(batch, items.map((item) => item.id));
+    logger.info(`Planned batch ${batch.id}: ${items.length} items, ${formatGB(totalSize)} (budget ${formatGB(budget)})`);
+    return { batch: this.dbManager.getBatchById(batch.id)!, items };
+  }
+}
+
+// Items of a batch that did not make it (yet)
+function isUnfinished(item: MediaItem): boolean {
+  return item.status === 'pending' || item.status === 'exported' || item.status === 'failed' || item.status === 'abandoned';
+}
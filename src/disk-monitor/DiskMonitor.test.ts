@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DiskMonitor, MIN_FREE_BYTES, VolumeSpace, getReserveBytes, getVolumeSpace } from './DiskMonitor';
+
+vi.mock('../utils/logger', () => {
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+  return { logger, createLogger: () => logger };
+});
+
+const GB = 1024 * 1024 * 1024;
+
+describe('DiskMonitor', () => {
+  let volumes: Record<string, VolumeSpace>;
+
+  const createMonitor = () =>
+    new DiskMonitor({
+      stagingDir: '/staging/batches',
+      databasePath: '/data/photo-migrator.db',
+      pollIntervalMs: 1000,
+      getVolumeSpace: (dir) => volumes[dir],
+    });
+
+  beforeEach(() => {
+    volumes = {
+      '/staging/batches': { freeBytes: 50 * GB, totalBytes: 200 * GB },
+      '/data': { freeBytes: 50 * GB, totalBytes: 200 * GB },
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should keep 10% of a volume free, but at least 5GB', () => {
+    expect(getReserveBytes(200 * GB)).toBe(20 * GB);
+    expect(getReserveBytes(20 * GB)).toBe(MIN_FREE_BYTES);
+  });
+
+  it('should report what can be staged now and at most', () => {
+    const monitor = createMonitor();
+
+    expect(monitor.getAvailableBytes()).toBe(30 * GB);
+    expect(monitor.getMaxStageableBytes()).toBe(180 * GB);
+
+    volumes['/staging/batches'].freeBytes = 10 * GB;
+    expect(monitor.getAvailableBytes()).toBe(0);
+  });
+
+  it('should pause when any watched volume runs low and resume once it recovers', () => {
+    const monitor = createMonitor();
+    const events: string[] = [];
+    monitor.on('pause', (reason: string) => events.push(`pause: ${reason}`));
+    monitor.on('resume', () => events.push('resume'));
+
+    expect(monitor.check()).toBe(true);
+
+    volumes['/data'].freeBytes = 19 * GB;
+    expect(monitor.check()).toBe(false);
+    expect(monitor.check()).toBe(false); // Paused once, not on every check
+    expect(monitor.isPaused).toBe(true);
+
+    volumes['/data'].freeBytes = 25 * GB;
+    expect(monitor.check()).toBe(true);
+
+    expect(events).toEqual(['pause: 19.0 GB free on the volume of /data, 20.0 GB must stay free', 'resume']);
+  });
+
+  it('should wait while paused', async () => {
+    vi.useFakeTimers();
+    const monitor = createMonitor();
+    volumes['/staging/batches'].freeBytes = GB;
+
+    let resumed = false;
+    const waiting = monitor.waitUntilResumed().then(() => (resumed = true));
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(resumed).toBe(false);
+
+    volumes['/staging/batches'].freeBytes = 100 * GB;
+    await vi.advanceTimersByTimeAsync(1000);
+    await waiting;
+    expect(monitor.isPaused).toBe(false);
+  });
+
+  it('should measure the closest existing folder', () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'disk-monitor-'));
+    try {
+      const space = getVolumeSpace(path.join(tmpDir, 'not', 'created', 'yet'));
+      expect(space.freeBytes).toBeGreaterThan(0);
+      expect(space.totalBytes).toBeGreaterThanOrEqual(space.freeBytes);
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
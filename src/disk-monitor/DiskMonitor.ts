@@ -0,0 +1,143 @@
+import fs from 'fs';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('DiskMonitor');
+
+const GB = 1024 * 1024 * 1024;
+
+// A volume counts as low on space below either of these (FSD 5.5), so the system keeps working
+export const MIN_FREE_BYTES = 5 * GB;
+export const MIN_FREE_RATIO = 0.1;
+const DEFAULT_POLL_INTERVAL_MS = 30 * 1000;
+
+export interface VolumeSpace {
+  freeBytes: number; // Available to this user
+  totalBytes: number;
+}
+
+/**
+ * Space on one watched volume, as of the last check
+ */
+export interface VolumeStatus extends VolumeSpace {
+  dir: string;
+  reserveBytes: number; // Kept free at all times
+  low: boolean;
+}
+
+export interface DiskMonitorOptions {
+  stagingDir: string; // Exports are written here; its volume determines how much can be staged
+  databasePath?: string; // The database's volume is watched too, as writes fail when it fills up
+  pollIntervalMs?: number; // How often space is checked again while paused
+  getVolumeSpace?: (dir: string) => VolumeSpace; // For tests
+}
+
+/**
+ * Free and total bytes of the volume holding `dir`. The directory doesn't have to exist yet;
+ * its closest existing parent is measured instead.
+ */
+export function getVolumeSpace(dir: string): VolumeSpace {
+  let existing = path.resolve(dir);
+  while (!fs.existsSync(existing) && path.dirname(existing) !== existing) {
+    existing = path.dirname(existing);
+  }
+  const stats = fs.statfsSync(existing);
+  return { freeBytes: stats.bavail * stats.bsize, totalBytes: stats.blocks * stats.bsize };
+}
+
+/**
+ * Bytes kept free on a volume of the given size: 10% of it, but at least 5GB.
+ */
+export function getReserveBytes(totalBytes: number): number {
+  return Math.max(MIN_FREE_BYTES, Math.ceil(totalBytes * MIN_FREE_RATIO));
+}
+
+/**
+ * Watches free space on the staging and database volumes. A volume is low once its free space drops
+ * below the reserve (10% or 5GB, whichever is more); the monitor then emits 'pause' with a message
+ * saying which volume is low, and 'resume' once every volume is above its reserve again. The upload
+ * loop waits in waitUntilResumed() before planning and staging the next batch.
+ */
+export class DiskMonitor extends EventEmitter {
+  private dirs: string[];
+  private stagingDir: string;
+  private pollIntervalMs: number;
+  private getVolumeSpace: (dir: string) => VolumeSpace;
+  private paused = false;
+
+  constructor(options: DiskMonitorOptions) {
+    super();
+    this.stagingDir = options.stagingDir;
+    this.dirs = [options.stagingDir];
+    if (options.databasePath) {
+      this.dirs.push(path.dirname(options.databasePath));
+    }
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.getVolumeSpace = options.getVolumeSpace ?? getVolumeSpace;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Measures every watched volume.
+   */
+  getStatus(): VolumeStatus[] {
+    return this.dirs.map((dir) => {
+      const space = this.getVolumeSpace(dir);
+      const reserveBytes = getReserveBytes(space.totalBytes);
+      return { dir, ...space, reserveBytes, low: space.freeBytes < reserveBytes };
+    });
+  }
+
+  /**
+   * Bytes that may be written to the staging volume right now without touching its reserve.
+   */
+  getAvailableBytes(): number {
+    const space = this.getVolumeSpace(this.stagingDir);
+    return Math.max(0, space.freeBytes - getReserveBytes(space.totalBytes));
+  }
+
+  /**
+   * The largest file the staging volume could ever hold while keeping its reserve, even once empty.
+   */
+  getMaxStageableBytes(): number {
+    const space = this.getVolumeSpace(this.stagingDir);
+    return Math.max(0, space.totalBytes - getReserveBytes(space.totalBytes));
+  }
+
+  /**
+   * Measures the volumes and pauses or resumes accordingly. Returns true if work may go on.
+   */
+  check(): boolean {
+    const low = this.getStatus().filter((volume) => volume.low);
+    if (low.length > 0 && !this.paused) {
+      this.paused = true;
+      const reason = low
+        .map((volume) => `${formatGB(volume.freeBytes)} free on the volume of ${volume.dir}, ${formatGB(volume.reserveBytes)} must stay free`)
+        .join('; ');
+      logger.warn(`Pausing: low disk space (${reason})`);
+      this.emit('pause', reason);
+    } else if (low.length === 0 && this.paused) {
+      this.paused = false;
+      logger.info('Resuming: enough disk space is free again');
+      this.emit('resume');
+    }
+    return !this.paused;
+  }
+
+  /**
+   * Returns once every volume has enough free space, checking again every poll interval while paused.
+   */
+  async waitUntilResumed(): Promise<void> {
+    while (!this.check()) {
+      await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+    }
+  }
+}
+
+export function formatGB(bytes: number): string {
+  return `${(bytes / GB).toFixed(1)} GB`;
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DuplicateResolver, chooseKeeper, parseDuplicatePolicy } from './DuplicateResolver';
+import { DatabaseManager, MediaItem } from '../utils/database';
+
+vi.mock('../utils/logger', () => {
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+  return { logger, createLogger: () => logger };
+});
+
+const item = (id: string, override: Partial<MediaItem> = {}): MediaItem => ({
+  id,
+  media_type: 'photo',
+  mime_type: 'image/jpeg',
+  original_path: `/photos/${id}.jpg`,
+  original_name: `${id}.jpg`,
+  status: 'pending',
+  retry_count: 0,
+  ...override,
+});
+
+describe('chooseKeeper', () => {
+  const older = item('older', { creation_date: '2020-01-01T00:00:00Z', size_bytes: 100, pixel_size: '10x10' });
+  const larger = item('larger', { creation_date: '2021-01-01T00:00:00Z', size_bytes: 500 });
+  const detailed = item('detailed', { creation_date: '2022-01-01T00:00:00Z', size_bytes: 100, pixel_size: '10x10', is_favorite: true });
+
+  it('should pick according to the policy', () => {
+    expect(chooseKeeper([larger, detailed, older], 'oldest').id).toBe('older');
+    expect(chooseKeeper([older, detailed, larger], 'largest').id).toBe('larger');
+    expect(chooseKeeper([older, larger, detailed], 'best-metadata').id).toBe('detailed');
+  });
+
+  it('should break ties by age and then ID', () => {
+    expect(chooseKeeper([item('b'), item('a')], 'largest').id).toBe('a');
+    expect(chooseKeeper([item('undated'), older], 'largest').id).toBe('older');
+  });
+
+  it('should prefer items that can still be uploaded', () => {
+    const abandoned = { ...older, id: 'abandoned', status: 'abandoned' as const };
+    const inCloud = { ...older, id: 'in-cloud', status: 'skipped_icloud' as const };
+
+    expect(chooseKeeper([abandoned, inCloud, larger, detailed], 'oldest').id).toBe('larger');
+    expect(chooseKeeper([abandoned, inCloud, item('failed', { status: 'failed', size_bytes: 1 })], 'largest').id).toBe('failed');
+    expect(chooseKeeper([inCloud, abandoned], 'oldest').id).toBe('abandoned');
+  });
+
+  it('should reject unknown policies', () => {
+    expect(parseDuplicatePolicy('best-metadata')).toBe('best-metadata');
+    expect(() => parseDuplicatePolicy('newest')).toThrow(/oldest, largest, best-metadata/);
+  });
+});
+
+describe('DuplicateResolver', () => {
+  let tmpDir: string;
+  let dbManager: DatabaseManager;
+
+  const add = (id: string, hash: string | undefined, override: Partial<MediaItem> = {}) =>
+    dbManager.addMediaItem({ ...item(id, override), sha256_hash: hash });
+  const get = (id: string) => dbManager.getMediaById(id)!;
+
+  beforeEach(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'duplicates-'));
+    dbManager = new DatabaseManager(path.join(tmpDir, 'test.sqlite'));
+    await dbManager.initialize();
+
+    add('copy-2021', 'hash-a', { creation_date: '2021-06-01T00:00:00Z', size_bytes: 2000 });
+    add('copy-2019', 'hash-a', { creation_date: '2019-06-01T00:00:00Z', size_bytes: 1000 });
+    add('unique', 'hash-b');
+    add('unhashed', undefined);
+  });
+
+  afterEach(() => {
+    dbManager.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should skip all but the chosen item of each group', () => {
+    const result = new DuplicateResolver(dbManager, 'oldest').resolveAll();
+
+    expect(result).toEqual({ groups: 1, skipped: 1 });
+    expect(get('copy-2019')).toMatchObject({ status: 'pending', duplicate_of: null });
+    expect(get('copy-2021')).toMatchObject({ status: 'skipped', duplicate_of: 'copy-2019' });
+    expect(get('unique').status).toBe('pending');
+    expect(dbManager.getPendingMedia(10).map((media) => media.id).sort()).toEqual(['copy-2019', 'unhashed', 'unique']);
+  });
+
+  it('should keep an earlier choice when the policy changes or copies are added', () => {
+    new DuplicateResolver(dbManager, 'oldest').resolveAll();
+    add('copy-2023', 'hash-a', { creation_date: '2023-06-01T00:00:00Z', size_bytes: 9000 });
+
+    const result = new DuplicateResolver(dbManager, 'largest').resolveAll();
+
+    expect(result).toEqual({ groups: 1, skipped: 1 });
+    expect(get('copy-2019').status).toBe('pending');
+    expect(get('copy-2023')).toMatchObject({ status: 'skipped', duplicate_of: 'copy-2019' });
+  });
+
+  it('should keep an item that was already uploaded', () => {
+    dbManager.updateMediaStatus('copy-2021', 'uploaded');
+
+    new DuplicateResolver(dbManager, 'oldest').resolveAll();
+
+    expect(get('copy-2021').status).toBe('uploaded');
+    expect(get('copy-2019')).toMatchObject({ status: 'skipped', duplicate_of: 'copy-2021' });
+  });
+
+  it('should leave an abandoned copy alone', () => {
+    dbManager.updateMediaStatus('copy-2021', 'abandoned');
+
+    expect(new DuplicateResolver(dbManager, 'oldest').resolveAll()).toEqual({ groups: 1, skipped: 0 });
+    expect(get('copy-2019')).toMatchObject({ status: 'pending', duplicate_of: null });
+    expect(get('copy-2021')).toMatchObject({ status: 'abandoned', duplicate_of: null });
+  });
+
+  it('should let the user override the choice', () => {
+    const resolver = new DuplicateResolver(dbManager, 'oldest');
+    resolver.resolveAll();
+
+    const group = resolver.override('copy-2021');
+
+    expect(group.keeper.id).toBe('copy-2021');
+    expect(get('copy-2021')).toMatchObject({ status: 'pending', duplicate_of: null });
+    expect(get('copy-2019')).toMatchObject({ status: 'skipped', duplicate_of: 'copy-2021' });
+
+    // Later runs keep the override
+    expect(resolver.resolveAll().skipped).toBe(0);
+    expect(resolver.listGroups()).toEqual([
+      expect.objectContaining({ hash: 'hash-a', keeper: expect.objectContaining({ id: 'copy-2021' }) }),
+    ]);
+  });
+
+  it('should refuse to override items without duplicates', () => {
+    const resolver = new DuplicateResolver(dbManager);
+
+    expect(() => resolver.override('missing')).toThrow(/No media item/);
+    expect(() => resolver.override('unhashed')).toThrow(/not been hashed/);
+    expect(() => resolver.override('unique')).toThrow(/no duplicates/);
+  });
+
+  it('should ignore items removed from the library', () => {
+    dbManager.markRemovedFromSource(['copy-2019']);
+
+    expect(new DuplicateResolver(dbManager).resolveAll()).toEqual({ groups: 0, skipped: 0 });
+    expect(get('copy-2021').status).toBe('pending');
+  });
+});
@@ -0,0 +1,189 @@
+import { DatabaseManager, MediaItem, isStatusTransitionAllowed } from '../utils/database';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('DuplicateResolver');
+
+export const DUPLICATE_POLICIES = ['oldest', 'largest', 'best-metadata'] as const;
+
+/**
+ * How the item to upload is chosen from a group with identical content:
+ *   oldest        - earliest creation date
+ *   largest       - most bytes, then most pixels
+ *   best-metadata - most of creation date, dimensions, video details and favorite flag known
+ * Ties fall back to the oldest item, then the ID, so the choice is stable between runs.
+ */
+export type DuplicatePolicy = (typeof DUPLICATE_POLICIES)[number];
+
+export const DEFAULT_DUPLICATE_POLICY: DuplicatePolicy = 'oldest';
+
+export function parseDuplicatePolicy(value: string): DuplicatePolicy {
+  if (!(DUPLICATE_POLICIES as readonly string[]).includes(value)) {
+    throw new Error(`Unknown duplicate policy "${value}" (expected one of: ${DUPLICATE_POLICIES.join(', ')})`);
+  }
+  return value as DuplicatePolicy;
+}
+
+/**
+ * Items sharing a content hash and the one among them that gets uploaded
+ */
+export interface DuplicateGroup {
+  hash: string;
+  keeper: MediaItem;
+  duplicates: MediaItem[];
+}
+
+export interface ResolveResult {
+  groups: number;
+  skipped: number; // Items newly marked as duplicates
+}
+
+function creationTime(item: MediaItem): number {
+  const time = item.creation_date ? Date.parse(item.creation_date) : NaN;
+  return Number.isNaN(time) ? Infinity : time;
+}
+
+function pixelCount(item: MediaItem): number {
+  const [width, height] = (item.pixel_size ?? '').split('x').map(Number);
+  return width > 0 && height > 0 ? width * height : 0;
+}
+
+function metadataScore(item: MediaItem): number {
+  const known = [item.creation_date, item.pixel_size, item.size_bytes];
+  if (item.media_type === 'video') {
+    known.push(item.duration_seconds, item.codec);
+  }
+  return known.filter((value) => value !== undefined && value !== null).length + (item.is_favorite ? 1 : 0);
+}
+
+// Negative when `a` should be kept over `b`
+const POLICY_COMPARATORS: Record<DuplicatePolicy, (a: MediaItem, b: MediaItem) => number> = {
+  oldest: () => 0,
+  largest: (a, b) => (b.size_bytes ?? 0) - (a.size_bytes ?? 0) || pixelCount(b) - pixelCount(a),
+  'best-metadata': (a, b) => metadataScore(b) - metadataScore(a),
+};
+
+/**
+ * Picks the item of a duplicate group that should be uploaded according to `policy`. Items that
+ * can be uploaded as they stand are preferred over abandoned or iCloud-only ones, which would
+ * otherwise keep every copy of the content from being uploaded.
+ */
+export function chooseKeeper(items: MediaItem[], policy: DuplicatePolicy): MediaItem {
+  if (items.length === 0) {
+    throw new Error('Cannot choose from an empty duplicate group');
+  }
+  const uploadable = items.filter((item) => isStatusTransitionAllowed(item.status, 'uploaded'));
+  const compare = POLICY_COMPARATORS[policy];
+  return [...(uploadable.length > 0 ? uploadable : items)].sort(
+    (a, b) => compare(a, b) || creationTime(a) - creationTime(b) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+  )[0];
+}
+
+/**
+ * Returns the item a group already settled on: the one other members point to, or else an uploaded one.
+ */
+export function findExistingKeeper(items: MediaItem[]): MediaItem | undefined {
+  // Checked before uploaded items so an override in favour of a second copy sticks
+  const keeperIds = new Set(items.map((item) => item.duplicate_of).filter((keeperId) => keeperId));
+  return (
+    items.find((item) => keeperIds.has(item.id) && !item.duplicate_of) ??
+    items.find((item) => item.status === 'uploaded')
+  );
+}
+
+/**
+ * Points every other item of the group that can still be skipped at the keeper. Uploaded and
+ * abandoned items are left as they are. Returns how many changed.
+ */
+export function applyKeeper(dbManager: DatabaseManager, items: MediaItem[], keeper: MediaItem): number {
+  let changed = 0;
+  for (const item of items) {
+    if (item.id === keeper.id || !isStatusTransitionAllowed(item.status, 'skipped') || item.duplicate_of === keeper.id) {
+      continue;
+    }
+    dbManager.markDuplicate(item.id, keeper.id);
+    changed++;
+  }
+  return changed;
+}
+
+/**
+ * Resolves groups of media items with identical content (same `sha256_hash`) so only one item
+ * per group is uploaded. The others are skipped with `duplicate_of` pointing at the keeper.
+ *
+ * A choice that was already made is kept: the item the rest of the group already points to stays
+ * the keeper, which is how a user's override survives later runs, and otherwise an uploaded item
+ * wins. New members of a group are added as duplicates of the existing keeper.
+ */
+export class DuplicateResolver {
+  private dbManager: DatabaseManager;
+  private policy: DuplicatePolicy;
+
+  constructor(dbManager: DatabaseManager, policy: DuplicatePolicy = DEFAULT_DUPLICATE_POLICY) {
+    this.dbManager = dbManager;
+    this.policy = policy;
+  }
+
+  /**
+   * Chooses a keeper for every duplicate group and skips the other items.
+   */
+  resolveAll(): ResolveResult {
+    const result: ResolveResult = { groups: 0, skipped: 0 };
+
+    for (const hash of this.dbManager.getDuplicateHashes()) {
+      const items = this.dbManager.getMediaItemsByHash(hash);
+      if (items.length < 2) {
+        continue;
+      }
+      const keeper = findExistingKeeper(items) ?? chooseKeeper(items, this.policy);
+      result.groups++;
+      result.skipped += applyKeeper(this.dbManager, items, keeper);
+    }
+
+    logger.info(`Resolved ${result.groups} duplicate groups (policy: ${this.policy}). Newly skipped: ${result.skipped}`);
+    return result;
+  }
+
+  /**
+   * Lists the duplicate groups as they currently stand in the database.
+   * Groups without a keeper yet show the one the policy would choose.
+   */
+  listGroups(): DuplicateGroup[] {
+    return this.dbManager.getDuplicateHashes().flatMap((hash) => {
+      const items = this.dbManager.getMediaItemsByHash(hash);
+      if (items.length < 2) {
+        return [];
+      }
+      const keeper = findExistingKeeper(items) ?? chooseKeeper(items, this.policy);
+      return [{ hash, keeper, duplicates: items.filter((item) => item.id !== keeper.id) }];
+    });
+  }
+
+  /**
+   * Makes `id` the item uploaded for its duplicate group, overriding the policy.
+   * The previous keeper and the rest of the group are skipped unless already uploaded.
+   */
+  override(id: string): DuplicateGroup {
+    const item = this.dbManager.getMediaById(id);
+    if (!item) {
+      throw new Error(`No media item with ID ${id}`);
+    }
+    if (!item.sha256_hash) {
+      throw new Error(`Media item ${id} has not been hashed yet. Run 'hash' first.`);
+    }
+    const items = this.dbManager.getMediaItemsByHash(item.sha256_hash);
+    if (items.length < 2) {
+      throw new Error(`Media item ${id} has no duplicates`);
+    }
+    const uploaded = items.find((member) => member.status === 'uploaded' && member.id !== id);
+    if (uploaded && item.status !== 'uploaded') {
+      logger.warn(`${uploaded.id} has the same content and is already uploaded; ${id} will be uploaded as well`);
+    }
+
+    if (item.duplicate_of) {
+      this.dbManager.clearDuplicate(id);
+    }
+    applyKeeper(this.dbManager, items, item);
+    logger.info(`Media item ${id} is now uploaded for duplicate group ${item.sha256_hash}`);
+    return { hash: item.sha256_hash, keeper: item, duplicates: items.filter((member) => member.id !== id) };
+  }
+}
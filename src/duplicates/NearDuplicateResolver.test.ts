@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NearDuplicateResolver, clusterByVisualHash, hammingDistance, parseNearDuplicatePolicy } from './NearDuplicateResolver';
+import { DatabaseManager, MediaItem } from '../utils/database';
+
+vi.mock('../utils/logger', () => {
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+  return { logger, createLogger: () => logger };
+});
+
+const item = (id: string, visualHash: string, override: Partial<MediaItem> = {}): MediaItem => ({
+  id,
+  media_type: 'photo',
+  mime_type: 'image/jpeg',
+  original_path: `/photos/${id}.jpg`,
+  original_name: `${id}.jpg`,
+  status: 'pending',
+  retry_count: 0,
+  visual_hash: visualHash,
+  ...override,
+});
+
+const ids = (clusters: MediaItem[][]) => clusters.map((cluster) => cluster.map((member) => member.id).sort()).sort();
+
+describe('hammingDistance', () => {
+  it('should count differing bits', () => {
+    expect(hammingDistance('phash:0000000000000000', 'phash:0000000000000000')).toBe(0);
+    expect(hammingDistance('phash:0000000000000000', 'phash:f000000000000001')).toBe(5);
+    expect(hammingDistance('phash:ffffffffffffffff', 'phash:0000000000000000')).toBe(64);
+  });
+
+  it('should never match hashes of different algorithms', () => {
+    expect(hammingDistance('phash:0000000000000000', 'dhash:0000000000000000')).toBe(Infinity);
+  });
+
+  it('should reject unknown policies', () => {
+    expect(parseNearDuplicatePolicy('skip')).toBe('skip');
+    expect(() => parseNearDuplicatePolicy('delete')).toThrow(/warn, skip/);
+  });
+});
+
+describe('clusterByVisualHash', () => {
+  it('should group hashes within the threshold, transitively', () => {
+    const items = [
+      item('a', 'phash:0000000000000000'),
+      item('b', 'phash:000000000000000f'), // 4 bits from a
+      item('c', 'phash:00000000000000ff'), // 4 bits from b, 8 from a
+      item('far', 'phash:ffffffff00000000'),
+      item('other-algorithm', 'dhash:0000000000000000'),
+    ];
+
+    expect(ids(clusterByVisualHash(items, 4))).toEqual([['a', 'b', 'c']]);
+    expect(ids(clusterByVisualHash(items, 3))).toEqual([]);
+  });
+
+  it('should not group pictures with different aspect ratios', () => {
+    const items = [
+      item('landscape', 'phash:0000000000000000', { pixel_size: '4000x3000' }),
+      item('portrait', 'phash:0000000000000001', { pixel_size: '1500x2000' }),
+      item('square-crop', 'phash:0000000000000000', { pixel_size: '3000x3000' }),
+      item('unknown', 'phash:0000000000000003'),
+    ];
+
+    expect(ids(clusterByVisualHash(items, 4))).toEqual([['landscape', 'portrait', 'square-crop', 'unknown']]);
+    expect(ids(clusterByVisualHash(items.slice(0, 3), 4))).toEqual([['landscape', 'portrait']]);
+  });
+
+  it('should find the same clusters as comparing every pair', () => {
+    let seed = 7;
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2 ** 31) / 2 ** 31;
+    const hex = () => Array.from({ length: 16 }, () => Math.floor(random() * 16).toString(16)).join('');
+    // Copies of a few originals with a couple of bits flipped
+    const originals = Array.from({ length: 20 }, hex);
+    const items = Array.from({ length: 200 }, (_, index) => {
+      const digits = originals[index % originals.length].split('');
+      const position = Math.floor(random() * 16);
+      digits[position] = (parseInt(digits[position], 16) ^ (1 << Math.floor(random() * 4))).toString(16);
+      return item(`item-${index}`, `phash:${digits.join('')}`);
+    });
+
+    const pairwise = new Map(items.map((member) => [member.id, new Set([member.id])]));
+    for (const a of items) {
+      for (const b of items) {
+        if (hammingDistance(a.visual_hash!, b.visual_hash!) <= 6) {
+          const merged = new Set([...pairwise.get(a.id)!, ...pairwise.get(b.id)!]);
+          merged.forEach((id) => pairwise.set(id, merged));
+        }
+      }
+    }
+    const expected = [...new Set(pairwise.values())].filter((cluster) => cluster.size > 1).map((cluster) => [...cluster].sort()).sort();
+
+    expect(ids(clusterByVisualHash(items, 6))).toEqual(expected);
+  });
+});
+
+describe('NearDuplicateResolver', () => {
+  let tmpDir: string;
+  let dbManager: DatabaseManager;
+
+  const add = (id: string, visualHash: string | undefined, override: Partial<MediaItem> = {}) =>
+    dbManager.addMediaItem({ ...item(id, visualHash!, override), visual_hash: visualHash });
+  const get = (id: string) => dbManager.getMediaById(id)!;
+
+  beforeEach(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'near-duplicates-'));
+    dbManager = new DatabaseManager(path.join(tmpDir, 'test.sqlite'));
+    await dbManager.initialize();
+
+    add('original', 'phash:00000000000000ff', { sha256_hash: 'hash-a', creation_date: '2019-06-01T00:00:00Z' });
+    add('reencoded', 'phash:00000000000000fe', { sha256_hash: 'hash-b', creation_date: '2021-06-01T00:00:00Z' });
+    add('unrelated', 'phash:ff00ff00ff00ff00', { sha256_hash: 'hash-c' });
+    add('unhashed', undefined);
+  });
+
+  afterEach(() => {
+    dbManager.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should only report clusters with the warn policy', () => {
+    const resolver = new NearDuplicateResolver(dbManager, { policy: 'warn' });
+
+    expect(resolver.resolveAll()).toEqual({ groups: 1, skipped: 0 });
+    expect(resolver.findClusters()).toEqual([
+      { keeper: expect.objectContaining({ id: 'original' }), duplicates: [expect.objectContaining({ id: 'reencoded' })] },
+    ]);
+    expect(get('reencoded').status).toBe('pending');
+  });
+
+  it('should skip all but one photo of each cluster with the skip policy', () => {
+    const result = new NearDuplicateResolver(dbManager, { policy: 'skip', duplicatePolicy: 'oldest' }).resolveAll();
+
+    expect(result).toEqual({ groups: 1, skipped: 1 });
+    expect(get('original')).toMatchObject({ status: 'pending', duplicate_of: null });
+    expect(get('reencoded')).toMatchObject({ status: 'skipped', duplicate_of: 'original' });
+    expect(get('unrelated').status).toBe('pending');
+  });
+
+  it('should leave an abandoned photo of a cluster alone', () => {
+    dbManager.updateMediaStatus('reencoded', 'abandoned');
+
+    expect(new NearDuplicateResolver(dbManager, { policy: 'skip', duplicatePolicy: 'oldest' }).resolveAll()).toEqual({ groups: 1, skipped: 0 });
+    expect(get('reencoded').status).toBe('abandoned');
+  });
+
+  it('should keep an earlier choice when new copies are added', () => {
+    const resolver = new NearDuplicateResolver(dbManager, { policy: 'skip', duplicatePolicy: 'oldest' });
+    resolver.resolveAll();
+    add('scan-1990', 'phash:00000000000000fc', { sha256_hash: 'hash-d', creation_date: '1990-01-01T00:00:00Z' });
+
+    expect(resolver.resolveAll()).toEqual({ groups: 1, skipped: 1 });
+    expect(get('original').status).toBe('pending');
+    expect(get('scan-1990')).toMatchObject({ status: 'skipped', duplicate_of: 'original' });
+  });
+
+  it('should leave clusters of exact duplicates to DuplicateResolver', () => {
+    add('copy', 'phash:ff00ff00ff00ff00', { sha256_hash: 'hash-c' });
+
+    expect(new NearDuplicateResolver(dbManager, { threshold: 0 }).findClusters()).toEqual([]);
+  });
+});
@@ -0,0 +1,208 @@
+import { DatabaseManager, MediaItem } from '../utils/database';
+import { createLogger } from '../utils/logger';
+import {
+  DEFAULT_DUPLICATE_POLICY,
+  DuplicatePolicy,
+  ResolveResult,
+  applyKeeper,
+  chooseKeeper,
+  findExistingKeeper,
+} from './DuplicateResolver';
+
+const logger = createLogger('NearDuplicateResolver');
+
+export const NEAR_DUPLICATE_POLICIES = ['warn', 'skip'] as const;
+
+/**
+ * What happens to photos that look the same but aren't byte-identical:
+ *   warn - report the clusters and upload every photo
+ *   skip - upload one photo per cluster, chosen like exact duplicates, and skip the rest
+ */
+export type NearDuplicatePolicy = (typeof NEAR_DUPLICATE_POLICIES)[number];
+
+export const DEFAULT_NEAR_DUPLICATE_POLICY: NearDuplicatePolicy = 'warn';
+// Differing bits out of 64 below which two photos are considered the same picture
+export const DEFAULT_NEAR_DUPLICATE_THRESHOLD = 8;
+// Relative difference in aspect ratio allowed within a cluster, so crops aren't taken for copies
+const ASPECT_RATIO_TOLERANCE = 0.02;
+
+export function parseNearDuplicatePolicy(value: string): NearDuplicatePolicy {
+  if (!(NEAR_DUPLICATE_POLICIES as readonly string[]).includes(value)) {
+    throw new Error(`Unknown near-duplicate policy "${value}" (expected one of: ${NEAR_DUPLICATE_POLICIES.join(', ')})`);
+  }
+  return value as NearDuplicatePolicy;
+}
+
+export interface NearDuplicateResolverOptions {
+  policy?: NearDuplicatePolicy;
+  threshold?: number; // Maximum Hamming distance between visual hashes of the same picture
+  duplicatePolicy?: DuplicatePolicy; // How the photo to upload is chosen in 'skip' mode
+}
+
+/**
+ * Photos that look alike and the one among them that gets uploaded (or would be, in 'skip' mode)
+ */
+export interface NearDuplicateCluster {
+  keeper: MediaItem;
+  duplicates: MediaItem[];
+}
+
+const NIBBLE_BITS = Array.from({ length: 16 }, (_, nibble) => (nibble & 1) + ((nibble >> 1) & 1) + ((nibble >> 2) & 1) + (nibble >> 3));
+
+/**
+ * Counts the bits that differ between two visual hashes. Hashes of different algorithms never match.
+ */
+export function hammingDistance(a: string, b: string): number {
+  const separatorA = a.indexOf(':');
+  const separatorB = b.indexOf(':');
+  if (a.slice(0, separatorA) !== b.slice(0, separatorB) || a.length - separatorA !== b.length - separatorB) {
+    return Infinity;
+  }
+  let distance = 0;
+  for (let i = 1; i < a.length - separatorA; i++) {
+    distance += NIBBLE_BITS[parseInt(a[separatorA + i], 16) ^ parseInt(b[separatorB + i], 16)];
+  }
+  return distance;
+}
+
+function aspectRatio(item: MediaItem): number | undefined {
+  const [width, height] = (item.pixel_size ?? '').split('x').map(Number);
+  // Orientation-independent, since not every source applies the EXIF rotation to the dimensions
+  return width > 0 && height > 0 ? Math.max(width, height) / Math.min(width, height) : undefined;
+}
+
+function similarShape(a: MediaItem, b: MediaItem): boolean {
+  const ratioA = aspectRatio(a);
+  const ratioB = aspectRatio(b);
+  return ratioA === undefined || ratioB === undefined || Math.abs(ratioA - ratioB) <= ASPECT_RATIO_TOLERANCE * Math.min(ratioA, ratioB);
+}
+
+interface BkNode {
+  index: number;
+  children: Map<number, BkNode>;
+}
+
+/**
+ * Groups items whose visual hashes are at most `threshold` bits apart and whose aspect ratios match.
+ * Clustering is transitive: A and C end up together if both are close to B. Neighbours are found with a
+ * BK-tree, so large libraries aren't compared pair by pair.
+ */
+export function clusterByVisualHash(items: MediaItem[], threshold: number): MediaItem[][] {
+  const parents = items.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parents[index] !== index) {
+      parents[index] = parents[parents[index]];
+      index = parents[index];
+    }
+    return index;
+  };
+
+  const roots = new Map<string, BkNode>(); // One tree per hash algorithm
+  items.forEach((item, index) => {
+    const algorithm = item.visual_hash!.slice(0, item.visual_hash!.indexOf(':'));
+    const root = roots.get(algorithm);
+    if (!root) {
+      roots.set(algorithm, { index, children: new Map() });
+      return;
+    }
+
+    // Union with every close item already in the tree, then insert
+    const pending = [root];
+    while (pending.length > 0) {
+      const node = pending.pop()!;
+      const distance = hammingDistance(item.visual_hash!, items[node.index].visual_hash!);
+      if (distance <= threshold && similarShape(item, items[node.index])) {
+        parents[find(index)] = find(node.index);
+      }
+      for (const [childDistance, child] of node.children) {
+        if (Math.abs(childDistance - distance) <= threshold) {
+          pending.push(child);
+        }
+      }
+    }
+
+    let node = root;
+    while (true) {
+      const distance = hammingDistance(item.visual_hash!, items[node.index].visual_hash!);
+      const child = node.children.get(distance);
+      if (!child) {
+        node.children.set(distance, { index, children: new Map() });
+        break;
+      }
+      node = child;
+    }
+  });
+
+  const clusters = new Map<number, MediaItem[]>();
+  items.forEach((item, index) => {
+    const root = find(index);
+    const cluster = clusters.get(root);
+    if (cluster) {
+      cluster.push(item);
+    } else {
+      clusters.set(root, [item]);
+    }
+  });
+  return [...clusters.values()].filter((cluster) => cluster.length > 1);
+}
+
+/**
+ * Finds photos that are visually the same picture (same `visual_hash` give or take a few bits) but
+ * not byte-identical, such as re-encoded or resized copies. Depending on the policy they are only
+ * reported or resolved like exact duplicates, keeping any choice that was already made.
+ */
+export class NearDuplicateResolver {
+  private dbManager: DatabaseManager;
+  private policy: NearDuplicatePolicy;
+  private threshold: number;
+  private duplicatePolicy: DuplicatePolicy;
+
+  constructor(dbManager: DatabaseManager, options: NearDuplicateResolverOptions = {}) {
+    this.dbManager = dbManager;
+    this.policy = options.policy ?? DEFAULT_NEAR_DUPLICATE_POLICY;
+    this.threshold = options.threshold ?? DEFAULT_NEAR_DUPLICATE_THRESHOLD;
+    this.duplicatePolicy = options.duplicatePolicy ?? DEFAULT_DUPLICATE_POLICY;
+  }
+
+  /**
+   * Lists the clusters of visually identical photos. Clusters made only of exact duplicates are left out,
+   * since those are handled by DuplicateResolver.
+   */
+  findClusters(): NearDuplicateCluster[] {
+    return clusterByVisualHash(this.dbManager.getVisuallyHashedMedia(), this.threshold).flatMap((items) => {
+      const contents = new Set(items.map((item) => item.sha256_hash ?? item.id));
+      if (contents.size < 2) {
+        return [];
+      }
+      const keeper = findExistingKeeper(items) ?? chooseKeeper(items, this.duplicatePolicy);
+      return [{ keeper, duplicates: items.filter((item) => item.id !== keeper.id) }];
+    });
+  }
+
+  /**
+   * Warns about every cluster, and in 'skip' mode skips all but one photo of each.
+   */
+  resolveAll(): ResolveResult {
+    const clusters = this.findClusters();
+    const result: ResolveResult = { groups: clusters.length, skipped: 0 };
+
+    if (this.policy === 'warn') {
+      for (const cluster of clusters) {
+        logger.warn(
+          `Possible duplicates of ${cluster.keeper.id} (${cluster.keeper.original_name}): ` +
+            cluster.duplicates.map((item) => `${item.id} (${item.original_name})`).join(', ')
+        );
+      }
+      if (clusters.length > 0) {
+        logger.warn(`Found ${clusters.length} clusters of visually identical photos; all of them will be uploaded`);
+      }
+      return result;
+    }
+
+    for (const cluster of clusters) {
+      result.skipped += applyKeeper(this.dbManager, [cluster.keeper, ...cluster.duplicates], cluster.keeper);
+    }
+    logger.info(`Resolved ${result.groups} near-duplicate clusters (threshold: ${this.threshold}). Newly skipped: ${result.skipped}`);
+    return result;
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FilesystemExporter, stagedFileName } from './FilesystemExporter';
+import { MediaItem } from '../utils/database';
+
+vi.mock('../utils/logger', () => {
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+  return { logger, createLogger: () => logger };
+});
+
+describe('FilesystemExporter', () => {
+  let tmpDir: string;
+  let stagingDir: string;
+
+  const item = (id: string, originalPath: string, override: Partial<MediaItem> = {}): MediaItem => ({
+    id,
+    media_type: 'photo',
+    mime_type: 'image/jpeg',
+    original_path: originalPath,
+    original_name: path.basename(originalPath),
+    status: 'pending',
+    retry_count: 0,
+    ...override,
+  });
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'filesystem-exporter-'));
+    stagingDir = path.join(tmpDir, 'staging', 'batch-1');
+    fs.writeFileSync(path.join(tmpDir, 'IMG_0001.JPG'), 'photo');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should name staged copies after the item id and keep the extension', () => {
+    expect(stagedFileName(item('A1B2/L0/001', 'urn:apple:photos:library:asset:A1B2/L0/001', { original_name: 'IMG_0001.HEIC' }))).toBe(
+      'A1B2_L0_001.HEIC'
+    );
+    expect(stagedFileName(item('fs:abc', '/photos/clip.mov', { original_name: '' }))).toBe('fs_abc.mov');
+  });
+
+  it('should hardlink originals into the staging folder', async () => {
+    const source = path.join(tmpDir, 'IMG_0001.JPG');
+
+    const result = await new FilesystemExporter().exportItems([item('a', source)], stagingDir);
+
+    const staged = path.join(stagingDir, 'a.JPG');
+    expect(result.exported).toEqual(new Map([['a', staged]]));
+    expect(result.failed.size).toBe(0);
+    expect(fs.statSync(staged).ino).toBe(fs.statSync(source).ino);
+  });
+
+  it('should copy when a hardlink is not possible', async () => {
+    vi.spyOn(fs.promises, 'link').mockRejectedValueOnce(Object.assign(new Error('cross-device link not permitted'), { code: 'EXDEV' }));
+    const source = path.join(tmpDir, 'IMG_0001.JPG');
+
+    const result = await new FilesystemExporter().exportItems([item('a', source)], stagingDir);
+
+    const staged = result.exported.get('a')!;
+    expect(fs.readFileSync(staged, 'utf8')).toBe('photo');
+    expect(fs.statSync(staged).ino).not.toBe(fs.statSync(source).ino);
+  });
+
+  it('should report items it cannot stage', async () => {
+    const result = await new FilesystemExporter().exportItems(
+      [item('photos-only', 'urn:apple:photos:library:asset:X'), item('gone', path.join(tmpDir, 'gone.jpg'))],
+      stagingDir
+    );
+
+    expect(result.exported.size).toBe(0);
+    expect(result.failed.get('photos-only')).toBe('Original is only available through Apple Photos');
+    expect(result.failed.get('gone')).toMatch(/Could not stage .*gone\.jpg: ENOENT/);
+  });
+});
@@ -0,0 +1,69 @@
+import fs from 'fs';
+import path from 'path';
+import { MediaItem } from '../utils/database';
+import { createLogger } from '../utils/logger';
+import { Exporter, ExportResult } from './types';
+
+const logger = createLogger('FilesystemExporter');
+
+// Errors from fs.link that mean a hardlink isn't possible here (another volume, or a filesystem
+// without hardlinks), so the file is copied instead
+const LINK_UNSUPPORTED_CODES = new Set(['EXDEV', 'EPERM', 'ENOTSUP', 'EMLINK']);
+
+/**
+ * Name of an item's copy in the staging folder: its id made safe for a file name, keeping the
+ * extension of the original. Ids are unique, so copies never collide within a batch.
+ */
+export function stagedFileName(item: MediaItem): string {
+  const extension = path.extname(item.original_name || item.original_path);
+  return `${item.id.replace(/[^A-Za-z0-9._-]/g, '_')}${extension}`;
+}
+
+/**
+ * Hardlinks `source` to `target`, copying it when the two are on different volumes.
+ */
+async function linkOrCopy(source: string, target: string): Promise<void> {
+  // Left over from an interrupted export
+  await fs.promises.rm(target, { force: true });
+  try {
+    await fs.promises.link(source, target);
+  } catch (error: any) {
+    if (!LINK_UNSUPPORTED_CODES.has(error.code)) {
+      throw error;
+    }
+    logger.debug(`Cannot hardlink ${source} (${error.code}), copying it instead`);
+    await fs.promises.copyFile(source, target);
+  }
+}
+
+/**
+ * Stages items whose originals are readable files (filesystem scans, Photos.sqlite reads) by
+ * hardlinking them into the staging folder, which costs no space on the same volume, or copying
+ * them otherwise. Works on every platform. Apple Photos assets that only have a urn placeholder
+ * can't be staged this way and are reported as failed.
+ */
+export class FilesystemExporter implements Exporter {
+  async exportItems(items: MediaItem[], destinationDir: string): Promise<ExportResult> {
+    const result: ExportResult = { exported: new Map(), failed: new Map() };
+    if (items.length === 0) {
+      return result;
+    }
+    await fs.promises.mkdir(destinationDir, { recursive: true });
+
+    for (const item of items) {
+      const source = item.original_path;
+      if (!source || source.startsWith('urn:')) {
+        result.failed.set(item.id, 'Original is only available through Apple Photos');
+        continue;
+      }
+      const target = path.join(destinationDir, stagedFileName(item));
+      try {
+        await linkOrCopy(source, target);
+        result.exported.set(item.id, target);
+      } catch (error: any) {
+        result.failed.set(item.id, `Could not stage ${source}: ${error.message}`);
+      }
+    }
+    return result;
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PhotosExporter } from './PhotosExporter';
+import { MediaItem } from '../utils/database';
+
+vi.mock('../utils/logger', () => {
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+  return { logger, createLogger: () => logger };
+});
+
+// Stand-in for the Swift helper, which has the same export mode
+const FAKE_SCANNER = path.join(process.cwd(), 'scripts', 'fake-media-scanner.mjs');
+
+const item = (id: string): MediaItem => ({
+  id,
+  media_type: 'photo',
+  mime_type: 'public.heic',
+  original_path: `urn:apple:photos:library:asset:${id}`,
+  original_name: 'IMG_0001.HEIC',
+  status: 'pending',
+  retry_count: 0,
+});
+
+describe('PhotosExporter', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'photos-exporter-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should collect the files the helper exported and the assets it could not', async () => {
+    const stagingDir = path.join(tmpDir, 'batch-1');
+
+    const result = await new PhotosExporter(process.execPath, [FAKE_SCANNER]).exportItems([item('A/L0/001'), item('missing/L0/001')], stagingDir);
+
+    expect(result.exported).toEqual(new Map([['A/L0/001', path.join(stagingDir, 'A_L0_001.HEIC')]]));
+    expect(result.failed).toEqual(new Map([['missing/L0/001', 'Asset not found in the Photos library']]));
+    expect(fs.readFileSync(result.exported.get('A/L0/001')!, 'utf8')).toBe('exported A/L0/001');
+  });
+
+  it('should keep what was exported when the helper fails', async () => {
+    const result = await new PhotosExporter(process.execPath, [FAKE_SCANNER, '--exit-code', '2']).exportItems([item('A/L0/001')], tmpDir);
+
+    expect(result.exported.has('A/L0/001')).toBe(true);
+
+    const unstarted = await new PhotosExporter(path.join(tmpDir, 'does-not-exist')).exportItems([item('B/L0/001')], tmpDir);
+    expect(unstarted.failed.get('B/L0/001')).toMatch(/^Photos export failed: .*ENOENT/);
+  });
+});
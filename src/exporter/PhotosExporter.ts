@@ -0,0 +1,62 @@
+import fs from 'fs';
+import { MediaItem } from '../utils/database';
+import { createLogger } from '../utils/logger';
+import { readScannerMessages } from '../media-scanner/ScannerBridge';
+import { Exporter, ExportResult } from './types';
+
+const logger = createLogger('PhotosExporter');
+
+/**
+ * Stages Apple Photos assets through the Swift helper's export mode, which writes each asset's
+ * original resource into the staging folder (downloading it from iCloud if needed). macOS only.
+ */
+export class PhotosExporter implements Exporter {
+  private command: string;
+  private commandArgs: string[];
+
+  /**
+   * @param command The MediaScannerMac executable
+   * @param commandArgs Arguments placed before the export arguments (for running a stand-in in tests)
+   */
+  constructor(command: string, commandArgs: string[] = []) {
+    this.command = command;
+    this.commandArgs = commandArgs;
+  }
+
+  async exportItems(items: MediaItem[], destinationDir: string): Promise<ExportResult> {
+    const result: ExportResult = { exported: new Map(), failed: new Map() };
+    if (items.length === 0) {
+      return result;
+    }
+    await fs.promises.mkdir(destinationDir, { recursive: true });
+
+    const args = [...this.commandArgs, '--export', destinationDir, ...items.map((item) => item.id)];
+    let helperError: string | undefined;
+    try {
+      for await (const message of readScannerMessages(this.command, args)) {
+        switch (message.type) {
+          case 'exported':
+            result.exported.set(message.localIdentifier, message.path);
+            break;
+          case 'exportFailed':
+            result.failed.set(message.localIdentifier, message.error);
+            break;
+          case 'log':
+            logger[message.level](`[Swift]: ${message.message}`);
+            break;
+        }
+      }
+    } catch (error: any) {
+      // Whatever was exported before the helper failed is kept
+      logger.error(`Photos export failed: ${error.message}`);
+      helperError = error.message;
+    }
+
+    for (const item of items) {
+      if (!result.exported.has(item.id) && !result.failed.has(item.id)) {
+        result.failed.set(item.id, helperError ? `Photos export failed: ${helperError}` : 'Not exported by the Photos helper');
+      }
+    }
+    return result;
+  }
+}
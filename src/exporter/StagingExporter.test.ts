@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StagingExporter } from './StagingExporter';
+import { Exporter } from './types';
+import { DatabaseManager, MediaItem } from '../utils/database';
+
+vi.mock('../utils/logger', () => {
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+  return { logger, createLogger: () => logger };
+});
+
+// Exports Apple Photos assets by writing a placeholder file, failing ids that contain "broken"
+const fakePhotosExporter = (): Exporter & { exportItems: ReturnType<typeof vi.fn> } => ({
+  exportItems: vi.fn(async (items: MediaItem[], destinationDir: string) => {
+    fs.mkdirSync(destinationDir, { recursive: true });
+    const result = { exported: new Map<string, string>(), failed: new Map<string, string>() };
+    for (const item of items) {
+      if (item.id.includes('broken')) {
+        result.failed.set(item.id, 'Could not download from iCloud');
+        continue;
+      }
+      const filePath = path.join(destinationDir, `${item.id}.HEIC`);
+      fs.writeFileSync(filePath, item.id);
+      result.exported.set(item.id, filePath);
+    }
+    return result;
+  }),
+});
+
+describe('StagingExporter', () => {
+  let tmpDir: string;
+  let stagingDir: string;
+  let dbManager: DatabaseManager;
+
+  const add = (id: string, originalPath = `urn:apple:photos:library:asset:${id}`) =>
+    dbManager.addMediaItem({
+      id,
+      media_type: 'photo',
+      mime_type: 'image/heic',
+      original_path: originalPath,
+      original_name: `${id}.HEIC`,
+      status: 'pending',
+    });
+  const get = (id: string) => dbManager.getMediaById(id)!;
+  const addBatch = (batchId: string, ids: string[]) => {
+    ids.forEach((id) => add(id));
+    dbManager.addBatch({ id: batchId, status: 'uploading', total_size: 0, files_count: ids.length }, ids);
+    return ids.map(get);
+  };
+
+  beforeEach(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'staging-exporter-'));
+    stagingDir = path.join(tmpDir, 'staging');
+    dbManager = new DatabaseManager(path.join(tmpDir, 'test.sqlite'));
+    await dbManager.initialize();
+  });
+
+  afterEach(() => {
+    dbManager.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should stage a batch and move its items to exported', async () => {
+    const original = path.join(tmpDir, 'scanned.jpg');
+    fs.writeFileSync(original, 'scanned');
+    add('scanned', original);
+    const items = [get('scanned'), ...addBatch('batch-1', ['photo', 'broken'])];
+    const exporter = new StagingExporter(dbManager, { stagingDir, photosExporter: fakePhotosExporter() });
+
+    const result = await exporter.exportBatch('batch-1', items);
+
+    expect(result.failed).toBe(1);
+    expect(result.exported.map((item) => item.id)).toEqual(['scanned', 'photo']);
+    expect(get('scanned')).toMatchObject({ status: 'exported', local_copy_path: path.join(stagingDir, 'batch-1', 'scanned.HEIC') });
+    expect(get('photo')).toMatchObject({ status: 'exported', local_copy_path: path.join(stagingDir, 'batch-1', 'photo.HEIC') });
+    expect(get('broken')).toMatchObject({ status: 'failed', error_message: 'Export failed: Could not download from iCloud', retry_count: 1 });
+  });
+
+  it('should fail Apple Photos assets when the Swift helper is not available', async () => {
+    const items = addBatch('batch-1', ['photo']);
+
+    const result = await new StagingExporter(dbManager, { stagingDir, photosExporter: null }).exportBatch('batch-1', items);
+
+    expect(result).toEqual({ exported: [], failed: 1 });
+    expect(get('photo').error_message).toMatch(/needs the MediaScannerMac helper/);
+  });
+
+  it('should not export items again that an interrupted run already staged', async () => {
+    const photosExporter = fakePhotosExporter();
+    const exporter = new StagingExporter(dbManager, { stagingDir, photosExporter });
+    await exporter.exportBatch('batch-1', addBatch('batch-1', ['photo']));
+
+    const resumed = await exporter.exportBatch('batch-1', [get('photo')]);
+
+    expect(resumed.exported.map((item) => item.id)).toEqual(['photo']);
+    expect(photosExporter.exportItems).toHaveBeenLastCalledWith([], path.join(stagingDir, 'batch-1'));
+  });
+
+  it('should remove the staging folder and requeue items that were not uploaded', async () => {
+    const exporter = new StagingExporter(dbManager, { stagingDir, photosExporter: fakePhotosExporter() });
+    await exporter.exportBatch('batch-1', addBatch('batch-1', ['uploaded', 'interrupted']));
+    dbManager.updateMediaStatus('uploaded', 'uploaded');
+
+    exporter.cleanupBatch('batch-1');
+
+    expect(fs.existsSync(exporter.getBatchDir('batch-1'))).toBe(false);
+    expect(get('uploaded')).toMatchObject({ status: 'uploaded', local_copy_path: null });
+    expect(get('interrupted')).toMatchObject({ status: 'pending', local_copy_path: null });
+  });
+});
@@ -0,0 +1,139 @@
+import fs from 'fs';
+import path from 'path';
+import { DatabaseManager, MediaItem } from '../utils/database';
+import { createLogger } from '../utils/logger';
+import { DEFAULT_STAGING_DIR } from '../batch-planner/BatchPlanner';
+import { swiftExecutablePath } from '../media-scanner/MediaScanner';
+import { RetryPolicy } from '../retry-policy/RetryPolicy';
+import { FilesystemExporter } from './FilesystemExporter';
+import { PhotosExporter } from './PhotosExporter';
+import { Exporter, ExportResult } from './types';
+
+const logger = createLogger('StagingExporter');
+
+export interface StagingExporterOptions {
+  stagingDir?: string; // Each batch is staged in its own subfolder
+  filesystemExporter?: Exporter; // For tests
+  photosExporter?: Exporter | null; // For tests; defaults to the Swift helper on macOS when it is built
+  retryPolicy?: RetryPolicy; // Schedules items that could not be exported for another attempt
+}
+
+/**
+ * Items of a batch that are staged and ready to upload, and how many could not be exported
+ */
+export interface BatchExportResult {
+  exported: MediaItem[];
+  failed: number;
+}
+
+function isPhotosOnly(item: MediaItem): boolean {
+  return !item.original_path || item.original_path.startsWith('urn:');
+}
+
+function createDefaultPhotosExporter(): Exporter | null {
+  if (process.platform !== 'darwin' || !fs.existsSync(swiftExecutablePath)) {
+    return null;
+  }
+  return new PhotosExporter(swiftExecutablePath);
+}
+
+/**
+ * Export stage between batch planning and upload: copies the originals of a planned batch into
+ * `<stagingDir>/<batchId>/`, records each copy as the item's local_copy_path and moves the item to
+ * 'exported'. Apple Photos assets go through the Swift helper; everything else is hardlinked or
+ * copied. Items that can't be exported are marked failed and retried according to the RetryPolicy.
+ *
+ * Once the batch is committed, cleanupBatch deletes the folder. Exported items that did not get
+ * uploaded go back to 'pending' so a later batch exports them again.
+ */
+export class StagingExporter {
+  private dbManager: DatabaseManager;
+  private stagingDir: string;
+  private filesystemExporter: Exporter;
+  private photosExporter: Exporter | null;
+  private retryPolicy: RetryPolicy;
+
+  constructor(dbManager: DatabaseManager, options: StagingExporterOptions = {}) {
+    this.dbManager = dbManager;
+    this.stagingDir = options.stagingDir ?? DEFAULT_STAGING_DIR;
+    this.filesystemExporter = options.filesystemExporter ?? new FilesystemExporter();
+    this.photosExporter = options.photosExporter !== undefined ? options.photosExporter : createDefaultPhotosExporter();
+    this.retryPolicy = options.retryPolicy ?? new RetryPolicy();
+  }
+
+  /**
+   * Folder the items of a batch are staged in
+   */
+  getBatchDir(batchId: string): string {
+    return path.join(this.stagingDir, batchId);
+  }
+
+  /**
+   * Exports the items of a batch and returns the ones that are ready to upload. Items staged by an
+   * earlier, interrupted run are not exported again.
+   */
+  async exportBatch(batchId: string, items: MediaItem[]): Promise<BatchExportResult> {
+    const batchDir = this.getBatchDir(batchId);
+    const staged = items.filter((item) => item.status === 'exported' && item.local_copy_path && fs.existsSync(item.local_copy_path));
+    const toExport = items.filter((item) => !staged.includes(item));
+
+    const fromPhotos = toExport.filter(isPhotosOnly);
+    const results = [await this.filesystemExporter.exportItems(toExport.filter((item) => !isPhotosOnly(item)), batchDir)];
+    if (this.photosExporter) {
+      results.push(await this.photosExporter.exportItems(fromPhotos, batchDir));
+    } else if (fromPhotos.length > 0) {
+      const reason = 'Original is only available through Apple Photos, which needs the MediaScannerMac helper on macOS';
+      results.push({ exported: new Map(), failed: new Map(fromPhotos.map((item) => [item.id, reason])) });
+    }
+
+    const exported = [...staged];
+    let failed = 0;
+    for (const result of results) {
+      exported.push(...this.recordExported(result));
+      failed += this.recordFailed(result);
+    }
+
+    logger.info(`Staged ${exported.length} of ${items.length} items of batch ${batchId} in ${batchDir}${failed > 0 ? ` (${failed} failed)` : ''}`);
+    return { exported, failed };
+  }
+
+  /**
+   * Deletes the staging folder of a committed batch and forgets the copies it held.
+   */
+  cleanupBatch(batchId: string): void {
+    const batchDir = this.getBatchDir(batchId);
+    for (const item of this.dbManager.getBatchMedia(batchId)) {
+      if (!item.local_copy_path?.startsWith(batchDir + path.sep)) {
+        continue;
+      }
+      this.dbManager.updateLocalCopyPath(item.id, null);
+      if (item.status === 'exported') {
+        // Never uploaded, so it is planned and exported again later
+        this.dbManager.updateMediaStatus(item.id, 'pending', undefined, 'Staged copy removed before upload');
+      }
+    }
+    fs.rmSync(batchDir, { recursive: true, force: true });
+    logger.debug(`Removed staging folder ${batchDir}`);
+  }
+
+  private recordExported(result: ExportResult): MediaItem[] {
+    const exported: MediaItem[] = [];
+    for (const [id, localCopyPath] of result.exported) {
+      this.dbManager.updateLocalCopyPath(id, localCopyPath);
+      this.dbManager.updateMediaStatus(id, 'exported');
+      const item = this.dbManager.getMediaById(id);
+      if (item) {
+        exported.push(item);
+      }
+    }
+    return exported;
+  }
+
+  private recordFailed(result: ExportResult): number {
+    for (const [id, reason] of result.failed) {
+      logger.error(`Failed to export item ${id}: ${reason}`);
+      this.retryPolicy.recordFailure(this.dbManager, id, `Export failed: ${reason}`);
+    }
+    return result.failed.size;
+  }
+}
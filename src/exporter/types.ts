@@ -0,0 +1,16 @@
+import { MediaItem } from '../utils/database';
+
+/**
+ * Outcome of exporting a group of media items, keyed by media item id
+ */
+export interface ExportResult {
+  exported: Map<string, string>; // Path of the staged copy
+  failed: Map<string, string>; // Why the item could not be exported
+}
+
+/**
+ * Copies the originals of media items into a folder, from where they are uploaded.
+ */
+export interface Exporter {
+  exportItems(items: MediaItem[], destinationDir: string): Promise<ExportResult>;
+}
@@ -1,62 +1,488 @@
 import { createLogger } from './utils/logger';
 import { DatabaseManager } from './utils/database';
 import { MediaScanner } from './media-scanner/MediaScanner';
-import { applyMigrations } from './utils/migrations';
-// TODO: Import AuthManager, Uploader etc. as they are implemented
+import { ContentHasher, formatThroughput } from './media-scanner/ContentHasher';
+import { spawn } from 'child_process';
+import crypto from 'crypto';
+import { parseArgs } from 'util';
+import { AuthManager, DEFAULT_PROFILE } from './auth/AuthManager';
+import { LoopbackServer } from './auth/LoopbackServer';
+import { Uploader, UploaderOptions } from './uploader/Uploader';
+import { BandwidthThrottle, parseThrottleSchedule } from './uploader/BandwidthThrottle';
+import { DEFAULT_DUPLICATE_POLICY, DuplicateGroup, DuplicateResolver, parseDuplicatePolicy } from './duplicates/DuplicateResolver';
+import {
+  DEFAULT_NEAR_DUPLICATE_POLICY,
+  DEFAULT_NEAR_DUPLICATE_THRESHOLD,
+  NearDuplicateCluster,
+  NearDuplicateResolver,
+  hammingDistance,
+  parseNearDuplicatePolicy,
+} from './duplicates/NearDuplicateResolver';
+import { BatchPlanner, BatchPlannerOptions, DEFAULT_STAGING_DIR } from './batch-planner/BatchPlanner';
+import { DiskMonitor } from './disk-monitor/DiskMonitor';
+import { NetworkMonitor } from './network-monitor/NetworkMonitor';
+import { StagingExporter } from './exporter/StagingExporter';
+import { DEFAULT_MAX_RETRIES, RetryPolicy } from './retry-policy/RetryPolicy';
+import { MigrationRunner } from './migrations/MigrationRunner';
+import { UPLOAD_ERROR_CODES, parseUploadErrorCode } from './uploader/UploadError';
+import { DEFAULT_VISUAL_HASH_ALGORITHM, VisualHasher, parseVisualHashAlgorithm } from './media-scanner/VisualHasher';
 
 const logger = createLogger('main');
 
+// Exit codes reported to calling scripts
+const EXIT_SUCCESS = 0;
+const EXIT_ERROR = 1;
+const EXIT_PARTIAL_FAILURE = 2;
+const EXIT_AUTH_FAILURE = 3;
+
+/**
+ * Parses an optional flag value that must be a positive integer.
+ */
+function parsePositiveInt(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`--${name} must be a positive integer (got "${value}")`);
+  }
+  return parsed;
+}
+
+/**
+ * Parses the command and the flags shared by all commands.
+ */
+function parseCommandLine() {
+  try {
+    const { values, positionals } = parseArgs({
+      args: process.argv.slice(2),
+      options: {
+        profile: { type: 'string', default: DEFAULT_PROFILE },
+        'photo-concurrency': { type: 'string' },
+        'video-concurrency': { type: 'string' },
+        'max-inflight-mb': { type: 'string' },
+        'max-mbps': { type: 'string' },
+        'throttle-schedule': { type: 'string' },
+        root: { type: 'string', multiple: true },
+        library: { type: 'string' },
+        hash: { type: 'boolean', default: false },
+        'hash-concurrency': { type: 'string' },
+        'duplicate-policy': { type: 'string', default: DEFAULT_DUPLICATE_POLICY },
+        keep: { type: 'string' },
+        visual: { type: 'boolean', default: false },
+        'visual-algorithm': { type: 'string', default: DEFAULT_VISUAL_HASH_ALGORITHM },
+        'near-duplicate-policy': { type: 'string', default: DEFAULT_NEAR_DUPLICATE_POLICY },
+        'near-threshold': { type: 'string' },
+        'max-disk-gb': { type: 'string' },
+        'separate-media-types': { type: 'boolean', default: false },
+        'max-retries': { type: 'string' },
+        error: { type: 'string' },
+        code: { type: 'string' },
+        to: { type: 'string' },
+        'dry-run': { type: 'boolean', default: false },
+      },
+      allowPositionals: true,
+    });
+    const maxInFlightMb = parsePositiveInt('max-inflight-mb', values['max-inflight-mb'] as string | undefined);
+    const maxMbps = values['max-mbps'] as string | undefined;
+    const schedule = values['throttle-schedule'] as string | undefined;
+    const throttle =
+      maxMbps !== undefined || schedule !== undefined
+        ? new BandwidthThrottle({
+            limitMbps: maxMbps !== undefined ? Number(maxMbps) : null,
+            schedule: schedule !== undefined ? parseThrottleSchedule(schedule) : [],
+          })
+        : undefined;
+    const uploaderOptions: UploaderOptions = {
+      photoConcurrency: parsePositiveInt('photo-concurrency', values['photo-concurrency'] as string | undefined),
+      videoConcurrency: parsePositiveInt('video-concurrency', values['video-concurrency'] as string | undefined),
+      maxInFlightBytes: maxInFlightMb !== undefined ? maxInFlightMb * 1024 * 1024 : undefined,
+      throttle,
+    };
+    const errorCode = values.code as string | undefined;
+    const maxDiskGb = parsePositiveInt('max-disk-gb', values['max-disk-gb'] as string | undefined);
+    const batchOptions: Omit<BatchPlannerOptions, 'profile'> = {
+      maxDiskUsageBytes: maxDiskGb !== undefined ? maxDiskGb * 1024 * 1024 * 1024 : undefined,
+      separateMediaTypes: values['separate-media-types'] as boolean,
+    };
+    return {
+      command: positionals[0] || 'help',
+      subcommand: positionals[1] as string | undefined,
+      profile: values.profile as string,
+      uploaderOptions,
+      scanRoots: (values.root as string[] | undefined) ?? [],
+      photosLibrary: values.library as string | undefined,
+      hashAfterScan: values.hash as boolean,
+      hashConcurrency: parsePositiveInt('hash-concurrency', values['hash-concurrency'] as string | undefined),
+      duplicatePolicy: parseDuplicatePolicy(values['duplicate-policy'] as string),
+      keepId: values.keep as string | undefined,
+      visualHash: values.visual as boolean,
+      visualAlgorithm: parseVisualHashAlgorithm(values['visual-algorithm'] as string),
+      nearDuplicatePolicy: parseNearDuplicatePolicy(values['near-duplicate-policy'] as string),
+      nearThreshold: parsePositiveInt('near-threshold', values['near-threshold'] as string | undefined),
+      batchOptions,
+      maxRetries: parsePositiveInt('max-retries', values['max-retries'] as string | undefined),
+      errorMatch: values.error as string | undefined,
+      errorCode: errorCode !== undefined ? parseUploadErrorCode(errorCode) : undefined,
+      migrateTo: values.to as string | undefined,
+      dryRun: values['dry-run'] as boolean,
+    };
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(EXIT_ERROR);
+  }
+}
+
 // Parse command line arguments
-const args = process.argv.slice(2);
-const command = args[0] || 'help';
+const {
+  command,
+  subcommand,
+  profile,
+  uploaderOptions,
+  scanRoots,
+  photosLibrary,
+  hashAfterScan,
+  hashConcurrency,
+  duplicatePolicy,
+  keepId,
+  visualHash,
+  visualAlgorithm,
+  nearDuplicatePolicy,
+  nearThreshold,
+  batchOptions,
+  maxRetries,
+  errorMatch,
+  errorCode,
+  migrateTo,
+  dryRun,
+} = parseCommandLine();
+
+// Matches the batchCreate limit so each batch is committed with a single call
+const UPLOAD_BATCH_SIZE = 50;
+// Most recent quarantined scanner records shown by 'status'
+const QUARANTINE_SAMPLE_SIZE = 5;
 
 // Initialize shared components
 // Consider dependency injection later for better testability
 const dbManager = new DatabaseManager();
-const mediaScanner = new MediaScanner(dbManager);
-// const authManager = new AuthManager(); // Placeholder
-// const uploader = new Uploader(dbManager, authManager); // Placeholder
+const mediaScanner = new MediaScanner(dbManager, { roots: scanRoots, photosLibrary });
+const migrationRunner = new MigrationRunner(dbManager);
+
+/**
+ * Tries to open a URL in the user's default browser. Failures are ignored because
+ * the URL is always printed as well.
+ */
+function openInBrowser(url: string): void {
+  // On Windows `cmd /c start` would split the URL at each `&`, so rundll32 opens it instead
+  const opener =
+    process.platform === 'darwin'
+      ? { cmd: 'open', args: [url] }
+      : process.platform === 'win32'
+        ? { cmd: 'rundll32', args: ['url.dll,FileProtocolHandler', url] }
+        : { cmd: 'xdg-open', args: [url] };
+
+  try {
+    const child = spawn(opener.cmd, opener.args, { stdio: 'ignore', detached: true });
+    child.on('error', () => logger.debug(`Could not launch browser with ${opener.cmd}`));
+    child.unref();
+  } catch {
+    logger.debug(`Could not launch browser with ${opener.cmd}`);
+  }
+}
+
+/**
+ * Runs the interactive OAuth login: a temporary loopback listener receives the redirect,
+ * and the code is exchanged using PKCE. Returns the exit code.
+ */
+async function runLogin(): Promise<number> {
+  const authManager = new AuthManager({ profile });
+  const loopback = new LoopbackServer();
+  const state = crypto.randomBytes(16).toString('hex');
+
+  try {
+    const redirectUri = await loopback.start(state);
+    const { codeVerifier, codeChallenge } = await authManager.createPkcePair();
+    const authUrl = await authManager.getAuthUrl({ redirectUri, codeChallenge, state });
+
+    console.log('\nOpen the following URL in your browser to authorize Photo Migrator:\n');
+    console.log(`  ${authUrl}\n`);
+    openInBrowser(authUrl);
+
+    const code = await loopback.waitForCode();
+    await authManager.handleAuthCode(code, { redirectUri, codeVerifier });
+    console.log(`Login successful (profile: ${profile}).`);
+    return EXIT_SUCCESS;
+  } catch (error) {
+    logger.error('Login failed:', error);
+    return EXIT_AUTH_FAILURE;
+  } finally {
+    await loopback.close();
+  }
+}
+
+/**
+ * Computes the content hash of every local file that doesn't have one yet, and with --visual the
+ * visual hash of every photo, and prints a summary. Returns the exit code describing how the run went.
+ */
+async function runHash(): Promise<number> {
+  const hasher = new ContentHasher(dbManager, { concurrency: hashConcurrency });
+  const summary = await hasher.hashPending();
+
+  console.log('\n--- Hash Summary ---');
+  console.log(`Hashed: ${summary.hashed}`);
+  console.log(`Missing: ${summary.missing}`);
+  console.log(`Failed: ${summary.failed}`);
+  console.log(`Throughput: ${formatThroughput(summary.hashed, summary.bytes, summary.elapsedMs)}`);
+
+  let failed = summary.failed;
+  if (visualHash) {
+    const visualHasher = new VisualHasher(dbManager, { algorithm: visualAlgorithm, concurrency: hashConcurrency });
+    const visualSummary = await visualHasher.hashPending();
+    failed += visualSummary.failed;
+
+    console.log(`Visually Hashed: ${visualSummary.hashed}`);
+    console.log(`  Missing: ${visualSummary.missing}`);
+    console.log(`  Failed: ${visualSummary.failed}`);
+    console.log(`  Throughput: ${formatThroughput(visualSummary.hashed, visualSummary.bytes, visualSummary.elapsedMs)}`);
+  }
+  console.log('--------------------\n');
+
+  return failed > 0 ? EXIT_PARTIAL_FAILURE : EXIT_SUCCESS;
+}
+
+/**
+ * Prints a duplicate group, marking the item that is uploaded.
+ */
+function printDuplicateGroup(group: DuplicateGroup): void {
+  console.log(`${group.hash.slice(0, 12)}  (${group.duplicates.length + 1} items)`);
+  for (const item of [group.keeper, ...group.duplicates]) {
+    const marker = item === group.keeper ? '*' : ' ';
+    console.log(`  ${marker} ${item.id}  ${item.original_name}  ${item.creation_date ?? 'unknown date'}  ${item.size_bytes ?? '?'} bytes  [${item.status}]`);
+  }
+}
+
+/**
+ * Prints a cluster of visually identical photos with each photo's distance from the one uploaded.
+ */
+function printNearDuplicateCluster(cluster: NearDuplicateCluster): void {
+  console.log(`${cluster.keeper.visual_hash}  (${cluster.duplicates.length + 1} photos)`);
+  for (const item of [cluster.keeper, ...cluster.duplicates]) {
+    const marker = item === cluster.keeper ? '*' : ' ';
+    const distance = item === cluster.keeper ? '' : `  distance ${hammingDistance(cluster.keeper.visual_hash!, item.visual_hash!)}`;
+    console.log(`  ${marker} ${item.id}  ${item.original_name}  ${item.pixel_size ?? '?'}  [${item.status}]${distance}`);
+  }
+}
+
+/**
+ * Lists groups of identical files, or with --keep, makes the given item the one uploaded
+ * for its group. Returns the exit code.
+ */
+function runDuplicates(): number {
+  const resolver = new DuplicateResolver(dbManager, duplicatePolicy);
+
+  if (keepId !== undefined) {
+    try {
+      const group = resolver.override(keepId);
+      console.log(`\n${keepId} will be uploaded; the other items of its group are skipped.\n`);
+      printDuplicateGroup(group);
+      return EXIT_SUCCESS;
+    } catch (error) {
+      logger.error(error instanceof Error ? error.message : String(error));
+      return EXIT_ERROR;
+    }
+  }
+
+  const groups = resolver.listGroups();
+  console.log(`\n--- Duplicate Groups (policy: ${duplicatePolicy}) ---`);
+  groups.forEach(printDuplicateGroup);
+  console.log(`${groups.length} groups. Items marked * are uploaded; the rest are skipped.`);
+  console.log("Run 'duplicates --keep <id>' to upload a different item of a group.");
+
+  const clusters = new NearDuplicateResolver(dbManager, { threshold: nearThreshold, duplicatePolicy }).findClusters();
+  console.log(`\n--- Visually Identical Photos (policy: ${nearDuplicatePolicy}) ---`);
+  clusters.forEach(printNearDuplicateCluster);
+  console.log(
+    nearDuplicatePolicy === 'skip'
+      ? `${clusters.length} clusters. Photos marked * are uploaded; the rest are skipped.`
+      : `${clusters.length} clusters. All photos are uploaded; use --near-duplicate-policy skip to upload only those marked *.`
+  );
+  console.log('---------------------------------------\n');
+  return EXIT_SUCCESS;
+}
+
+/**
+ * Uploads every pending item, batch by batch, and prints a summary.
+ * Returns the exit code describing how the run went.
+ */
+async function runUpload(): Promise<number> {
+  // Created here rather than up front so other commands don't require a config.json
+  const authManager = new AuthManager({ profile });
+
+  try {
+    const accessToken = await authManager.getAccessToken();
+    if (!accessToken) {
+      logger.error("Not authenticated. Run 'login' first.");
+      return EXIT_AUTH_FAILURE;
+    }
+  } catch (error) {
+    logger.error('Could not authenticate with Google Photos:', error);
+    return EXIT_AUTH_FAILURE;
+  }
+
+  // Only one item of each group of identical files is uploaded
+  new DuplicateResolver(dbManager, duplicatePolicy).resolveAll();
+  new NearDuplicateResolver(dbManager, { policy: nearDuplicatePolicy, threshold: nearThreshold, duplicatePolicy }).resolveAll();
+
+  // Exports and uploads pause while the staging or database volume is low on space,
+  // and uploads are held while the network is down
+  const diskMonitor = new DiskMonitor({
+    stagingDir: batchOptions.stagingDir ?? DEFAULT_STAGING_DIR,
+    databasePath: dbManager.getDatabasePath(),
+  });
+  const networkMonitor = new NetworkMonitor();
+  // Failed items come back with exponential backoff until they run out of retries
+  const retryPolicy = new RetryPolicy({ maxRetries });
+  const uploader = new Uploader(dbManager, authManager, { ...uploaderOptions, diskMonitor, networkMonitor, retryPolicy });
+  const planner = new BatchPlanner(dbManager, { ...batchOptions, profile, maxItems: UPLOAD_BATCH_SIZE, diskMonitor });
+  const exporter = new StagingExporter(dbManager, { stagingDir: batchOptions.stagingDir, retryPolicy });
+  const summary = await uploader.uploadPlannedBatches(planner, exporter);
+
+  console.log('\n--- Upload Summary ---');
+  console.log(`Uploaded: ${summary.uploaded}`);
+  console.log(`Failed: ${summary.failed}`);
+  console.log(`Skipped: ${summary.skipped}`);
+  console.log('----------------------\n');
+
+  if (summary.authFailed) {
+    logger.error('Upload stopped early: authentication was lost during the run.');
+    return EXIT_AUTH_FAILURE;
+  }
+  return summary.failed > 0 ? EXIT_PARTIAL_FAILURE : EXIT_SUCCESS;
+}
+
+/**
+ * Puts failed and abandoned items back in the upload queue, or with --error/--code only those whose
+ * error message contains the given text or that failed with the given error code. Returns the exit code.
+ */
+function runRetryFailed(): number {
+  const requeued = dbManager.requeueFailedMedia({ errorMatch, errorCode, profile });
+  const filters = [
+    errorMatch !== undefined ? `an error matching "${errorMatch}"` : undefined,
+    errorCode !== undefined ? `error code ${errorCode}` : undefined,
+  ].filter((filter) => filter !== undefined);
+  const filter = filters.length > 0 ? ` with ${filters.join(' and ')}` : '';
+  console.log(`Requeued ${requeued} failed items${filter}. Run 'upload' to upload them.`);
+  return EXIT_SUCCESS;
+}
+
+/**
+ * Shows, applies or reverts database migrations ('migrate status', 'migrate up' or 'migrate down').
+ * Returns the exit code.
+ */
+async function runMigrate(): Promise<number> {
+  const action = subcommand ?? 'status';
+  if (action === 'status') {
+    const statuses = await migrationRunner.status();
+    console.log('\n--- Migrations ---');
+    for (const status of statuses) {
+      const version = status.version !== undefined ? String(status.version).padStart(4, '0') : '----';
+      const by = status.appVersion ? ` by ${status.appVersion}` : '';
+      const applied = status.appliedAt ? ` (applied ${status.appliedAt}${by})` : '';
+      console.log(`${status.state.padEnd(8)} ${version} ${status.id}${applied}`);
+    }
+    console.log('------------------\n');
+    return statuses.some((status) => status.state === 'edited' || status.state === 'unknown') ? EXIT_ERROR : EXIT_SUCCESS;
+  }
+  if (action !== 'up' && action !== 'down') {
+    console.error(`Unknown migrate command "${action}" (expected one of: status, up, down)`);
+    return EXIT_ERROR;
+  }
+
+  const options = { to: migrateTo, dryRun };
+  const migrations = action === 'up' ? await migrationRunner.up(options) : await migrationRunner.down(options);
+  const verb = action === 'up' ? (dryRun ? 'Would apply' : 'Applied') : dryRun ? 'Would revert' : 'Reverted';
+  console.log(`${verb} ${migrations.length} migrations${migrations.length > 0 ? ':' : '.'}`);
+  for (const migration of migrations) {
+    console.log(`  ${migration.id} - ${migration.description}`);
+  }
+  return EXIT_SUCCESS;
+}
 
 async function main() {
   try {
-    logger.info(`Starting Photo Migrator with command: ${command}`);
-    await dbManager.initialize(); // Ensure DB is initialized before any command
-    
-    // Apply any pending database migrations
-    applyMigrations(dbManager);
+    logger.info(`Starting Photo Migrator with command: ${command} (profile: ${profile})`);
+    // Apply any pending database migrations before any command, unless they are being managed by hand
+    if (command !== 'migrate') {
+      await dbManager.initialize();
+    }
 
     switch (command) {
       case 'scan':
         logger.info('Starting media library scan...');
         await mediaScanner.scanLibrary();
         logger.info('Media library scan finished.');
+        if (hashAfterScan) {
+          process.exitCode = await runHash();
+        }
+        break;
+      case 'hash':
+        logger.info('Starting content hashing...');
+        process.exitCode = await runHash();
+        break;
+      case 'duplicates':
+        process.exitCode = runDuplicates();
         break;
       case 'upload':
-        logger.info('Uploading photos (not implemented yet)');
-        // TODO: Implement upload logic using Uploader
+        logger.info('Starting upload of pending media...');
+        process.exitCode = await runUpload();
+        break;
+      case 'retry-failed':
+        process.exitCode = runRetryFailed();
+        break;
+      case 'migrate':
+        process.exitCode = await runMigrate();
         break;
       case 'login':
-        logger.info('Authentication (not implemented yet)');
-        // TODO: Implement login logic using AuthManager
+        logger.info('Starting Google Photos login...');
+        process.exitCode = await runLogin();
         break;
       case 'status':
         logger.info('Checking status...');
-        // TODO: Implement status check using DatabaseManager
         const totalCount = dbManager.getTotalCount();
         const photoCount = dbManager.getCountByType('photo');
         const videoCount = dbManager.getCountByType('video');
-        const pendingCount = dbManager.getCountByStatus('pending');
-        const uploadedCount = dbManager.getCountByStatus('uploaded');
-        const failedCount = dbManager.getCountByStatus('failed');
+        // Upload progress is per Google account
+        const pendingCount = dbManager.getCountByStatus('pending', profile);
+        const uploadedCount = dbManager.getCountByStatus('uploaded', profile);
+        const failedCount = dbManager.getCountByStatus('failed', profile);
+        const abandonedCount = dbManager.getCountByStatus('abandoned', profile);
+        const removedCount = dbManager.getCountByStatus('removed_from_source');
         
         console.log('\n--- Upload Status ---');
+        console.log(`Profile: ${profile}`);
         console.log(`Total Items Found: ${totalCount}`);
         console.log(`  Photos: ${photoCount}`);
         console.log(`  Videos: ${videoCount}`);
         console.log(`---------------------`);
         console.log(`Pending Upload: ${pendingCount}`);
         console.log(`Uploaded: ${uploadedCount}`);
-        console.log(`Failed: ${failedCount}`);
+        console.log(`Failed (retried automatically): ${failedCount}`);
+        console.log(`Abandoned: ${abandonedCount}`);
+        const failuresByCode = dbManager.getFailureCountsByErrorCode(profile);
+        if (failuresByCode.length > 0) {
+          console.log('Failed and Abandoned by Error Code:');
+        }
+        for (const { error_code, count } of failuresByCode) {
+          console.log(`  ${error_code ?? 'unclassified'}: ${count}`);
+        }
+        console.log(`Removed From Library: ${removedCount}`);
+        const quarantined = dbManager.getQuarantinedRecords(QUARANTINE_SAMPLE_SIZE);
+        if (quarantined.length > 0) {
+          console.log(`Quarantined Scanner Records: ${dbManager.getQuarantineCount()}`);
+          for (const record of quarantined) {
+            console.log(`  ${record.created_at} ${record.local_identifier ?? '(unknown asset)'}: ${record.reason}`);
+          }
+        }
         console.log('---------------------\n');
         break;
       case 'help':
@@ -65,16 +491,53 @@ async function main() {
 Photo Migrator - CLI
 -------------------
 Available commands:
-  scan   - Scan Apple Photos library
-  upload - Upload photos to Google Photos
+  scan   - Scan Apple Photos library, or the library/directories given with --library/--root
+  hash   - Compute the SHA-256 hash of every local file that doesn't have one yet (resumable)
+           (--visual also computes the perceptual hash of JPEG, PNG and, if heic-decode is installed, HEIC photos)
+           (exit code 0: all hashed or missing, 2: some files could not be read)
+  duplicates - List groups of identical files and the item uploaded for each, and visually identical photos
+               (--keep <id> uploads that item instead of the policy's choice)
+  upload - Upload all pending photos to Google Photos, skipping duplicates
+           (exit code 0: all uploaded, 2: some items failed, 3: not authenticated)
+  retry-failed - Requeue failed and abandoned items with their retry count reset
+                 (--error <text> only requeues items whose error message contains the text,
+                  --code <code> only those that failed with the error code)
   login  - Authenticate with Google Photos
   status - Show upload status
+  migrate status - List database migrations and whether they have been applied
+  migrate up     - Apply pending migrations (--to <id> stops after that one; other commands apply all of them first)
+  migrate down   - Revert the last migration (--to <id> reverts every migration after that one)
+                   (--dry-run only lists the migrations that would be applied or reverted)
+
+Options:
+  --profile <name> - Google account profile to use (default: ${DEFAULT_PROFILE})
+                     Profile config lives in ~/.config/photo-migrator/profiles/<name>/config.json
+  --photo-concurrency <n> - Photos uploaded in parallel (default: 4)
+  --video-concurrency <n> - Videos uploaded in parallel (default: 2)
+  --max-inflight-mb <n>   - Limit on the combined size of files being uploaded at once (default: 1024)
+  --max-disk-gb <n>       - Limit on the size of an upload batch; batches also leave 5 GB of disk free (default: 80)
+  --separate-media-types  - Upload photos and videos in separate batches, photos first
+  --max-retries <n>       - Times a failed item is retried, with growing delays, before it is abandoned (default: ${DEFAULT_MAX_RETRIES})
+  --code <code>           - Error code for retry-failed: ${UPLOAD_ERROR_CODES.join(', ')}
+  --to <id>               - Migration id or version for 'migrate up' and 'migrate down'
+  --dry-run               - List what 'migrate up' or 'migrate down' would do without changing the database
+  --root <dir>            - Directory to scan instead of Apple Photos (repeatable; any platform)
+  --library <path>        - Copied .photoslibrary bundle to read instead of Apple Photos (any platform)
+  --hash                  - Run the hash pass after 'scan'
+  --visual                - Also compute visual hashes in the hash pass
+  --visual-algorithm <a>  - Perceptual hash to compute: phash or dhash (default: ${DEFAULT_VISUAL_HASH_ALGORITHM})
+  --hash-concurrency <n>  - Files hashed in parallel (default: 4)
+  --duplicate-policy <p>  - Which identical file to upload: oldest, largest or best-metadata (default: ${DEFAULT_DUPLICATE_POLICY})
+  --near-duplicate-policy <p> - Visually identical photos: warn (upload all) or skip (upload one) (default: ${DEFAULT_NEAR_DUPLICATE_POLICY})
+  --near-threshold <n>    - Differing bits out of 64 for photos to count as the same (default: ${DEFAULT_NEAR_DUPLICATE_THRESHOLD})
+  --max-mbps <n>          - Upload speed cap in Mbps (default: unlimited)
+  --throttle-schedule <s> - Time-of-day limits, e.g. "22:00-07:00=unlimited,09:00-17:00=2"
         `);
         break;
     }
   } catch (error) {
     logger.error('An error occurred:', error);
-    process.exit(1);
+    process.exit(EXIT_ERROR);
   }
 }
 
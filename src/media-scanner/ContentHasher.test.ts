@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { ContentHasher, formatThroughput, hashFile } from './ContentHasher';
+import { DatabaseManager, MediaItem } from '../utils/database';
+
+vi.mock('../utils/logger', () => {
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+  return { logger, createLogger: () => logger };
+});
+
+const sha256 = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+
+describe('ContentHasher', () => {
+  let tmpDir: string;
+  let dbManager: DatabaseManager;
+
+  const addItem = (id: string, override: Partial<Omit<MediaItem, 'retry_count'>> = {}) =>
+    dbManager.addMediaItem({
+      id,
+      media_type: 'photo',
+      mime_type: 'image/jpeg',
+      original_path: path.join(tmpDir, `${id}.jpg`),
+      original_name: `${id}.jpg`,
+      size_bytes: 0,
+      status: 'pending',
+      ...override,
+    });
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'content-hasher-'));
+    dbManager = new DatabaseManager(path.join(tmpDir, 'test.sqlite'));
+    await dbManager.initialize();
+  });
+
+  afterEach(async () => {
+    dbManager.close();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('hashFile', () => {
+    it('should hash files larger than the read buffer', async () => {
+      const data = crypto.randomBytes(3 * 1024 * 1024 + 17);
+      const filePath = path.join(tmpDir, 'large.bin');
+      await fs.writeFile(filePath, data);
+
+      await expect(hashFile(filePath)).resolves.toEqual({ hash: sha256(data), bytes: data.length });
+    });
+  });
+
+  it('should store the hash of every local file', async () => {
+    let totalBytes = 0;
+    for (let index = 0; index < 12; index++) {
+      totalBytes += `photo ${index}`.length;
+      await fs.writeFile(path.join(tmpDir, `item-${index}.jpg`), `photo ${index}`);
+      addItem(`item-${index}`);
+    }
+
+    const result = await new ContentHasher(dbManager, { concurrency: 3 }).hashPending();
+
+    expect(result).toMatchObject({ hashed: 12, missing: 0, failed: 0, bytes: totalBytes });
+    expect(dbManager.getMediaById('item-7')?.sha256_hash).toBe(sha256('photo 7'));
+    expect(dbManager.getUnhashedCount()).toBe(0);
+  });
+
+  it('should skip items that are already hashed, in iCloud, or removed from the library', async () => {
+    await fs.writeFile(path.join(tmpDir, 'new.jpg'), 'new');
+    await fs.writeFile(path.join(tmpDir, 'exported.jpg'), 'exported');
+    addItem('new');
+    addItem('hashed', { sha256_hash: 'existing-hash' });
+    addItem('icloud', { original_path: 'urn:apple:photos:library:asset:icloud' });
+    addItem('exported', { original_path: 'urn:apple:photos:library:asset:exported', local_copy_path: path.join(tmpDir, 'exported.jpg') });
+    addItem('removed', { status: 'removed_from_source' });
+
+    expect(dbManager.getUnhashedCount()).toBe(2);
+    const result = await new ContentHasher(dbManager).hashPending();
+
+    expect(result).toMatchObject({ hashed: 2, missing: 0, failed: 0 });
+    expect(dbManager.getMediaById('hashed')?.sha256_hash).toBe('existing-hash');
+    expect(dbManager.getMediaById('exported')?.sha256_hash).toBe(sha256('exported'));
+    expect(dbManager.getMediaById('icloud')?.sha256_hash).toBeNull();
+  });
+
+  it('should leave missing and unreadable files for the next run', async () => {
+    await fs.writeFile(path.join(tmpDir, 'a.jpg'), 'a');
+    await fs.mkdir(path.join(tmpDir, 'directory.jpg'));
+    addItem('a');
+    addItem('gone');
+    addItem('directory');
+
+    const first = await new ContentHasher(dbManager).hashPending();
+    expect(first).toMatchObject({ hashed: 1, missing: 1, failed: 1 });
+
+    await fs.writeFile(path.join(tmpDir, 'gone.jpg'), 'back');
+    const second = await new ContentHasher(dbManager).hashPending();
+    expect(second).toMatchObject({ hashed: 1, missing: 0, failed: 1 });
+    expect(dbManager.getMediaById('gone')?.sha256_hash).toBe(sha256('back'));
+  });
+
+  it('should format throughput', () => {
+    expect(formatThroughput(10, 20 * 1024 * 1024, 2000)).toBe('5.0 files/s, 10.0 MB/s');
+  });
+});
@@ -0,0 +1,125 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import { pipeline } from 'stream/promises';
+import { DatabaseManager, MediaItem } from '../utils/database';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('ContentHasher');
+
+const DEFAULT_CONCURRENCY = 4;
+// Rows fetched from the database at a time
+const PAGE_SIZE = 500;
+const DEFAULT_PROGRESS_INTERVAL_MS = 5000;
+// Larger reads than the 64KB default cut syscall overhead on big videos
+const READ_BUFFER_BYTES = 1024 * 1024;
+
+export interface ContentHasherOptions {
+  concurrency?: number; // Files hashed in parallel
+  progressIntervalMs?: number; // How often progress and throughput are logged
+}
+
+export interface HashRunResult {
+  hashed: number;
+  missing: number; // Files that are no longer on disk; retried on the next run
+  failed: number; // Files that couldn't be read; retried on the next run
+  bytes: number;
+  elapsedMs: number;
+}
+
+/**
+ * Computes the SHA-256 hash of a file without loading it into memory.
+ * Returns the hex digest and the number of bytes read.
+ */
+export async function hashFile(filePath: string): Promise<{ hash: string; bytes: number }> {
+  const hash = crypto.createHash('sha256');
+  const stream = fs.createReadStream(filePath, { highWaterMark: READ_BUFFER_BYTES });
+  await pipeline(stream, hash);
+  return { hash: hash.digest('hex'), bytes: stream.bytesRead };
+}
+
+/**
+ * Formats the files and bytes processed over a duration as files and megabytes per second.
+ */
+export function formatThroughput(files: number, bytes: number, elapsedMs: number): string {
+  const seconds = Math.max(elapsedMs, 1) / 1000;
+  return `${(files / seconds).toFixed(1)} files/s, ${(bytes / (1024 * 1024) / seconds).toFixed(1)} MB/s`;
+}
+
+/**
+ * Fills in `sha256_hash` for every media item whose file is available locally. Each hash is
+ * stored as soon as it is computed, so an interrupted run picks up where it stopped and items
+ * that already have a hash are never read again.
+ */
+export class ContentHasher {
+  private dbManager: DatabaseManager;
+  private concurrency: number;
+  private progressIntervalMs: number;
+
+  constructor(dbManager: DatabaseManager, options: ContentHasherOptions = {}) {
+    this.dbManager = dbManager;
+    this.concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+    this.progressIntervalMs = options.progressIntervalMs ?? DEFAULT_PROGRESS_INTERVAL_MS;
+  }
+
+  async hashPending(): Promise<HashRunResult> {
+    const total = this.dbManager.getUnhashedCount();
+    const result: HashRunResult = { hashed: 0, missing: 0, failed: 0, bytes: 0, elapsedMs: 0 };
+    const startedAt = Date.now();
+    let lastProgressAt = startedAt;
+
+    logger.info(`Hashing ${total} media items with ${this.concurrency} workers`);
+
+    // Items that fail keep a NULL hash, so paging continues after the last ID seen rather than
+    // re-querying from the start
+    let afterId = '';
+    while (true) {
+      const page = this.dbManager.getUnhashedMedia(PAGE_SIZE, afterId);
+      if (page.length === 0) {
+        break;
+      }
+      afterId = page[page.length - 1].id;
+
+      let next = 0;
+      const worker = async () => {
+        while (next < page.length) {
+          const item = page[next++];
+          await this.hashItem(item, result);
+
+          const now = Date.now();
+          if (now - lastProgressAt >= this.progressIntervalMs) {
+            lastProgressAt = now;
+            const done = result.hashed + result.missing + result.failed;
+            logger.info(`Hashed ${done}/${total} (${formatThroughput(result.hashed, result.bytes, now - startedAt)})`);
+          }
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(this.concurrency, page.length) }, worker));
+    }
+
+    result.elapsedMs = Date.now() - startedAt;
+    logger.info(
+      `Hashing complete. Hashed: ${result.hashed}, Missing: ${result.missing}, Failed: ${result.failed} ` +
+        `(${formatThroughput(result.hashed, result.bytes, result.elapsedMs)})`
+    );
+    return result;
+  }
+
+  private async hashItem(item: MediaItem, result: HashRunResult): Promise<void> {
+    // Apple Photos assets without an original on disk only have a urn placeholder path
+    const filePath = item.original_path.startsWith('urn:') ? item.local_copy_path! : item.original_path;
+    try {
+      const { hash, bytes } = await hashFile(filePath);
+      this.dbManager.updateSha256Hash(item.id, hash);
+      result.hashed++;
+      result.bytes += bytes;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        logger.warn(`File for item ${item.id} not found: ${filePath}`);
+        result.missing++;
+      } else {
+        logger.error(`Could not hash item ${item.id} (${filePath}): ${error.message}`);
+        result.failed++;
+      }
+    }
+  }
+}
@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { DatabaseManager } from '../utils/database';
+import { FilesystemScanner, detectMediaType, pathToMediaId, readPixelSize } from './FilesystemScanner';
+
+vi.mock('../utils/logger', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+// Minimal file headers for each format
+const png = (width: number, height: number) => {
+  const ihdr = Buffer.alloc(25);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(ihdr, 0);
+  ihdr.writeUInt32BE(13, 8);
+  ihdr.write('IHDR', 12, 'latin1');
+  ihdr.writeUInt32BE(width, 16);
+  ihdr.writeUInt32BE(height, 20);
+  return ihdr;
+};
+const jpeg = (width: number, height: number) => {
+  const app0 = Buffer.from([0xff, 0xe0, 0x00, 0x10, ...Buffer.from('JFIF\0'), 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+  const sof0 = Buffer.alloc(19);
+  sof0.writeUInt16BE(0xffc0, 0);
+  sof0.writeUInt16BE(17, 2);
+  sof0[4] = 8;
+  sof0.writeUInt16BE(height, 5);
+  sof0.writeUInt16BE(width, 7);
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), app0, sof0]);
+};
+const gif = (width: number, height: number) => {
+  const header = Buffer.alloc(13);
+  header.write('GIF89a', 0, 'latin1');
+  header.writeUInt16LE(width, 6);
+  header.writeUInt16LE(height, 8);
+  return header;
+};
+const ftyp = (brand: string) => {
+  const box = Buffer.alloc(24);
+  box.writeUInt32BE(24, 0);
+  box.write('ftyp', 4, 'latin1');
+  box.write(brand, 8, 'latin1');
+  return box;
+};
+const ebml = () => Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42, 0x86, 0x81, 0x01]);
+
+describe('FilesystemScanner', () => {
+  describe('detectMediaType', () => {
+    it('should recognize photos and videos by their magic bytes', () => {
+      expect(detectMediaType(jpeg(1, 1), '.jpg')).toEqual({ mediaType: 'photo', mimeType: 'image/jpeg' });
+      expect(detectMediaType(png(1, 1), '')).toEqual({ mediaType: 'photo', mimeType: 'image/png' });
+      expect(detectMediaType(gif(1, 1), '.gif')).toEqual({ mediaType: 'photo', mimeType: 'image/gif' });
+      expect(detectMediaType(ftyp('heic'), '.HEIC')).toEqual({ mediaType: 'photo', mimeType: 'image/heic' });
+      expect(detectMediaType(ftyp('isom'), '.mp4')).toEqual({ mediaType: 'video', mimeType: 'video/mp4' });
+      expect(detectMediaType(Buffer.from('RIFF\0\0\0\0WEBPVP8 ', 'latin1'), '.webp')).toEqual({ mediaType: 'photo', mimeType: 'image/webp' });
+      expect(detectMediaType(Buffer.from('RIFF\0\0\0\0AVI LIST', 'latin1'), '.avi')).toEqual({ mediaType: 'video', mimeType: 'video/x-msvideo' });
+    });
+
+    it('should use the extension to tell apart formats that share a container', () => {
+      expect(detectMediaType(ftyp('qt  '), '.mov')!.mimeType).toBe('video/quicktime');
+      expect(detectMediaType(ftyp('isom'), '.MOV')!.mimeType).toBe('video/quicktime');
+      expect(detectMediaType(ebml(), '.webm')!.mimeType).toBe('video/webm');
+      expect(detectMediaType(ebml(), '.mkv')!.mimeType).toBe('video/x-matroska');
+    });
+
+    it('should not trust the extension alone', () => {
+      expect(detectMediaType(Buffer.from('not really a photo'), '.jpg')).toBeNull();
+    });
+  });
+
+  describe('readPixelSize', () => {
+    it('should read dimensions from image headers', () => {
+      expect(readPixelSize(png(640, 480), 'image/png')).toBe('640x480');
+      expect(readPixelSize(jpeg(400, 300), 'image/jpeg')).toBe('400x300');
+      expect(readPixelSize(gif(10, 20), 'image/gif')).toBe('10x20');
+    });
+
+    it('should return undefined for truncated headers', () => {
+      expect(readPixelSize(png(640, 480).subarray(0, 18), 'image/png')).toBeUndefined();
+      expect(readPixelSize(jpeg(400, 300).subarray(0, 10), 'image/jpeg')).toBeUndefined();
+    });
+  });
+
+  describe('scan', () => {
+    let tmpDir: string;
+    let mockDbManager: Record<
+      'getMediaById' | 'addMediaBatch' | 'updateMediaMetadata' | 'getMediaIdsUnderDirectory' | 'markRemovedFromSource',
+      ReturnType<typeof vi.fn>
+    >;
+    let scanner: FilesystemScanner;
+
+    beforeEach(async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fs-scanner-'));
+      await fs.mkdir(path.join(tmpDir, 'Trip', 'Day 1'), { recursive: true });
+      await fs.writeFile(path.join(tmpDir, 'Trip', 'beach.jpg'), jpeg(400, 300));
+      await fs.writeFile(path.join(tmpDir, 'Trip', 'Day 1', 'clip.mov'), ftyp('qt  '));
+      await fs.writeFile(path.join(tmpDir, 'scan.png'), png(640, 480));
+      await fs.writeFile(path.join(tmpDir, 'notes.txt'), 'shopping list');
+      await fs.writeFile(path.join(tmpDir, '.DS_Store'), png(1, 1)); // Hidden files are ignored
+
+      mockDbManager = {
+        getMediaById: vi.fn().mockReturnValue(undefined),
+        addMediaBatch: vi.fn(),
+        updateMediaMetadata: vi.fn(),
+        getMediaIdsUnderDirectory: vi.fn().mockReturnValue([]),
+        markRemovedFromSource: vi.fn().mockImplementation((ids: string[]) => ids.length),
+      };
+      scanner = new FilesystemScanner(mockDbManager as unknown as DatabaseManager);
+    });
+
+    afterEach(async () => {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should add photos and videos found below the roots', async () => {
+      const result = await scanner.scan([tmpDir]);
+
+      expect(result).toEqual({ added: 3, updated: 0, existing: 0, removed: 0, unsupported: 1, errors: 0 });
+      expect(mockDbManager.addMediaBatch).toHaveBeenCalledTimes(1);
+
+      const items = mockDbManager.addMediaBatch.mock.calls[0][0];
+      const beachPath = path.join(tmpDir, 'Trip', 'beach.jpg');
+      expect(items.find((item: any) => item.original_name === 'beach.jpg')).toMatchObject({
+        id: pathToMediaId(beachPath),
+        media_type: 'photo',
+        mime_type: 'image/jpeg',
+        original_path: beachPath,
+        size_bytes: jpeg(400, 300).length,
+        pixel_size: '400x300',
+        status: 'pending',
+        is_in_icloud: false,
+      });
+      expect(items.find((item: any) => item.original_name === 'clip.mov')).toMatchObject({
+        media_type: 'video',
+        mime_type: 'video/quicktime',
+      });
+      expect(items.every((item: any) => !Number.isNaN(Date.parse(item.creation_date)))).toBe(true);
+    });
+
+    // Stored rows as the first scan of tmpDir added them
+    const scanStoredRows = async () => {
+      await new FilesystemScanner(mockDbManager as unknown as DatabaseManager).scan([tmpDir]);
+      const rows = new Map<string, any>(mockDbManager.addMediaBatch.mock.calls[0][0].map((item: any) => [item.id, { ...item, is_in_icloud: 0 }]));
+      mockDbManager.addMediaBatch.mockClear();
+      return rows;
+    };
+
+    it('should skip files that are already in the database unchanged', async () => {
+      const rows = await scanStoredRows();
+      const existingId = pathToMediaId(path.join(tmpDir, 'scan.png'));
+      mockDbManager.getMediaById.mockImplementation((id: string) => (id === existingId ? rows.get(id) : undefined));
+
+      const result = await scanner.scan([tmpDir]);
+
+      expect(result.added).toBe(2);
+      expect(result.existing).toBe(1);
+      expect(mockDbManager.updateMediaMetadata).not.toHaveBeenCalled();
+      const addedIds = mockDbManager.addMediaBatch.mock.calls[0][0].map((item: any) => item.id);
+      expect(addedIds).not.toContain(existingId);
+    });
+
+    it('should update known files that changed and clear their hashes', async () => {
+      const rows = await scanStoredRows();
+      const scanPath = path.join(tmpDir, 'scan.png');
+      const existingId = pathToMediaId(scanPath);
+      rows.set(existingId, { ...rows.get(existingId), sha256_hash: 'old-hash', status: 'removed_from_source' });
+      mockDbManager.getMediaById.mockImplementation((id: string) => rows.get(id));
+      await fs.writeFile(scanPath, Buffer.concat([png(800, 600), Buffer.alloc(100)]));
+
+      const result = await scanner.scan([tmpDir]);
+
+      expect(result).toMatchObject({ added: 0, updated: 1, existing: 2 });
+      expect(mockDbManager.updateMediaMetadata).toHaveBeenCalledWith(existingId, {
+        size_bytes: png(800, 600).length + 100,
+        pixel_size: '800x600',
+        sha256_hash: undefined,
+        status: 'pending',
+      });
+    });
+
+    it('should mark known files that are gone from a root as removed', async () => {
+      const rows = await scanStoredRows();
+      mockDbManager.getMediaById.mockImplementation((id: string) => rows.get(id));
+      const goneId = pathToMediaId(path.join(tmpDir, 'Trip', 'deleted.jpg'));
+      mockDbManager.getMediaIdsUnderDirectory.mockReturnValue([...rows.keys(), goneId, 'PHOTOS-ASSET-ID']);
+
+      const result = await scanner.scan([tmpDir]);
+
+      expect(mockDbManager.getMediaIdsUnderDirectory).toHaveBeenCalledWith(tmpDir);
+      expect(mockDbManager.markRemovedFromSource).toHaveBeenCalledWith([goneId]);
+      expect(result).toMatchObject({ existing: 3, removed: 1 });
+    });
+
+    it('should count unreadable roots as errors and keep going', async () => {
+      const result = await scanner.scan([path.join(tmpDir, 'missing'), path.join(tmpDir, 'Trip')]);
+
+      expect(result).toEqual({ added: 2, updated: 0, existing: 0, removed: 0, unsupported: 0, errors: 1 });
+      // Nothing was found below the missing root, so none of its files are marked removed
+      expect(mockDbManager.getMediaIdsUnderDirectory).not.toHaveBeenCalledWith(path.join(tmpDir, 'missing'));
+    });
+  });
+
+  it('should derive stable IDs from the absolute path', () => {
+    expect(pathToMediaId('/photos/a.jpg')).toBe(pathToMediaId('/photos/../photos/a.jpg'));
+    expect(pathToMediaId('/photos/a.jpg')).not.toBe(pathToMediaId('/photos/b.jpg'));
+    expect(pathToMediaId('/photos/a.jpg')).toMatch(/^fs:[0-9a-f]{32}$/);
+  });
+});
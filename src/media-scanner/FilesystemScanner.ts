@@ -0,0 +1,314 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { DatabaseManager, MediaItem, MediaType } from '../utils/database';
+import { createLogger } from '../utils/logger';
+import { diffScannedMetadata } from './rescan';
+
+const logger = createLogger('FilesystemScanner');
+
+const HEADER_BYTES = 32;
+// JPEG dimensions live in the SOF segment, which can sit behind a large EXIF block
+const JPEG_SCAN_BYTES = 256 * 1024;
+const INSERT_BATCH_SIZE = 500;
+
+// Prefix of IDs created by this scanner, which keeps them apart from Apple Photos identifiers
+export const FILESYSTEM_ID_PREFIX = 'fs:';
+
+export interface DetectedMedia {
+  mediaType: MediaType;
+  mimeType: string;
+}
+
+export interface FilesystemScanResult {
+  added: number;
+  updated: number; // Known files whose size, dates or dimensions changed
+  existing: number;
+  removed: number; // Known files that are no longer below their root
+  unsupported: number; // Files that aren't recognized photos or videos
+  errors: number; // Files or directories that couldn't be read
+}
+
+// ISO base media file brands (the 'ftyp' box) that identify HEIF images
+const HEIF_BRANDS = new Set(['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1']);
+
+/**
+ * Identifies photos and videos from the first bytes of a file. The extension is only used to
+ * tell apart formats that share a container (MOV vs MP4, WebM vs MKV).
+ */
+export function detectMediaType(header: Buffer, extension: string): DetectedMedia | null {
+  const ext = extension.toLowerCase();
+  const ascii = (start: number, end: number) => header.toString('latin1', start, end);
+
+  if (header.length >= 3 && header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) {
+    return { mediaType: 'photo', mimeType: 'image/jpeg' };
+  }
+  if (header.length >= 8 && header.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return { mediaType: 'photo', mimeType: 'image/png' };
+  }
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') {
+    return { mediaType: 'photo', mimeType: 'image/gif' };
+  }
+  if (ascii(0, 4) === 'RIFF') {
+    if (ascii(8, 12) === 'WEBP') {
+      return { mediaType: 'photo', mimeType: 'image/webp' };
+    }
+    if (ascii(8, 12) === 'AVI ') {
+      return { mediaType: 'video', mimeType: 'video/x-msvideo' };
+    }
+  }
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12);
+    if (HEIF_BRANDS.has(brand)) {
+      return { mediaType: 'photo', mimeType: brand === 'mif1' || brand === 'msf1' ? 'image/heif' : 'image/heic' };
+    }
+    if (brand === 'qt  ' || ext === '.mov') {
+      return { mediaType: 'video', mimeType: 'video/quicktime' };
+    }
+    return { mediaType: 'video', mimeType: 'video/mp4' };
+  }
+  if (header.length >= 4 && header.readUInt32BE(0) === 0x1a45dfa3) {
+    // EBML header, used by both Matroska and WebM
+    return { mediaType: 'video', mimeType: ext === '.webm' ? 'video/webm' : 'video/x-matroska' };
+  }
+  if (header.length >= 4 && header[0] === 0x00 && header[1] === 0x00 && header[2] === 0x01 && (header[3] === 0xba || header[3] === 0xb3)) {
+    return { mediaType: 'video', mimeType: 'video/mpeg' };
+  }
+  return null;
+}
+
+/**
+ * Reads image dimensions from the start of a JPEG, PNG, GIF or WebP file.
+ * Returns undefined for other formats or if the header is truncated.
+ */
+export function readPixelSize(data: Buffer, mimeType: string): string | undefined {
+  let size: { width: number; height: number } | undefined;
+  try {
+    switch (mimeType) {
+      case 'image/png':
+        // IHDR is always the first chunk
+        size = { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+        break;
+      case 'image/gif':
+        size = { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+        break;
+      case 'image/webp':
+        size = readWebpSize(data);
+        break;
+      case 'image/jpeg':
+        size = readJpegSize(data);
+        break;
+    }
+  } catch {
+    // RangeError from a truncated header
+    return undefined;
+  }
+  return size && size.width > 0 && size.height > 0 ? `${size.width}x${size.height}` : undefined;
+}
+
+function readWebpSize(data: Buffer): { width: number; height: number } | undefined {
+  const chunk = data.toString('latin1', 12, 16);
+  if (chunk === 'VP8X') {
+    return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+  }
+  if (chunk === 'VP8L') {
+    const bits = data.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === 'VP8 ') {
+    return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+  }
+  return undefined;
+}
+
+function readJpegSize(data: Buffer): { width: number; height: number } | undefined {
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      return undefined;
+    }
+    const marker = data[offset + 1];
+    // SOF0-SOF15 carry the frame size; C4 (DHT), C8 (JPG) and CC (DAC) share the range but don't
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7) };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return undefined;
+}
+
+/**
+ * Stable ID for a file, derived from its absolute path so rescans map to the same row.
+ */
+export function pathToMediaId(filePath: string): string {
+  const hash = crypto.createHash('sha256').update(path.resolve(filePath)).digest('hex');
+  return `${FILESYSTEM_ID_PREFIX}${hash.substring(0, 32)}`;
+}
+
+/**
+ * Walks directories (exported libraries, iCloud download folders, ...) and adds the photos
+ * and videos it finds to the database, updating known files that changed and marking ones that
+ * are gone as removed. Used where the Swift scanner isn't available.
+ */
+export class FilesystemScanner {
+  private dbManager: DatabaseManager;
+
+  constructor(dbManager: DatabaseManager) {
+    this.dbManager = dbManager;
+  }
+
+  async scan(roots: string[]): Promise<FilesystemScanResult> {
+    const result: FilesystemScanResult = { added: 0, updated: 0, existing: 0, removed: 0, unsupported: 0, errors: 0 };
+    const foundIds = new Set<string>();
+    let batch: Omit<MediaItem, 'retry_count'>[] = [];
+
+    const flush = () => {
+      if (batch.length > 0) {
+        this.dbManager.addMediaBatch(batch);
+        result.added += batch.length;
+        batch = [];
+      }
+    };
+
+    for (const root of roots) {
+      const rootPath = path.resolve(root);
+      const unreadableDirs: string[] = [];
+      let foundInRoot = 0;
+      logger.info(`Scanning directory: ${root}`);
+      for await (const filePath of this.walk(rootPath, result, unreadableDirs)) {
+        const id = pathToMediaId(filePath);
+        let item: Omit<MediaItem, 'retry_count'> | null;
+        try {
+          item = await this.describeFile(id, filePath);
+        } catch (error: any) {
+          logger.warn(`Could not read ${filePath}: ${error.message}`);
+          result.errors++;
+          foundIds.add(id); // Still there, so not removed
+          continue;
+        }
+        if (!item) {
+          result.unsupported++;
+          continue;
+        }
+        foundIds.add(id);
+        foundInRoot++;
+
+        const existingItem = this.dbManager.getMediaById(id);
+        if (existingItem) {
+          const changes = diffScannedMetadata(existingItem, item, true);
+          if (changes) {
+            this.dbManager.updateMediaMetadata(id, changes);
+            result.updated++;
+          } else {
+            result.existing++;
+          }
+          continue;
+        }
+
+        batch.push(item);
+        if (batch.length >= INSERT_BATCH_SIZE) {
+          flush();
+        }
+      }
+
+      // An empty walk is more likely an unmounted drive than deleted files
+      if (foundInRoot === 0) {
+        logger.warn(`Found no media in ${root}. Skipping removed file detection there.`);
+      } else {
+        result.removed += this.markRemovedFiles(rootPath, foundIds, unreadableDirs);
+      }
+    }
+    flush();
+
+    logger.info(
+      `Filesystem scan complete. Added: ${result.added}, Updated: ${result.updated}, Existing: ${result.existing}, Removed: ${result.removed}, Unsupported: ${result.unsupported}, Errors: ${result.errors}`
+    );
+    return result;
+  }
+
+  /**
+   * Marks previously scanned files below `root` that the walk didn't find as removed_from_source.
+   * Files below directories that couldn't be read are left alone.
+   */
+  private markRemovedFiles(root: string, foundIds: Set<string>, unreadableDirs: string[]): number {
+    const unreadableIds = new Set(unreadableDirs.flatMap((dir) => this.dbManager.getMediaIdsUnderDirectory(dir)));
+    const missingIds = this.dbManager
+      .getMediaIdsUnderDirectory(root)
+      .filter((id) => id.startsWith(FILESYSTEM_ID_PREFIX) && !foundIds.has(id) && !unreadableIds.has(id));
+    const removedCount = this.dbManager.markRemovedFromSource(missingIds);
+    if (removedCount > 0) {
+      logger.info(`${removedCount} files are no longer in ${root} and were marked as removed.`);
+    }
+    return removedCount;
+  }
+
+  /**
+   * Yields regular files below `dir`. Hidden entries and symlinks are skipped, the latter so a
+   * link back up the tree can't cause an endless walk. Directories that can't be read are
+   * added to `unreadableDirs`.
+   */
+  private async *walk(dir: string, result: FilesystemScanResult, unreadableDirs: string[]): AsyncGenerator<string> {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error: any) {
+      logger.warn(`Could not read directory ${dir}: ${error.message}`);
+      result.errors++;
+      unreadableDirs.push(dir);
+      return;
+    }
+
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) {
+        continue;
+      }
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        yield* this.walk(fullPath, result, unreadableDirs);
+      } else if (entry.isFile()) {
+        yield fullPath;
+      }
+    }
+  }
+
+  private async describeFile(id: string, filePath: string): Promise<Omit<MediaItem, 'retry_count'> | null> {
+    const handle = await fs.open(filePath, 'r');
+    try {
+      const stats = await handle.stat();
+      const header = Buffer.alloc(Math.min(HEADER_BYTES, stats.size));
+      await handle.read(header, 0, header.length, 0);
+
+      const detected = detectMediaType(header, path.extname(filePath));
+      if (!detected) {
+        return null;
+      }
+
+      let pixelSize: string | undefined;
+      if (detected.mediaType === 'photo') {
+        const probe = Buffer.alloc(Math.min(detected.mimeType === 'image/jpeg' ? JPEG_SCAN_BYTES : HEADER_BYTES, stats.size));
+        await handle.read(probe, 0, probe.length, 0);
+        pixelSize = readPixelSize(probe, detected.mimeType);
+      }
+
+      // birthtime is 0 on filesystems that don't record it; the earlier of the two is the best guess
+      const birthtime = stats.birthtimeMs > 0 ? stats.birthtimeMs : stats.mtimeMs;
+      const creationDate = new Date(Math.min(birthtime, stats.mtimeMs)).toISOString();
+
+      return {
+        id,
+        media_type: detected.mediaType,
+        mime_type: detected.mimeType,
+        original_path: filePath,
+        original_name: path.basename(filePath),
+        size_bytes: stats.size,
+        creation_date: creationDate,
+        pixel_size: pixelSize,
+        status: 'pending',
+        is_in_icloud: false,
+      };
+    } finally {
+      await handle.close();
+    }
+  }
+}
@@ -1,19 +1,24 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { MediaScanner } from './MediaScanner';
+import { SCANNER_PROTOCOL_VERSION } from './assetSchema';
 import { DatabaseManager, MediaItem, MediaStatus } from '../utils/database';
 import { AuthManager } from '../auth/AuthManager';
 import axios from 'axios';
 import fs from 'fs';
-import { Readable } from 'stream';
+import { PassThrough, Readable } from 'stream';
 import { spawn } from 'child_process'; // Import the original spawn
 import path from 'path';
 import { EventEmitter } from 'events'; // Import EventEmitter
+import { FilesystemScanner } from './FilesystemScanner';
+import { PhotosLibraryReader } from './PhotosLibraryReader';
 
 // Mocks
 vi.mock('../utils/database');
 vi.mock('../auth/AuthManager');
 vi.mock('axios');
 vi.mock('fs');
+vi.mock('./FilesystemScanner');
+vi.mock('./PhotosLibraryReader');
 // Mock child_process selectively
 vi.mock('child_process', async (importOriginal) => {
   const actual = await importOriginal<typeof import('child_process')>();
@@ -29,24 +34,40 @@ const mockedSpawn = vi.mocked(spawn);
 // Helper to create a mock ChildProcess
 const createMockProcess = (stdout = '', stderr = '', exitCode = 0) => {
   const mockProcess = new EventEmitter() as any; // Use EventEmitter for close/error events
-  mockProcess.stdout = new EventEmitter();
-  mockProcess.stderr = new EventEmitter();
+  mockProcess.stdout = new PassThrough();
+  mockProcess.stderr = new PassThrough();
+  mockProcess.exitCode = null;
+  mockProcess.signalCode = null;
+  mockProcess.kill = vi.fn();
 
   // Function to simulate emitting data and closing
   mockProcess.run = () => {
-    if (stdout) mockProcess.stdout.emit('data', Buffer.from(stdout));
-    if (stderr) mockProcess.stderr.emit('data', Buffer.from(stderr));
+    if (stdout) mockProcess.stdout.write(stdout);
+    if (stderr) mockProcess.stderr.write(stderr);
+    mockProcess.stdout.end();
+    mockProcess.stderr.end();
+    mockProcess.exitCode = exitCode;
     mockProcess.emit('close', exitCode);
   };
   
-  // Function to simulate an error during spawn
+  // Function to simulate an error during spawn (the streams close as with a real process)
   mockProcess.triggerSpawnError = (error: Error) => {
     mockProcess.emit('error', error);
+    mockProcess.stdout.end();
+    mockProcess.stderr.end();
   };
 
   return mockProcess;
 };
 
+// Formats assets as the Swift scanner's NDJSON output
+const toNdjson = (assets: object[], { done = true, limited = false } = {}) =>
+  [
+    JSON.stringify({ type: 'hello', protocolVersion: SCANNER_PROTOCOL_VERSION, scanner: 'MediaScannerMac' }),
+    ...assets.map((asset) => JSON.stringify({ type: 'asset', asset })),
+    ...(done ? [JSON.stringify({ type: 'done', count: assets.length, limited })] : []),
+  ].join('\n') + '\n';
+
 // Helper to create a readable stream that mimics fs.ReadStream
 const createMockReadStream = () => {
   const stream = new Readable() as any; // Start with Readable, cast to any to add properties
@@ -74,8 +95,8 @@ describe('MediaScanner', () => {
   const originalPlatform = process.platform;
   const MOCK_EXECUTABLE_PATH = path.join(process.cwd(), 'bin', 'MediaScannerMac');
 
-  // Sample Swift output JSON
-  const mockSwiftOutput = JSON.stringify([
+  // Sample Swift scanner assets
+  const mockSwiftAssets = [
     {
       localIdentifier: 'ID1',
       originalPath: null,
@@ -106,16 +127,21 @@ describe('MediaScanner', () => {
       durationSeconds: 30.5,
       codec: 'h264',
     },
-  ]);
+  ];
+  const mockSwiftOutput = toNdjson(mockSwiftAssets);
 
   beforeEach(() => {
     vi.resetAllMocks();
 
     // Mock DatabaseManager instance methods
     mockDbManager = {
-      initialize: vi.fn().mockReturnValue(true),
+      initialize: vi.fn().mockResolvedValue(true),
       addMediaBatch: vi.fn(),
       getMediaById: vi.fn().mockReturnValue(undefined),
+      updateMediaMetadata: vi.fn().mockReturnValue(true),
+      getAllMediaIds: vi.fn().mockReturnValue([]),
+      markRemovedFromSource: vi.fn().mockReturnValue(0),
+      addQuarantinedRecord: vi.fn().mockReturnValue(1),
     };
     // Mock the DatabaseManager constructor to return our instance
     vi.mocked(DatabaseManager).mockImplementation(() => mockDbManager as unknown as DatabaseManager);
@@ -151,6 +177,41 @@ describe('MediaScanner', () => {
     expect(mockDbManager.addMediaBatch).not.toHaveBeenCalled();
   });
 
+  it('should scan configured directories with the filesystem scanner on any platform', async () => {
+    Object.defineProperty(process, 'platform', { value: 'linux' });
+    mediaScanner = new MediaScanner(mockDbManager as unknown as DatabaseManager, { roots: ['/exports/library'] });
+
+    await mediaScanner.scanLibrary();
+
+    expect(vi.mocked(FilesystemScanner).mock.instances[0].scan).toHaveBeenCalledWith(['/exports/library']);
+    expect(mockedSpawn).not.toHaveBeenCalled();
+  });
+
+  it('should read a copied Photos library and add its assets with their file paths', async () => {
+    Object.defineProperty(process, 'platform', { value: 'linux' });
+    vi.mocked(PhotosLibraryReader).prototype.readAssets = vi.fn().mockReturnValue([
+      {
+        ...mockSwiftAssets[0],
+        localIdentifier: 'UUID-1/L0/001',
+        originalPath: '/copies/Photos Library.photoslibrary/originals/A/UUID-1.jpeg',
+        isFavorite: true,
+        isHidden: false,
+      },
+    ]);
+    mediaScanner = new MediaScanner(mockDbManager as unknown as DatabaseManager, { photosLibrary: '/copies/Photos Library.photoslibrary' });
+
+    await mediaScanner.scanLibrary();
+
+    expect(PhotosLibraryReader).toHaveBeenCalledWith('/copies/Photos Library.photoslibrary');
+    expect(mockDbManager.addMediaBatch.mock.calls[0][0][0]).toMatchObject({
+      id: 'UUID-1/L0/001',
+      original_path: '/copies/Photos Library.photoslibrary/originals/A/UUID-1.jpeg',
+      is_favorite: true,
+      is_hidden: false,
+    });
+    expect(mockedSpawn).not.toHaveBeenCalled();
+  });
+
   it('should reject if Swift executable does not exist or is not executable', async () => {
     vi.mocked(fs.accessSync).mockImplementation(() => { throw new Error('Access denied'); });
     // No need to re-instantiate, check happens in scanLibrary
@@ -181,7 +242,7 @@ describe('MediaScanner', () => {
     expect(addedItems[0]).toMatchObject({
         id: 'ID1',
         media_type: 'photo',
-        mime_type: 'public.jpeg',
+        mime_type: 'image/jpeg',
         original_name: 'image1.jpg',
         original_path: 'urn:apple:photos:library:asset:ID1',
         creation_date: '2024-01-01T10:00:00.000Z',
@@ -192,7 +253,7 @@ describe('MediaScanner', () => {
      expect(addedItems[1]).toMatchObject({
         id: 'ID2',
         media_type: 'video',
-        mime_type: 'com.apple.quicktime-movie',
+        mime_type: 'video/quicktime',
         original_name: 'video1.mov',
         original_path: 'urn:apple:photos:library:asset:ID2',
         creation_date: '2024-01-02T12:00:00.000Z',
@@ -208,8 +269,24 @@ describe('MediaScanner', () => {
     const mockProcess = createMockProcess(mockSwiftOutput);
     mockedSpawn.mockReturnValue(mockProcess);
 
+    // Stored row matching what the scan reports for ID1
     vi.mocked(mockDbManager.getMediaById)
-      .mockReturnValueOnce({ id: 'ID1' } as MediaItem)
+      .mockReturnValueOnce({
+        id: 'ID1',
+        media_type: 'photo',
+        mime_type: 'image/jpeg',
+        original_path: 'urn:apple:photos:library:asset:ID1',
+        original_name: 'image1.jpg',
+        size_bytes: 1024,
+        creation_date: '2024-01-01T10:00:00.000Z',
+        pixel_size: '1920x1080',
+        duration_seconds: null,
+        codec: null,
+        is_in_icloud: 0,
+        is_favorite: 0,
+        is_hidden: 0,
+        status: 'uploaded',
+      } as unknown as MediaItem)
       .mockReturnValueOnce(undefined);
 
     const scanPromise = mediaScanner.scanLibrary();
@@ -226,14 +303,141 @@ describe('MediaScanner', () => {
     expect(addedItems[0].id).toBe('ID2');
   });
 
-  it('should handle empty output from Swift process', async () => {
+  it('should update changed items and make downloaded iCloud originals uploadable again', async () => {
+    const mockProcess = createMockProcess(toNdjson([
+      { ...mockSwiftAssets[1], isInCloud: false, pixelWidth: 1920, pixelHeight: 1080 },
+    ]));
+    mockedSpawn.mockReturnValue(mockProcess);
+    vi.mocked(mockDbManager.getMediaById).mockReturnValue({
+      id: 'ID2',
+      original_path: 'urn:apple:photos:library:asset:ID2',
+      original_name: 'video1.mov',
+      mime_type: 'video/quicktime',
+      size_bytes: 512000,
+      creation_date: '2024-01-02T12:00:00.000Z',
+      pixel_size: '1280x720',
+      duration_seconds: 30.5,
+      codec: 'h264',
+      is_in_icloud: 1,
+      is_favorite: 0,
+      is_hidden: 0,
+      status: 'skipped_icloud',
+    } as unknown as MediaItem);
+
+    const scanPromise = mediaScanner.scanLibrary();
+    mockProcess.run();
+    await scanPromise;
+
+    expect(mockDbManager.updateMediaMetadata).toHaveBeenCalledWith('ID2', {
+      pixel_size: '1920x1080',
+      is_in_icloud: false,
+      status: 'pending',
+    });
+    expect(mockDbManager.addMediaBatch).not.toHaveBeenCalled();
+  });
+
+  it('should store Photos UTIs as MIME types, also on rows scanned before they were mapped', async () => {
+    const mockProcess = createMockProcess(mockSwiftOutput);
+    mockedSpawn.mockReturnValue(mockProcess);
+    vi.mocked(mockDbManager.getMediaById)
+      .mockReturnValueOnce({
+        id: 'ID1',
+        original_path: 'urn:apple:photos:library:asset:ID1',
+        original_name: 'image1.jpg',
+        mime_type: 'public.jpeg',
+        size_bytes: 1024,
+        creation_date: '2024-01-01T10:00:00.000Z',
+        pixel_size: '1920x1080',
+        is_in_icloud: 0,
+        is_favorite: 0,
+        is_hidden: 0,
+        status: 'pending',
+      } as unknown as MediaItem)
+      .mockReturnValueOnce(undefined);
+
+    const scanPromise = mediaScanner.scanLibrary();
+    mockProcess.run();
+    await scanPromise;
+
+    // Visual hashing and uploads only know MIME types
+    expect(mockDbManager.updateMediaMetadata).toHaveBeenCalledWith('ID1', { mime_type: 'image/jpeg' });
+    expect(mockDbManager.addMediaBatch.mock.calls[0][0][0]).toMatchObject({ id: 'ID2', mime_type: 'video/quicktime' });
+  });
+
+  it('should clear the content hash of an item whose file changed', async () => {
+    const mockProcess = createMockProcess(toNdjson([{ ...mockSwiftAssets[0], sizeBytes: 2048 }]));
+    mockedSpawn.mockReturnValue(mockProcess);
+    vi.mocked(mockDbManager.getMediaById).mockReturnValue({
+      id: 'ID1',
+      original_path: '/Volumes/Photos/image1.jpg',
+      original_name: 'image1.jpg',
+      mime_type: 'image/jpeg',
+      size_bytes: 1024,
+      creation_date: '2024-01-01T10:00:00.000Z',
+      pixel_size: '1920x1080',
+      is_in_icloud: 0,
+      is_favorite: 0,
+      is_hidden: 0,
+      sha256_hash: 'stale-hash',
+      visual_hash: 'phash:0123456789abcdef',
+      status: 'pending',
+    } as unknown as MediaItem);
+
+    const scanPromise = mediaScanner.scanLibrary();
+    mockProcess.run();
+    await scanPromise;
+
+    // Strict so the cleared hashes have to be passed explicitly
+    expect(mockDbManager.updateMediaMetadata.mock.calls[0]).toStrictEqual([
+      'ID1',
+      { size_bytes: 2048, sha256_hash: undefined, visual_hash: undefined },
+    ]);
+  });
+
+  it('should mark items missing from the library as removed, leaving filesystem items alone', async () => {
+    const mockProcess = createMockProcess(mockSwiftOutput);
+    mockedSpawn.mockReturnValue(mockProcess);
+    vi.mocked(mockDbManager.getAllMediaIds).mockReturnValue(['ID1', 'ID2', 'DELETED', 'fs:0123456789abcdef0123456789abcdef']);
+    vi.mocked(mockDbManager.markRemovedFromSource).mockReturnValue(1);
+
+    const scanPromise = mediaScanner.scanLibrary();
+    mockProcess.run();
+    await scanPromise;
+
+    expect(mockDbManager.markRemovedFromSource).toHaveBeenCalledWith(['DELETED']);
+  });
+
+  it('should not mark anything as removed when Photos access is limited to selected assets', async () => {
+    const mockProcess = createMockProcess(toNdjson(mockSwiftAssets.slice(0, 1), { limited: true }));
+    mockedSpawn.mockReturnValue(mockProcess);
+    vi.mocked(mockDbManager.getAllMediaIds).mockReturnValue(['ID1', 'ID2']);
+
+    const scanPromise = mediaScanner.scanLibrary();
+    mockProcess.run();
+    await scanPromise;
+
+    expect(mockDbManager.addMediaBatch).toHaveBeenCalledTimes(1);
+    expect(mockDbManager.markRemovedFromSource).not.toHaveBeenCalled();
+  });
+
+  it('should not mark anything as removed when a library read returns no assets', async () => {
+    vi.mocked(PhotosLibraryReader).prototype.readAssets = vi.fn().mockReturnValue([]);
+    vi.mocked(mockDbManager.getAllMediaIds).mockReturnValue(['ID1']);
+    mediaScanner = new MediaScanner(mockDbManager as unknown as DatabaseManager, { photosLibrary: '/copies/Empty.photoslibrary' });
+
+    await mediaScanner.scanLibrary();
+
+    expect(mockDbManager.markRemovedFromSource).not.toHaveBeenCalled();
+  });
+
+  it('should reject empty output from the Swift process', async () => {
     const mockProcess = createMockProcess('');
     mockedSpawn.mockReturnValue(mockProcess);
 
     const scanPromise = mediaScanner.scanLibrary();
     mockProcess.run();
 
-    await expect(scanPromise).resolves.toBeUndefined();
+    await expect(scanPromise).rejects.toThrow(/without sending a handshake/);
     expect(mockedSpawn).toHaveBeenCalledTimes(1);
     expect(mockDbManager.getMediaById).not.toHaveBeenCalled();
     expect(mockDbManager.addMediaBatch).not.toHaveBeenCalled();
@@ -246,7 +450,7 @@ describe('MediaScanner', () => {
     const scanPromise = mediaScanner.scanLibrary();
     mockProcess.run();
 
-    await expect(scanPromise).rejects.toThrow(/Swift process exited with non-zero code 1/);
+    await expect(scanPromise).rejects.toThrow(/exited with non-zero code 1/);
     expect(mockedSpawn).toHaveBeenCalledTimes(1);
     expect(mockDbManager.addMediaBatch).not.toHaveBeenCalled();
   });
@@ -265,16 +469,58 @@ describe('MediaScanner', () => {
       // mockProcess.run() might not even get called if spawn fails
   });
 
-  it('should reject if JSON parsing fails', async () => {
-      const mockProcess = createMockProcess('invalid json');
+  it('should quarantine invalid records and keep reading', async () => {
+      const lines = toNdjson(mockSwiftAssets).split('\n');
+      const { originalFilename, ...renamed } = mockSwiftAssets[0];
+      const invalidAsset = JSON.stringify({ type: 'asset', asset: { ...renamed, localIdentifier: 'ID3', filename: originalFilename } });
+      const mockProcess = createMockProcess([lines[0], 'invalid json', invalidAsset, ...lines.slice(1)].join('\n'));
       mockedSpawn.mockReturnValue(mockProcess);
 
       const scanPromise = mediaScanner.scanLibrary();
       mockProcess.run();
 
-      await expect(scanPromise).rejects.toThrow(/JSON parse error/);
-      expect(mockedSpawn).toHaveBeenCalledTimes(1);
-      expect(mockDbManager.addMediaBatch).not.toHaveBeenCalled();
+      await expect(scanPromise).resolves.toBeUndefined();
+      expect(mockDbManager.addMediaBatch.mock.calls[0][0].map((item: MediaItem) => item.id)).toEqual(['ID1', 'ID2']);
+      expect(mockDbManager.addQuarantinedRecord).toHaveBeenCalledTimes(2);
+      expect(mockDbManager.addQuarantinedRecord).toHaveBeenCalledWith({
+        source: 'MediaScannerMac',
+        local_identifier: undefined,
+        reason: expect.stringMatching(/Invalid JSON/),
+        payload: 'invalid json',
+      });
+      expect(mockDbManager.addQuarantinedRecord).toHaveBeenCalledWith(expect.objectContaining({
+        local_identifier: 'ID3',
+        reason: expect.stringMatching(/missing field "originalFilename".*unknown field "filename"/),
+        payload: invalidAsset,
+      }));
+  });
+
+  it('should commit streamed assets in chunks', async () => {
+    const assets = Array.from({ length: 2500 }, (_, index) => ({ ...mockSwiftAssets[0], localIdentifier: `ASSET-${index}` }));
+    const progress = JSON.stringify({ type: 'progress', processed: 1000, total: 2500 });
+    const [hello, ...lines] = toNdjson(assets).split('\n');
+    const mockProcess = createMockProcess([hello, progress, ...lines].join('\n'));
+    mockedSpawn.mockReturnValue(mockProcess);
+
+    const scanPromise = mediaScanner.scanLibrary();
+    mockProcess.run();
+    await scanPromise;
+
+    expect(mockDbManager.addMediaBatch.mock.calls.map((call: any[]) => call[0].length)).toEqual([1000, 1000, 500]);
+    expect(mockDbManager.markRemovedFromSource).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not mark anything as removed if the scanner stops without finishing', async () => {
+    const mockProcess = createMockProcess(toNdjson(mockSwiftAssets, { done: false }));
+    mockedSpawn.mockReturnValue(mockProcess);
+    vi.mocked(mockDbManager.getAllMediaIds).mockReturnValue(['ID1', 'ID2', 'OTHER']);
+
+    const scanPromise = mediaScanner.scanLibrary();
+    mockProcess.run();
+    await scanPromise;
+
+    expect(mockDbManager.addMediaBatch).toHaveBeenCalledTimes(1);
+    expect(mockDbManager.markRemovedFromSource).not.toHaveBeenCalled();
   });
 
 }); 
\ No newline at end of file
@@ -1,38 +1,45 @@
-import { spawn } from 'child_process';
 import path from 'path';
 import fs from 'fs'; // Needed for existsSync
 import { DatabaseManager, MediaItem } from '../utils/database';
 import { createLogger } from '../utils/logger'; // Import createLogger
+import { FILESYSTEM_ID_PREFIX, FilesystemScanner } from './FilesystemScanner';
+import { PhotosLibraryReader } from './PhotosLibraryReader';
+import { InvalidScannerOutput, readScannerMessages } from './ScannerBridge';
+import { LibraryAsset } from './types';
+import { mimeTypeForUti } from './mimeTypes';
+import { diffScannedMetadata } from './rescan';
 
 const logger = createLogger('MediaScanner'); // Create a logger instance for this module
 
 const swiftExecutableName = 'MediaScannerMac';
 // Construct the path relative to the project root (where package.json is)
-const swiftExecutablePath = path.join(process.cwd(), 'bin', swiftExecutableName);
-
-// Type mirroring the Swift struct output
-// Ensure this matches the Swift JSONEncoder output accurately
-interface SwiftMediaItem {
-  localIdentifier: string;
-  originalPath: string | null;
-  originalFilename: string | null;
-  uti: string | null;
-  creationDate: string | null; // ISO 8601 formatted string
-  modificationDate: string | null; // ISO 8601 formatted string
-  sizeBytes: number | null;
-  pixelWidth: number | null;
-  pixelHeight: number | null;
-  isInCloud: boolean;
-  mediaType: 'photo' | 'video';
-  durationSeconds: number | null;
-  codec: string | null;
+export const swiftExecutablePath = path.join(process.cwd(), 'bin', swiftExecutableName);
+// Assets committed to the database per transaction while a scan is streaming in
+const SCAN_COMMIT_CHUNK_SIZE = 1000;
+// Longest scanner output line stored in the quarantine table
+const MAX_QUARANTINE_PAYLOAD_CHARS = 16 * 1024;
+
+interface ScanResults {
+  addedCount: number;
+  updatedCount: number;
+  skippedCount: number;
+  removedCount: number;
+}
+
+export interface MediaScannerOptions {
+  roots?: string[]; // Directories to scan with the filesystem scanner instead of Apple Photos
+  photosLibrary?: string; // Copied .photoslibrary bundle to read directly instead of running the Swift helper
 }
 
 export class MediaScanner {
   private dbManager: DatabaseManager;
+  private roots: string[];
+  private photosLibrary?: string;
 
-  constructor(dbManager: DatabaseManager) {
+  constructor(dbManager: DatabaseManager, options: MediaScannerOptions = {}) {
     this.dbManager = dbManager;
+    this.roots = options.roots ?? [];
+    this.photosLibrary = options.photosLibrary;
     logger.info(`MediaScanner initialized.`);
     if (!fs.existsSync(swiftExecutablePath)) {
       logger.warn(`Swift executable NOT FOUND at: ${swiftExecutablePath}`);
@@ -44,14 +51,27 @@ export class MediaScanner {
 
   /**
    * Scans the user's photo library.
-   * On macOS, it runs the Swift helper tool.
-   * On other platforms, it currently does nothing (pending Windows/Linux implementation).
+   * A configured Photos library bundle is read from its Photos.sqlite and root directories are
+   * walked with the filesystem scanner (both work on any platform).
+   * Otherwise, on macOS, it runs the Swift helper tool.
    */
   async scanLibrary(): Promise<void> {
+    if (this.photosLibrary || this.roots.length > 0) {
+      if (this.photosLibrary) {
+        const items = new PhotosLibraryReader(this.photosLibrary).readAssets();
+        const results = await this.addItemsToDatabase(items);
+        const removedCount = this.markRemovedAssets(new Set(items.map((item) => item.localIdentifier)));
+        logScanResults({ ...results, removedCount });
+      }
+      if (this.roots.length > 0) {
+        await new FilesystemScanner(this.dbManager).scan(this.roots);
+      }
+      return;
+    }
+
     // Basic OS check - only run Swift on macOS
     if (process.platform !== 'darwin') {
-      logger.warn('Media scanning via Swift is only supported on macOS. Skipping scan.');
-      // TODO: Implement Windows/Linux scanning logic later (Task 2.4.3)
+      logger.warn('Media scanning via Swift is only supported on macOS and no scan directories were given. Skipping scan.');
       return Promise.resolve(); // Resolve successfully, as this isn't an error for non-macOS
     }
 
@@ -60,109 +80,131 @@ export class MediaScanner {
   }
 
   /**
-   * Executes the Swift scanner process and handles its output.
+   * Executes the Swift scanner process and streams its output into the database.
    */
-  private executeSwiftScanner(): Promise<void> {
-     return new Promise((resolve, reject) => {
-      logger.info(`Starting Swift media scanner: ${swiftExecutablePath}`);
-
-      // Check if executable exists and is executable
-      try {
-        fs.accessSync(swiftExecutablePath, fs.constants.X_OK);
-      } catch (err) {
-        const errorMsg = `Swift executable not found or not executable at ${swiftExecutablePath}. Please run 'npm run build:swift'.`;
-        logger.error(errorMsg, err);
-        return reject(new Error(errorMsg));
-      }
-
-      const swiftProcess = spawn(swiftExecutablePath, [], { stdio: ['ignore', 'pipe', 'pipe'] });
+  private async executeSwiftScanner(): Promise<void> {
+    logger.info(`Starting Swift media scanner: ${swiftExecutablePath}`);
 
-      let stdoutData = '';
-      let stderrData = '';
-
-      swiftProcess.stdout.on('data', (data) => {
-        stdoutData += data.toString();
-      });
+    // Check if executable exists and is executable
+    try {
+      fs.accessSync(swiftExecutablePath, fs.constants.X_OK);
+    } catch (err) {
+      const errorMsg = `Swift executable not found or not executable at ${swiftExecutablePath}. Please run 'npm run build:swift'.`;
+      logger.error(errorMsg, err);
+      throw new Error(errorMsg);
+    }
 
-      swiftProcess.stderr.on('data', (data) => {
-        const logMsg = data.toString().trim();
-        if (logMsg) {
-          logger.info(`[Swift STERR]: ${logMsg}`);
-          stderrData += logMsg + '\n';
-        }
-      });
+    const results: ScanResults = { addedCount: 0, updatedCount: 0, skippedCount: 0, removedCount: 0 };
+    const scannedIds = new Set<string>();
+    let chunk: LibraryAsset[] = [];
+    let completed = false;
+    let limited = false;
+    let scannerName = swiftExecutableName;
+    let quarantinedCount = 0;
 
-      swiftProcess.on('error', (err) => {
-        logger.error(`Failed to start Swift process: ${err.message}`);
-        reject(err);
-      });
+    // Records that fail validation are kept aside instead of inserted or aborting the scan
+    const quarantine = (output: InvalidScannerOutput) => {
+      try {
+        this.dbManager.addQuarantinedRecord({
+          source: scannerName,
+          local_identifier: output.localIdentifier,
+          reason: output.reason,
+          payload: output.line.substring(0, MAX_QUARANTINE_PAYLOAD_CHARS),
+        });
+        quarantinedCount++;
+      } catch (error: any) {
+        logger.error(`Failed to quarantine scanner output on line ${output.lineNumber}: ${error.message}`);
+      }
+    };
 
-      swiftProcess.on('close', async (code) => {
-        logger.info(`Swift process finished with code ${code}`);
+    // Each chunk is inserted in its own transaction, so a failed scan keeps what it already read
+    const commitChunk = async () => {
+      if (chunk.length === 0) {
+        return;
+      }
+      const chunkResults = await this.addItemsToDatabase(chunk);
+      results.addedCount += chunkResults.addedCount;
+      results.updatedCount += chunkResults.updatedCount;
+      results.skippedCount += chunkResults.skippedCount;
+      chunk = [];
+    };
 
-        if (code !== 0) {
-          const errorMsg = `Swift process exited with non-zero code ${code}. Stderr: ${stderrData || 'None'}`;
-          logger.error(errorMsg);
-          return reject(new Error(errorMsg));
+    try {
+      for await (const message of readScannerMessages(swiftExecutablePath, [], { onInvalidOutput: quarantine })) {
+        switch (message.type) {
+          case 'hello':
+            scannerName = message.scanner;
+            break;
+          case 'asset':
+            scannedIds.add(message.asset.localIdentifier);
+            chunk.push(message.asset);
+            if (chunk.length >= SCAN_COMMIT_CHUNK_SIZE) {
+              await commitChunk();
+            }
+            break;
+          case 'progress':
+            logger.info(`Scanned ${message.processed}/${message.total} assets`);
+            break;
+          case 'log':
+            logger[message.level](`[Swift]: ${message.message}`);
+            break;
+          case 'done':
+            completed = true;
+            limited = message.limited;
+            if (message.count !== scannedIds.size) {
+              logger.warn(`Swift scanner reported ${message.count} assets but ${scannedIds.size} were received`);
+            }
+            break;
         }
+      }
+      await commitChunk();
+    } catch (error: any) {
+      logger.error(`Swift scan failed after ${scannedIds.size} assets: ${error.message}`);
+      throw error;
+    }
 
-        if (!stdoutData) {
-          logger.warn('Swift process produced no output (stdout). Assuming no media items found.');
-          return resolve(); // No data isn't necessarily an error
-        }
+    if (quarantinedCount > 0) {
+      logger.warn(`${quarantinedCount} invalid scanner records were quarantined. Run 'status' for details.`);
+    }
 
-        try {
-          logger.info(`Received ${stdoutData.length} bytes of stdout data. Attempting to parse JSON...`);
-          const items: SwiftMediaItem[] = JSON.parse(stdoutData);
-          logger.info(`Successfully parsed ${items.length} media items from Swift process.`);
-
-          // Add items to the database
-          const results = await this.addItemsToDatabase(items);
-          logger.info(`Database update complete. Added: ${results.addedCount}, Updated: ${results.updatedCount}, Skipped/Existing: ${results.skippedCount}`);
-          resolve();
-
-        } catch (parseError: any) {
-          logger.error(`Failed to parse JSON output from Swift process: ${parseError.message}`);
-          logger.debug('Raw stdout data on parse failure (first 1KB):\n', stdoutData.substring(0, 1000));
-          reject(new Error(`JSON parse error: ${parseError.message}`));
-        }
-      });
-    });
+    // Without the done message the asset list may be incomplete, and with limited access it only
+    // holds the assets the user selected
+    if (!completed) {
+      logger.warn('Swift scanner exited without reporting a complete scan. Skipping removed asset detection.');
+    } else if (limited) {
+      logger.warn('Photos access is limited to selected assets. Skipping removed asset detection.');
+    } else {
+      results.removedCount = this.markRemovedAssets(scannedIds);
+    }
+    logScanResults(results);
   }
 
   /**
-   * Adds or updates media items in the database based on the scanned data.
+   * Adds new media items to the database and refreshes the metadata of known ones.
    */
-  private async addItemsToDatabase(items: SwiftMediaItem[]): Promise<{ addedCount: number; updatedCount: number; skippedCount: number }> {
+  private async addItemsToDatabase(items: LibraryAsset[]): Promise<Omit<ScanResults, 'removedCount'>> {
     let addedCount = 0;
     let updatedCount = 0;
     let skippedCount = 0;
 
     // Ensure the database is initialized before proceeding
     // Calling initialize() is idempotent, so it's safe to call even if already initialized.
-    if (!this.dbManager.initialize()) {
+    if (!(await this.dbManager.initialize())) {
         logger.error('Database initialization failed. Cannot add media items.');
         throw new Error('DatabaseManager failed to initialize.');
     }
 
     const itemsToAdd: Omit<MediaItem, 'retry_count'>[] = [];
-    const itemsToSkip: string[] = []; // Store IDs of items already existing
+    const itemsToSkip: string[] = []; // Store IDs of items already existing and unchanged
 
     for (const item of items) {
       try {
-        // Check if the item already exists before transforming
-        const existingItem = this.dbManager.getMediaById(item.localIdentifier);
-        if (existingItem) {
-            itemsToSkip.push(item.localIdentifier);
-            continue; // Move to the next item
-        }
-
-        // Transform Swift item to DB schema (only if it doesn't exist)
+        // Transform scanned item to DB schema
         const mediaData: Omit<MediaItem, 'retry_count'> = {
           id: item.localIdentifier,
           media_type: item.mediaType,
-          mime_type: item.uti ?? 'application/octet-stream',
-          original_path: `urn:apple:photos:library:asset:${item.localIdentifier}`,
+          mime_type: mimeTypeForUti(item.uti),
+          original_path: item.originalPath ?? `urn:apple:photos:library:asset:${item.localIdentifier}`,
           local_copy_path: undefined, // Ensure it's undefined if null
           original_name: item.originalFilename ?? 'unknown_filename',
           size_bytes: item.sizeBytes ?? undefined,
@@ -178,11 +220,26 @@ export class MediaScanner {
           google_photos_id: undefined,
           error_message: undefined,
           is_in_icloud: item.isInCloud, // Add the isInCloud property from Swift
+          is_favorite: item.isFavorite ?? false,
+          is_hidden: item.isHidden ?? false,
         };
-        itemsToAdd.push(mediaData);
+
+        const existingItem = this.dbManager.getMediaById(item.localIdentifier);
+        if (!existingItem) {
+          itemsToAdd.push(mediaData);
+          continue;
+        }
+
+        const changes = diffScannedMetadata(existingItem, mediaData, item.originalPath !== null);
+        if (changes) {
+          this.dbManager.updateMediaMetadata(item.localIdentifier, changes);
+          updatedCount++;
+        } else {
+          itemsToSkip.push(item.localIdentifier);
+        }
 
       } catch (dbError: any) {
-        // Error during check or transformation (less likely)
+        // Error during check, transformation or update
         logger.error(`Failed to process media item ${item.localIdentifier} before DB add: ${dbError.message}`, { error: dbError });
         skippedCount++; // Count as skipped on error too
       }
@@ -204,10 +261,35 @@ export class MediaScanner {
     
     skippedCount += itemsToSkip.length; // Add count of pre-existing items
     if (itemsToSkip.length > 0) {
-        logger.info(`${itemsToSkip.length} media items already existed in the database.`);
+        logger.info(`${itemsToSkip.length} media items already existed in the database unchanged.`);
     }
 
-    // updatedCount remains 0 as we are not updating existing items yet
     return { addedCount, updatedCount, skippedCount };
   }
-} 
\ No newline at end of file
+
+  /**
+   * Marks library items that are in the database but weren't in a complete scan as
+   * removed_from_source. `scannedIds` must hold every asset in the library.
+   */
+  private markRemovedAssets(scannedIds: Set<string>): number {
+    // An empty result is more likely a scan problem than an emptied library
+    if (scannedIds.size === 0) {
+      logger.warn('Scan found no assets. Skipping removed asset detection.');
+      return 0;
+    }
+
+    // Files from the filesystem scanner are checked by its own walk
+    const missingIds = this.dbManager
+      .getAllMediaIds()
+      .filter((id) => !id.startsWith(FILESYSTEM_ID_PREFIX) && !scannedIds.has(id));
+    const removedCount = this.dbManager.markRemovedFromSource(missingIds);
+    if (removedCount > 0) {
+      logger.info(`${removedCount} media items are no longer in the library and were marked as removed.`);
+    }
+    return removedCount;
+  }
+}
+
+function logScanResults(results: ScanResults): void {
+  logger.info(`Database update complete. Added: ${results.addedCount}, Updated: ${results.updatedCount}, Skipped/Existing: ${results.skippedCount}, Removed: ${results.removedCount}`);
+}
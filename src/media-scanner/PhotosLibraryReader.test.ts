@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PhotosLibraryReader } from './PhotosLibraryReader';
+
+vi.mock('../utils/logger', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+// 2024-01-01T00:00:00Z as a Core Data timestamp
+const JAN_1_2024 = 725760000;
+
+interface FixtureAsset {
+  uuid: string;
+  directory?: string | null;
+  filename?: string | null;
+  uti?: string;
+  kind?: number;
+  width?: number;
+  height?: number;
+  duration?: number;
+  favorite?: number;
+  hidden?: number;
+  trashed?: number;
+  cloudLocalState?: number;
+  originalFilename?: string;
+  originalFileSize?: number | null;
+  fileContents?: string; // Writes the original into the bundle when set
+}
+
+/**
+ * Builds a minimal .photoslibrary bundle with the Photos.sqlite tables the reader uses.
+ */
+function createLibrary(root: string, assets: FixtureAsset[], assetTable = 'ZASSET'): string {
+  const libraryPath = path.join(root, 'Photos Library.photoslibrary');
+  fs.mkdirSync(path.join(libraryPath, 'database'), { recursive: true });
+
+  const db = new Database(path.join(libraryPath, 'database', 'Photos.sqlite'));
+  db.exec(`
+    CREATE TABLE ${assetTable} (
+      Z_PK INTEGER PRIMARY KEY, ZUUID VARCHAR, ZDIRECTORY VARCHAR, ZFILENAME VARCHAR,
+      ZUNIFORMTYPEIDENTIFIER VARCHAR, ZKIND INTEGER, ZDATECREATED TIMESTAMP, ZMODIFICATIONDATE TIMESTAMP,
+      ZWIDTH INTEGER, ZHEIGHT INTEGER, ZDURATION FLOAT, ZFAVORITE INTEGER, ZHIDDEN INTEGER,
+      ZTRASHEDSTATE INTEGER, ZCLOUDLOCALSTATE INTEGER
+    );
+    CREATE TABLE ZADDITIONALASSETATTRIBUTES (
+      Z_PK INTEGER PRIMARY KEY, ZASSET INTEGER, ZORIGINALFILENAME VARCHAR, ZORIGINALFILESIZE INTEGER
+    );
+  `);
+  const insertAsset = db.prepare(`
+    INSERT INTO ${assetTable} (ZUUID, ZDIRECTORY, ZFILENAME, ZUNIFORMTYPEIDENTIFIER, ZKIND, ZDATECREATED,
+      ZMODIFICATIONDATE, ZWIDTH, ZHEIGHT, ZDURATION, ZFAVORITE, ZHIDDEN, ZTRASHEDSTATE, ZCLOUDLOCALSTATE)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertAttributes = db.prepare(`INSERT INTO ZADDITIONALASSETATTRIBUTES (ZASSET, ZORIGINALFILENAME, ZORIGINALFILESIZE) VALUES (?, ?, ?)`);
+
+  for (const asset of assets) {
+    const directory = asset.directory === undefined ? asset.uuid[0] : asset.directory;
+    const filename = asset.filename === undefined ? `${asset.uuid}.jpeg` : asset.filename;
+    const { lastInsertRowid } = insertAsset.run(
+      asset.uuid, directory, filename, asset.uti ?? 'public.jpeg', asset.kind ?? 0, JAN_1_2024, JAN_1_2024 + 60,
+      asset.width ?? 4032, asset.height ?? 3024, asset.duration ?? 0, asset.favorite ?? 0, asset.hidden ?? 0,
+      asset.trashed ?? 0, asset.cloudLocalState ?? 1
+    );
+    insertAttributes.run(lastInsertRowid, asset.originalFilename ?? 'IMG_0001.JPG', asset.originalFileSize === undefined ? 1234 : asset.originalFileSize);
+
+    if (asset.fileContents !== undefined && directory && filename) {
+      fs.mkdirSync(path.join(libraryPath, 'originals', directory), { recursive: true });
+      fs.writeFileSync(path.join(libraryPath, 'originals', directory, filename), asset.fileContents);
+    }
+  }
+  db.close();
+  return libraryPath;
+}
+
+describe('PhotosLibraryReader', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'photos-library-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should read photo metadata and the path of the original', () => {
+    const libraryPath = createLibrary(tmpDir, [{ uuid: 'A1B2', favorite: 1, fileContents: 'jpeg bytes' }]);
+
+    const [asset] = new PhotosLibraryReader(libraryPath).readAssets();
+
+    expect(asset).toEqual({
+      localIdentifier: 'A1B2/L0/001',
+      originalPath: path.join(libraryPath, 'originals', 'A', 'A1B2.jpeg'),
+      originalFilename: 'IMG_0001.JPG',
+      uti: 'public.jpeg',
+      creationDate: '2024-01-01T00:00:00.000Z',
+      modificationDate: '2024-01-01T00:01:00.000Z',
+      sizeBytes: 1234,
+      pixelWidth: 4032,
+      pixelHeight: 3024,
+      isInCloud: false,
+      mediaType: 'photo',
+      durationSeconds: null,
+      codec: null,
+      isFavorite: true,
+      isHidden: false,
+    });
+  });
+
+  it('should read videos with their duration', () => {
+    const libraryPath = createLibrary(tmpDir, [
+      { uuid: 'V1', kind: 1, filename: 'V1.mov', uti: 'com.apple.quicktime-movie', duration: 12.5, hidden: 1, fileContents: 'mov' },
+    ]);
+
+    const [asset] = new PhotosLibraryReader(libraryPath).readAssets();
+
+    expect(asset).toMatchObject({ mediaType: 'video', durationSeconds: 12.5, isHidden: true, uti: 'com.apple.quicktime-movie' });
+  });
+
+  it('should mark assets without a local original as in iCloud', () => {
+    const libraryPath = createLibrary(tmpDir, [
+      { uuid: 'C1', cloudLocalState: 0 },
+      { uuid: 'C2', directory: null, filename: null, originalFileSize: null },
+    ]);
+
+    const assets = new PhotosLibraryReader(libraryPath).readAssets();
+
+    expect(assets.map((asset) => [asset.localIdentifier, asset.isInCloud, asset.originalPath])).toEqual([
+      ['C1/L0/001', true, null],
+      ['C2/L0/001', true, null],
+    ]);
+    expect(assets[1].sizeBytes).toBeNull();
+  });
+
+  it('should skip trashed assets and unknown kinds', () => {
+    const libraryPath = createLibrary(tmpDir, [
+      { uuid: 'KEEP', fileContents: 'x' },
+      { uuid: 'TRASH', trashed: 1, fileContents: 'x' },
+      { uuid: 'OTHER', kind: 3 },
+    ]);
+
+    const assets = new PhotosLibraryReader(libraryPath).readAssets();
+
+    expect(assets.map((asset) => asset.localIdentifier)).toEqual(['KEEP/L0/001']);
+  });
+
+  it('should read libraries that use the older ZGENERICASSET table', () => {
+    const libraryPath = createLibrary(tmpDir, [{ uuid: 'OLD', fileContents: 'x' }], 'ZGENERICASSET');
+
+    const assets = new PhotosLibraryReader(libraryPath).readAssets();
+
+    expect(assets).toHaveLength(1);
+    expect(assets[0].isInCloud).toBe(false);
+  });
+
+  it('should throw if the path is not a Photos library', () => {
+    expect(() => new PhotosLibraryReader(tmpDir).readAssets()).toThrow(/Photos database not found/);
+  });
+});
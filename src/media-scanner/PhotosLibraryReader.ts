@@ -0,0 +1,155 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { createLogger } from '../utils/logger';
+import { LibraryAsset } from './types';
+
+const logger = createLogger('PhotosLibraryReader');
+
+// Core Data stores dates as seconds since 2001-01-01T00:00:00Z
+const CORE_DATA_EPOCH_MS = Date.UTC(2001, 0, 1);
+
+// ZKIND values
+const KIND_PHOTO = 0;
+const KIND_VIDEO = 1;
+
+// Columns that older or newer library versions may not have; they are read as NULL when missing
+const OPTIONAL_ASSET_COLUMNS = ['ZUNIFORMTYPEIDENTIFIER', 'ZTRASHEDSTATE', 'ZCLOUDLOCALSTATE', 'ZMODIFICATIONDATE', 'ZDURATION'];
+
+interface AssetRow {
+  uuid: string;
+  directory: string | null;
+  filename: string | null;
+  uti: string | null;
+  kind: number;
+  dateCreated: number | null;
+  modificationDate: number | null;
+  width: number | null;
+  height: number | null;
+  duration: number | null;
+  favorite: number | null;
+  hidden: number | null;
+  cloudLocalState: number | null;
+  originalFilename: string | null;
+  originalFileSize: number | null;
+}
+
+/**
+ * Reads asset metadata straight from a `.photoslibrary` bundle's `database/Photos.sqlite`,
+ * so a copied library can be migrated without Photos.framework (and from any OS).
+ * Supports the Photos 5+ layout, where originals live under `originals/<directory>/<filename>`.
+ */
+export class PhotosLibraryReader {
+  private libraryPath: string;
+
+  constructor(libraryPath: string) {
+    this.libraryPath = path.resolve(libraryPath);
+  }
+
+  /**
+   * Returns all photos and videos in the library that are not in the trash.
+   */
+  readAssets(): LibraryAsset[] {
+    const dbPath = path.join(this.libraryPath, 'database', 'Photos.sqlite');
+    if (!fs.existsSync(dbPath)) {
+      throw new Error(`Photos database not found at ${dbPath}. Is ${this.libraryPath} a .photoslibrary bundle?`);
+    }
+
+    logger.info(`Reading Photos library: ${this.libraryPath}`);
+    const db = new Database(dbPath, { readonly: true, fileMustExist: true });
+    try {
+      const rows = db.prepare(this.buildQuery(db)).all() as AssetRow[];
+      const assets = rows
+        .filter((row) => row.kind === KIND_PHOTO || row.kind === KIND_VIDEO)
+        .map((row) => this.toAsset(row));
+      const cloudOnly = assets.filter((asset) => asset.isInCloud).length;
+      logger.info(`Read ${assets.length} assets from Photos library (${cloudOnly} without a local original)`);
+      return assets;
+    } finally {
+      db.close();
+    }
+  }
+
+  private buildQuery(db: Database.Database): string {
+    // macOS 11 renamed ZGENERICASSET to ZASSET
+    const assetTable = this.hasTable(db, 'ZASSET') ? 'ZASSET' : this.hasTable(db, 'ZGENERICASSET') ? 'ZGENERICASSET' : null;
+    if (!assetTable) {
+      throw new Error('Unsupported Photos library: no asset table found in Photos.sqlite');
+    }
+
+    const assetColumns = new Set((db.prepare(`PRAGMA table_info(${assetTable})`).all() as { name: string }[]).map((col) => col.name));
+    const optional = (column: string) => (assetColumns.has(column) ? `a.${column}` : 'NULL');
+    OPTIONAL_ASSET_COLUMNS.filter((column) => !assetColumns.has(column)).forEach((column) =>
+      logger.debug(`Column ${assetTable}.${column} not present; reading it as NULL`)
+    );
+    const notTrashed = assetColumns.has('ZTRASHEDSTATE') ? 'WHERE COALESCE(a.ZTRASHEDSTATE, 0) = 0' : '';
+
+    return `
+      SELECT
+        a.ZUUID AS uuid,
+        a.ZDIRECTORY AS directory,
+        a.ZFILENAME AS filename,
+        ${optional('ZUNIFORMTYPEIDENTIFIER')} AS uti,
+        a.ZKIND AS kind,
+        a.ZDATECREATED AS dateCreated,
+        ${optional('ZMODIFICATIONDATE')} AS modificationDate,
+        a.ZWIDTH AS width,
+        a.ZHEIGHT AS height,
+        ${optional('ZDURATION')} AS duration,
+        a.ZFAVORITE AS favorite,
+        a.ZHIDDEN AS hidden,
+        ${optional('ZCLOUDLOCALSTATE')} AS cloudLocalState,
+        attr.ZORIGINALFILENAME AS originalFilename,
+        attr.ZORIGINALFILESIZE AS originalFileSize
+      FROM ${assetTable} a
+      LEFT JOIN ZADDITIONALASSETATTRIBUTES attr ON attr.ZASSET = a.Z_PK
+      ${notTrashed}
+      ORDER BY a.Z_PK
+    `;
+  }
+
+  private toAsset(row: AssetRow): LibraryAsset {
+    const filePath = row.directory && row.filename ? path.join(this.libraryPath, 'originals', row.directory, row.filename) : null;
+    const stats = filePath ? statIfExists(filePath) : undefined;
+    if (!stats && row.cloudLocalState === 1) {
+      logger.warn(`Original for asset ${row.uuid} is marked as local but missing: ${filePath}`);
+    }
+
+    return {
+      // Same form as PHAsset.localIdentifier, so items scanned either way share an ID
+      localIdentifier: `${row.uuid}/L0/001`,
+      originalPath: stats ? filePath : null,
+      originalFilename: row.originalFilename ?? row.filename,
+      uti: row.uti,
+      creationDate: fromCoreDataTimestamp(row.dateCreated),
+      modificationDate: fromCoreDataTimestamp(row.modificationDate),
+      sizeBytes: row.originalFileSize ?? stats?.size ?? null,
+      pixelWidth: row.width || null,
+      pixelHeight: row.height || null,
+      // Without a local original there is nothing to upload until Photos downloads it
+      isInCloud: !stats,
+      mediaType: row.kind === KIND_VIDEO ? 'video' : 'photo',
+      durationSeconds: row.kind === KIND_VIDEO && row.duration ? row.duration : null,
+      codec: null,
+      isFavorite: row.favorite === 1,
+      isHidden: row.hidden === 1,
+    };
+  }
+
+  private hasTable(db: Database.Database, name: string): boolean {
+    return db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`).get(name) !== undefined;
+  }
+}
+
+function fromCoreDataTimestamp(seconds: number | null): string | null {
+  return seconds === null ? null : new Date(CORE_DATA_EPOCH_MS + seconds * 1000).toISOString();
+}
+
+function statIfExists(filePath: string): fs.Stats | undefined {
+  try {
+    const stats = fs.statSync(filePath);
+    return stats.isFile() ? stats : undefined;
+  } catch {
+    return undefined;
+  }
+}
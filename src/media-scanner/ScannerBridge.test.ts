@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { InvalidScannerOutput, ScannerMessage, parseScannerMessage, readScannerMessages } from './ScannerBridge';
+
+vi.mock('../utils/logger', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+const FAKE_SCANNER = path.join(process.cwd(), 'scripts', 'fake-media-scanner.mjs');
+
+// Runs the fake scanner (same protocol as the Swift binary) and collects its messages
+const runFakeScanner = async (args: string[], onInvalidOutput?: (output: InvalidScannerOutput) => void): Promise<ScannerMessage[]> => {
+  const messages: ScannerMessage[] = [];
+  for await (const message of readScannerMessages(process.execPath, [FAKE_SCANNER, ...args], { onInvalidOutput })) {
+    messages.push(message);
+  }
+  return messages;
+};
+
+const VALID_ASSET = {
+  localIdentifier: 'A/L0/001',
+  originalPath: null,
+  originalFilename: 'IMG_0001.JPG',
+  uti: 'public.jpeg',
+  creationDate: '2024-01-01T00:00:00.000Z',
+  modificationDate: null,
+  sizeBytes: 1024,
+  pixelWidth: 10,
+  pixelHeight: 10,
+  isInCloud: false,
+  mediaType: 'photo',
+  durationSeconds: null,
+  codec: null,
+};
+
+describe('ScannerBridge', () => {
+  describe('parseScannerMessage', () => {
+    it('should parse each message type', () => {
+      expect(parseScannerMessage('{"type":"progress","processed":1,"total":2}')).toEqual({ type: 'progress', processed: 1, total: 2 });
+      expect(parseScannerMessage('{"type":"log","level":"warn","message":"limited access"}').type).toBe('log');
+      expect(parseScannerMessage('{"type":"done","count":0,"limited":false}').type).toBe('done');
+      expect(parseScannerMessage('{"type":"hello","protocolVersion":1,"scanner":"MediaScannerMac"}').type).toBe('hello');
+      expect(parseScannerMessage(JSON.stringify({ type: 'asset', asset: VALID_ASSET })).type).toBe('asset');
+    });
+
+    it('should report the identifier of an invalid asset', () => {
+      const { isInCloud: _isInCloud, ...asset } = VALID_ASSET;
+      try {
+        parseScannerMessage(JSON.stringify({ type: 'asset', asset }));
+        expect.fail('Expected a ScannerProtocolError');
+      } catch (error: any) {
+        expect(error.name).toBe('ScannerProtocolError');
+        expect(error.localIdentifier).toBe('A/L0/001');
+        expect(error.message).toMatch(/missing field "isInCloud"/);
+      }
+    });
+
+    it('should reject malformed and unknown messages', () => {
+      expect(() => parseScannerMessage('{"type":"asset","asset":{}}')).toThrow(/missing field "localIdentifier"/);
+      expect(() => parseScannerMessage('{"type":"log","level":"verbose","message":"x"}')).toThrow(/level/);
+      expect(() => parseScannerMessage('{"type":"done","count":3}')).toThrow(/limited/);
+      expect(() => parseScannerMessage('{"type":"export"}')).toThrow(/Unknown scanner message type/);
+      expect(() => parseScannerMessage('{"type":"exported","localIdentifier":"A/L0/001"}')).toThrow(/path/);
+      expect(() => parseScannerMessage('[1, 2]')).toThrow();
+      expect(() => parseScannerMessage('{"type":')).toThrow(/Invalid JSON/);
+    });
+  });
+
+  describe('readScannerMessages', () => {
+    it('should stream assets, progress and log messages in order', async () => {
+      const messages = await runFakeScanner(['--assets', '5', '--progress-every', '2']);
+
+      expect(messages.map((message) => message.type)).toEqual([
+        'hello', 'log', 'asset', 'asset', 'progress', 'asset', 'asset', 'progress', 'asset', 'done',
+      ]);
+      expect(messages[2]).toMatchObject({ type: 'asset', asset: { localIdentifier: 'FAKE-00000000/L0/001', mediaType: 'photo' } });
+      expect(messages[messages.length - 1]).toEqual({ type: 'done', count: 5, limited: false });
+    });
+
+    it('should report limited Photos access in the done message', async () => {
+      const messages = await runFakeScanner(['--assets', '1', '--limited']);
+
+      expect(messages[messages.length - 1]).toEqual({ type: 'done', count: 1, limited: true });
+    });
+
+    it('should report invalid lines and keep reading', async () => {
+      const invalid: InvalidScannerOutput[] = [];
+      const messages = await runFakeScanner(['--assets', '2', '--invalid-line', '--invalid-asset'], (output) => invalid.push(output));
+
+      expect(messages.filter((message) => message.type === 'asset')).toHaveLength(2);
+      expect(invalid).toHaveLength(2);
+      expect(invalid[0]).toMatchObject({ lineNumber: 4, reason: expect.stringMatching(/Invalid JSON/), line: '{"type": "asset", "asset": {' });
+      expect(invalid[0].localIdentifier).toBeUndefined();
+      expect(invalid[1]).toMatchObject({ localIdentifier: 'FAKE-00000002/L0/001', reason: expect.stringMatching(/unknown field "filename"/) });
+    });
+
+    it('should report export results in export mode', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fake-export-'));
+      try {
+        const messages = await runFakeScanner(['--export', dir, 'A/L0/001', 'missing/L0/001']);
+
+        expect(messages.slice(1)).toEqual([
+          { type: 'exported', localIdentifier: 'A/L0/001', path: path.join(dir, 'A_L0_001.HEIC') },
+          { type: 'exportFailed', localIdentifier: 'missing/L0/001', error: 'Asset not found in the Photos library' },
+          { type: 'done', count: 1, limited: false },
+        ]);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should refuse a scanner that speaks another protocol version', async () => {
+      await expect(runFakeScanner(['--protocol-version', '1'])).rejects.toThrow(/protocol version 1, but version 3 is required/);
+    });
+
+    it('should refuse a scanner that does not start with a handshake', async () => {
+      await expect(runFakeScanner(['--no-hello'])).rejects.toThrow(/did not start with a handshake/);
+    });
+
+    it('should handle large scans', async () => {
+      let assets = 0;
+      for await (const message of readScannerMessages(process.execPath, [FAKE_SCANNER, '--assets', '20000', '--progress-every', '1000'])) {
+        if (message.type === 'asset') {
+          assets++;
+        }
+      }
+      expect(assets).toBe(20000);
+    });
+
+    it('should throw after the last message if the scanner exits with an error', async () => {
+      const messages: ScannerMessage[] = [];
+      await expect(async () => {
+        for await (const message of readScannerMessages(process.execPath, [FAKE_SCANNER, '--assets', '2', '--no-done', '--exit-code', '3'])) {
+          messages.push(message);
+        }
+      }).rejects.toThrow(/exited with non-zero code 3.*Fake scanner emitting 2 assets/s);
+      expect(messages.filter((message) => message.type === 'asset')).toHaveLength(2);
+    });
+
+    it('should throw if the scanner cannot be started', async () => {
+      await expect(async () => {
+        for await (const _message of readScannerMessages(path.join(process.cwd(), 'bin', 'does-not-exist'))) {
+          // Drain
+        }
+      }).rejects.toThrow(/ENOENT/);
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import { spawn } from 'child_process';
+import readline from 'readline';
+import { createLogger } from '../utils/logger';
+import { LibraryAsset } from './types';
+import { SCANNER_PROTOCOL_VERSION, validateAsset } from './assetSchema';
+
+const logger = createLogger('ScannerBridge');
+
+// Keep only the tail of stderr for error messages
+const MAX_STDERR_CHARS = 8 * 1024;
+
+/*
+ * The scanner writes newline-delimited JSON to stdout, one message per line:
+ *   {"type":"hello","protocolVersion":3,"scanner":"MediaScannerMac"}   always the first line
+ *   {"type":"asset","asset":{...}}                     one per asset, see assetSchema.ts
+ *   {"type":"progress","processed":100,"total":1500}
+ *   {"type":"log","level":"warn","message":"..."}
+ *   {"type":"done","count":1500,"limited":false}       last line of a complete scan; limited when
+ *                                                      Photos access only covers selected assets
+ *
+ * In export mode (`--export <dir> <localIdentifier>...`) asset messages are replaced by one result per identifier:
+ *   {"type":"exported","localIdentifier":"...","path":"/staging/batch/IMG_0001.HEIC"}
+ *   {"type":"exportFailed","localIdentifier":"...","error":"..."}
+ */
+export interface HelloMessage {
+  type: 'hello';
+  protocolVersion: number;
+  scanner: string;
+}
+
+export interface AssetMessage {
+  type: 'asset';
+  asset: LibraryAsset;
+}
+
+export interface ProgressMessage {
+  type: 'progress';
+  processed: number;
+  total: number;
+}
+
+export interface LogMessage {
+  type: 'log';
+  level: 'debug' | 'info' | 'warn' | 'error';
+  message: string;
+}
+
+export interface DoneMessage {
+  type: 'done';
+  count: number;
+  limited: boolean; // Photos access is limited to the assets the user selected
+}
+
+export interface ExportedMessage {
+  type: 'exported';
+  localIdentifier: string;
+  path: string;
+}
+
+export interface ExportFailedMessage {
+  type: 'exportFailed';
+  localIdentifier: string;
+  error: string;
+}
+
+export type ScannerMessage =
+  | HelloMessage
+  | AssetMessage
+  | ProgressMessage
+  | LogMessage
+  | DoneMessage
+  | ExportedMessage
+  | ExportFailedMessage;
+
+/**
+ * A line of scanner output that isn't a valid message
+ */
+export interface InvalidScannerOutput {
+  lineNumber: number;
+  line: string;
+  reason: string;
+  localIdentifier?: string; // When the line is a recognizable asset
+}
+
+export interface ReadScannerOptions {
+  // Called for each invalid line; such lines are skipped and the scan continues
+  onInvalidOutput?: (output: InvalidScannerOutput) => void;
+}
+
+/**
+ * Raised for a line that doesn't match the protocol
+ */
+export class ScannerProtocolError extends Error {
+  readonly localIdentifier?: string;
+
+  constructor(message: string, localIdentifier?: string) {
+    super(message);
+    this.name = 'ScannerProtocolError';
+    this.localIdentifier = localIdentifier;
+  }
+}
+
+const LOG_LEVELS = new Set(['debug', 'info', 'warn', 'error']);
+
+/**
+ * Parses and validates one line of scanner output. Throws a ScannerProtocolError if the line
+ * is not a valid message.
+ */
+export function parseScannerMessage(line: string): ScannerMessage {
+  let message: any;
+  try {
+    message = JSON.parse(line);
+  } catch (error: any) {
+    throw new ScannerProtocolError(`Invalid JSON: ${error.message}`);
+  }
+  if (message === null || typeof message !== 'object' || Array.isArray(message)) {
+    throw new ScannerProtocolError('Scanner message is not an object');
+  }
+
+  switch (message.type) {
+    case 'hello':
+      if (typeof message.protocolVersion !== 'number' || typeof message.scanner !== 'string') {
+        throw new ScannerProtocolError('Hello message without a protocolVersion and scanner name');
+      }
+      return message;
+    case 'asset': {
+      const problems = validateAsset(message.asset);
+      if (problems.length > 0) {
+        const localIdentifier = typeof message.asset?.localIdentifier === 'string' ? message.asset.localIdentifier : undefined;
+        throw new ScannerProtocolError(`Invalid asset: ${problems.join('; ')}`, localIdentifier);
+      }
+      return message;
+    }
+    case 'progress':
+      if (typeof message.processed !== 'number' || typeof message.total !== 'number') {
+        throw new ScannerProtocolError('Progress message without processed/total counts');
+      }
+      return message;
+    case 'log':
+      if (!LOG_LEVELS.has(message.level) || typeof message.message !== 'string') {
+        throw new ScannerProtocolError('Log message without a valid level and message');
+      }
+      return message;
+    case 'done':
+      if (typeof message.count !== 'number' || typeof message.limited !== 'boolean') {
+        throw new ScannerProtocolError('Done message without a count and limited flag');
+      }
+      return message;
+    case 'exported':
+      if (typeof message.localIdentifier !== 'string' || typeof message.path !== 'string') {
+        throw new ScannerProtocolError('Exported message without a localIdentifier and path');
+      }
+      return message;
+    case 'exportFailed':
+      if (typeof message.localIdentifier !== 'string' || typeof message.error !== 'string') {
+        throw new ScannerProtocolError('Export failure without a localIdentifier and error');
+      }
+      return message;
+    default:
+      throw new ScannerProtocolError(`Unknown scanner message type: ${JSON.stringify(message.type)}`);
+  }
+}
+
+/**
+ * Runs a scanner process and yields its messages as they arrive, so output is never held in
+ * memory as a whole. The scanner must start with a hello message for a supported protocol
+ * version. Invalid lines are reported through `onInvalidOutput` and skipped. Throws after the
+ * last message if the process fails to start or exits with a non-zero code.
+ */
+export async function* readScannerMessages(
+  command: string,
+  args: string[] = [],
+  options: ReadScannerOptions = {}
+): AsyncGenerator<ScannerMessage> {
+  const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+
+  let stderrData = '';
+  child.stderr.on('data', (data) => {
+    const logMsg = data.toString().trim();
+    if (logMsg) {
+      logger.info(`[Scanner STDERR]: ${logMsg}`);
+      stderrData = (stderrData + logMsg + '\n').slice(-MAX_STDERR_CHARS);
+    }
+  });
+
+  const exit = new Promise<number | null>((resolve, reject) => {
+    child.on('error', reject);
+    child.on('close', resolve);
+  });
+  // Handled below once stdout is drained; this only avoids an unhandled rejection meanwhile
+  exit.catch(() => undefined);
+
+  const lines = readline.createInterface({ input: child.stdout, crlfDelay: Infinity });
+  let lineNumber = 0;
+  let handshakeDone = false;
+  try {
+    for await (const line of lines) {
+      lineNumber++;
+      if (line.trim() === '') {
+        continue;
+      }
+      let message: ScannerMessage;
+      try {
+        message = parseScannerMessage(line);
+      } catch (error: any) {
+        if (!handshakeDone) {
+          throw new Error(`Scanner did not start with a valid handshake: ${error.message}`);
+        }
+        logger.warn(`Skipping invalid scanner output on line ${lineNumber}: ${error.message}`);
+        options.onInvalidOutput?.({ lineNumber, line, reason: error.message, localIdentifier: error.localIdentifier });
+        continue;
+      }
+
+      if (!handshakeDone) {
+        checkHandshake(message);
+        handshakeDone = true;
+      }
+      yield message;
+    }
+
+    const code = await exit;
+    logger.info(`Scanner process finished with code ${code}`);
+    if (code !== 0) {
+      throw new Error(`Scanner process exited with non-zero code ${code}. Stderr: ${stderrData || 'None'}`);
+    }
+    if (!handshakeDone) {
+      throw new Error('Scanner exited without sending a handshake');
+    }
+  } finally {
+    lines.close();
+    // Stop the scanner if the consumer gave up early
+    if (child.exitCode === null && child.signalCode === null) {
+      child.kill();
+    }
+  }
+}
+
+function checkHandshake(message: ScannerMessage): void {
+  if (message.type !== 'hello') {
+    throw new Error(`Scanner did not start with a handshake (first message: ${message.type}). Rebuild it with 'npm run build:swift'.`);
+  }
+  if (message.protocolVersion !== SCANNER_PROTOCOL_VERSION) {
+    throw new Error(
+      `${message.scanner} speaks protocol version ${message.protocolVersion}, but version ${SCANNER_PROTOCOL_VERSION} is required. Rebuild it with 'npm run build:swift'.`
+    );
+  }
+  logger.info(`Connected to ${message.scanner} (protocol version ${message.protocolVersion})`);
+}
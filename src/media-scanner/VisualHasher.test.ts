@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import { DecodedImage, VisualHasher, computeVisualHash, dHash, pHash, parseVisualHashAlgorithm } from './VisualHasher';
+import { hammingDistance } from '../duplicates/NearDuplicateResolver';
+import { DatabaseManager, MediaItem } from '../utils/database';
+
+vi.mock('../utils/logger', () => {
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+  return { logger, createLogger: () => logger };
+});
+
+/**
+ * Draws an RGBA test picture whose content scales with its size: diagonal bands or a circle.
+ */
+function drawImage(width: number, height: number, picture: 'bands' | 'circle'): DecodedImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const u = x / width;
+      const v = y / height;
+      const value =
+        picture === 'bands'
+          ? 128 + 127 * Math.sin((u + v) * 3 * Math.PI)
+          : (u - 0.6) ** 2 + (v - 0.4) ** 2 < 0.08 ? 230 : 40 + 60 * u;
+      data.set([value, value * 0.8, 255 - value, 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, channels: 4, data };
+}
+
+const encodeJpeg = (image: DecodedImage, quality = 90) =>
+  jpeg.encode({ width: image.width, height: image.height, data: Buffer.from(image.data) }, quality).data;
+
+const encodePng = (image: DecodedImage) => {
+  const png = new PNG({ width: image.width, height: image.height });
+  png.data = Buffer.from(image.data);
+  return PNG.sync.write(png);
+};
+
+describe('perceptual hashes', () => {
+  it('should barely change when a picture is resized', () => {
+    for (const hash of [pHash, dHash]) {
+      const large = hash(drawImage(320, 240, 'circle'));
+      const small = hash(drawImage(120, 90, 'circle'));
+
+      expect(large).toMatch(/^[0-9a-f]{16}$/);
+      expect(hammingDistance(`x:${large}`, `x:${small}`)).toBeLessThanOrEqual(4);
+    }
+  });
+
+  it('should differ a lot between different pictures', () => {
+    for (const hash of [pHash, dHash]) {
+      const circle = hash(drawImage(160, 120, 'circle'));
+      const bands = hash(drawImage(160, 120, 'bands'));
+
+      expect(hammingDistance(`x:${circle}`, `x:${bands}`)).toBeGreaterThan(16);
+    }
+  });
+
+  it('should prefix the hash with its algorithm', () => {
+    const image = drawImage(64, 64, 'bands');
+
+    expect(computeVisualHash(image)).toBe(`phash:${pHash(image)}`);
+    expect(computeVisualHash(image, 'dhash')).toBe(`dhash:${dHash(image)}`);
+    expect(() => parseVisualHashAlgorithm('ahash')).toThrow(/phash, dhash/);
+  });
+});
+
+describe('VisualHasher', () => {
+  let tmpDir: string;
+  let dbManager: DatabaseManager;
+
+  const addItem = (id: string, fileName: string, override: Partial<Omit<MediaItem, 'retry_count'>> = {}) =>
+    dbManager.addMediaItem({
+      id,
+      media_type: 'photo',
+      mime_type: 'image/jpeg',
+      original_path: path.join(tmpDir, fileName),
+      original_name: fileName,
+      status: 'pending',
+      ...override,
+    });
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'visual-hasher-'));
+    dbManager = new DatabaseManager(path.join(tmpDir, 'test.sqlite'));
+    await dbManager.initialize();
+  });
+
+  afterEach(async () => {
+    dbManager.close();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should store the visual hash and dimensions of JPEG and PNG photos', async () => {
+    const picture = drawImage(200, 150, 'circle');
+    await fs.writeFile(path.join(tmpDir, 'photo.jpg'), encodeJpeg(picture));
+    await fs.writeFile(path.join(tmpDir, 'screenshot.png'), encodePng(picture));
+    addItem('jpeg', 'photo.jpg');
+    addItem('png', 'screenshot.png', { mime_type: 'image/png', pixel_size: '4000x3000' });
+
+    const result = await new VisualHasher(dbManager).hashPending();
+
+    expect(result).toMatchObject({ hashed: 2, missing: 0, failed: 0 });
+    const jpegItem = dbManager.getMediaById('jpeg')!;
+    const pngItem = dbManager.getMediaById('png')!;
+    expect(jpegItem.visual_hash).toMatch(/^phash:[0-9a-f]{16}$/);
+    expect(hammingDistance(jpegItem.visual_hash!, pngItem.visual_hash!)).toBeLessThanOrEqual(2);
+    expect(jpegItem.pixel_size).toBe('200x150');
+    expect(pngItem.pixel_size).toBe('4000x3000'); // Reported by the scanner, so kept
+  });
+
+  it('should only hash photos in formats that can be decoded', async () => {
+    await fs.writeFile(path.join(tmpDir, 'photo.jpg'), encodeJpeg(drawImage(32, 32, 'bands')));
+    addItem('photo', 'photo.jpg');
+    addItem('hashed', 'photo.jpg', { visual_hash: 'phash:0000000000000000' });
+    addItem('video', 'clip.mp4', { media_type: 'video', mime_type: 'video/mp4' });
+    addItem('raw', 'photo.dng', { mime_type: 'image/x-adobe-dng' });
+    addItem('icloud', 'icloud.jpg', { original_path: 'urn:apple:photos:library:asset:icloud' });
+    addItem('removed', 'photo.jpg', { status: 'removed_from_source' });
+
+    const result = await new VisualHasher(dbManager).hashPending();
+
+    expect(result).toMatchObject({ hashed: 1, missing: 0, failed: 0 });
+    expect(dbManager.getMediaById('hashed')?.visual_hash).toBe('phash:0000000000000000');
+    expect(dbManager.getMediaById('video')?.visual_hash).toBeNull();
+  });
+
+  it('should leave missing and undecodable files for the next run', async () => {
+    await fs.writeFile(path.join(tmpDir, 'corrupt.jpg'), 'not a jpeg');
+    addItem('corrupt', 'corrupt.jpg');
+    addItem('gone', 'gone.png', { mime_type: 'image/png' });
+
+    const first = await new VisualHasher(dbManager, { algorithm: 'dhash' }).hashPending();
+    expect(first).toMatchObject({ hashed: 0, missing: 1, failed: 1 });
+
+    await fs.writeFile(path.join(tmpDir, 'gone.png'), encodePng(drawImage(40, 30, 'bands')));
+    const second = await new VisualHasher(dbManager, { algorithm: 'dhash' }).hashPending();
+    expect(second).toMatchObject({ hashed: 1, missing: 0, failed: 1 });
+    expect(dbManager.getMediaById('gone')?.visual_hash).toMatch(/^dhash:/);
+  });
+});
@@ -0,0 +1,294 @@
+import fs from 'fs/promises';
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import { DatabaseManager, MediaItem } from '../utils/database';
+import { createLogger } from '../utils/logger';
+import { formatThroughput } from './ContentHasher';
+
+const logger = createLogger('VisualHasher');
+
+export const VISUAL_HASH_ALGORITHMS = ['phash', 'dhash'] as const;
+
+/**
+ * Perceptual hash stored in `visual_hash`, as "<algorithm>:<16 hex digits>":
+ *   phash - signs of the low frequencies of a 32x32 DCT; tolerant of resizing, compression and small edits
+ *   dhash - brightness gradient between neighbouring pixels of a 9x8 thumbnail; cheaper, less tolerant
+ * Hashes are only compared with hashes of the same algorithm.
+ */
+export type VisualHashAlgorithm = (typeof VISUAL_HASH_ALGORITHMS)[number];
+
+export const DEFAULT_VISUAL_HASH_ALGORITHM: VisualHashAlgorithm = 'phash';
+
+export function parseVisualHashAlgorithm(value: string): VisualHashAlgorithm {
+  if (!(VISUAL_HASH_ALGORITHMS as readonly string[]).includes(value)) {
+    throw new Error(`Unknown visual hash algorithm "${value}" (expected one of: ${VISUAL_HASH_ALGORITHMS.join(', ')})`);
+  }
+  return value as VisualHashAlgorithm;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+// Rows fetched from the database at a time
+const PAGE_SIZE = 200;
+const DEFAULT_PROGRESS_INTERVAL_MS = 5000;
+// jpeg-js refuses images that would need more than this to decode
+const MAX_DECODE_MEMORY_MB = 1024;
+// Optional pure-JS HEIC decoder, used when it is installed
+const HEIC_DECODER_MODULE = 'heic-decode';
+
+const HEIC_MIME_TYPES = ['image/heic', 'image/heif'];
+
+/**
+ * Decoded pixels, `channels` bytes per pixel (RGB or RGBA)
+ */
+export interface DecodedImage {
+  width: number;
+  height: number;
+  channels: 3 | 4;
+  data: Uint8Array;
+}
+
+type ImageDecoder = (buffer: Buffer) => Promise<DecodedImage>;
+
+const decodeJpeg: ImageDecoder = async (buffer) => {
+  // RGB output needs a quarter less memory than RGBA for large photos
+  const image = jpeg.decode(buffer, { useTArray: true, formatAsRGBA: false, maxMemoryUsageInMB: MAX_DECODE_MEMORY_MB });
+  return { width: image.width, height: image.height, channels: 3, data: image.data };
+};
+
+const decodePng: ImageDecoder = async (buffer) => {
+  const image = PNG.sync.read(buffer);
+  return { width: image.width, height: image.height, channels: 4, data: image.data };
+};
+
+/**
+ * Loads the HEIC decoder lazily so that it stays an optional dependency. Returns null when it isn't installed.
+ */
+export async function loadHeicDecoder(): Promise<ImageDecoder | null> {
+  try {
+    const module = await import(HEIC_DECODER_MODULE);
+    const decode = module.default ?? module;
+    return async (buffer) => {
+      const image = await decode({ buffer });
+      return { width: image.width, height: image.height, channels: 4, data: image.data };
+    };
+  } catch (error: any) {
+    logger.info(`HEIC images are not visually hashed (${HEIC_DECODER_MODULE} is not available: ${error.message})`);
+    return null;
+  }
+}
+
+/**
+ * Shrinks an image to `width` x `height` grayscale values by averaging the pixels that fall into each cell.
+ */
+export function toGrayscaleThumbnail(image: DecodedImage, width: number, height: number): Float64Array {
+  const sums = new Float64Array(width * height);
+  const counts = new Uint32Array(width * height);
+  const columns = Uint32Array.from({ length: image.width }, (_, x) => Math.floor((x * width) / image.width));
+
+  for (let y = 0; y < image.height; y++) {
+    const rowOffset = Math.floor((y * height) / image.height) * width;
+    let offset = y * image.width * image.channels;
+    for (let x = 0; x < image.width; x++, offset += image.channels) {
+      const cell = rowOffset + columns[x];
+      // ITU-R BT.601 luma
+      sums[cell] += 0.299 * image.data[offset] + 0.587 * image.data[offset + 1] + 0.114 * image.data[offset + 2];
+      counts[cell]++;
+    }
+  }
+
+  for (let cell = 0; cell < sums.length; cell++) {
+    sums[cell] = counts[cell] > 0 ? sums[cell] / counts[cell] : 0;
+  }
+  return sums;
+}
+
+/**
+ * Packs 64 bits, most significant first, into 16 hex digits.
+ */
+function bitsToHex(bits: boolean[]): string {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    hex += ((+bits[i] << 3) | (+bits[i + 1] << 2) | (+bits[i + 2] << 1) | +bits[i + 3]).toString(16);
+  }
+  return hex;
+}
+
+/**
+ * Difference hash: one bit per pair of horizontally adjacent pixels of a 9x8 thumbnail, set when brightness drops.
+ */
+export function dHash(image: DecodedImage): string {
+  const pixels = toGrayscaleThumbnail(image, 9, 8);
+  const bits: boolean[] = [];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      bits.push(pixels[y * 9 + x] > pixels[y * 9 + x + 1]);
+    }
+  }
+  return bitsToHex(bits);
+}
+
+const DCT_SIZE = 32;
+const DCT_KEEP = 8;
+// DCT_COSINES[u][x] = cos((2x + 1) * u * pi / 2N) for the low frequencies that are kept
+const DCT_COSINES = Array.from({ length: DCT_KEEP }, (_, u) =>
+  Float64Array.from({ length: DCT_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * DCT_SIZE)))
+);
+
+/**
+ * Perceptual hash: one bit per coefficient of the 8x8 lowest frequencies of a 32x32 DCT, set when the
+ * coefficient is above their median. The DC term is left out of the median since it only reflects brightness.
+ */
+export function pHash(image: DecodedImage): string {
+  const pixels = toGrayscaleThumbnail(image, DCT_SIZE, DCT_SIZE);
+
+  // Separable DCT-II: rows first, then columns, computing only the kept frequencies
+  const rows = new Float64Array(DCT_SIZE * DCT_KEEP);
+  for (let y = 0; y < DCT_SIZE; y++) {
+    for (let u = 0; u < DCT_KEEP; u++) {
+      let sum = 0;
+      for (let x = 0; x < DCT_SIZE; x++) {
+        sum += pixels[y * DCT_SIZE + x] * DCT_COSINES[u][x];
+      }
+      rows[y * DCT_KEEP + u] = sum;
+    }
+  }
+  const coefficients: number[] = [];
+  for (let v = 0; v < DCT_KEEP; v++) {
+    for (let u = 0; u < DCT_KEEP; u++) {
+      let sum = 0;
+      for (let y = 0; y < DCT_SIZE; y++) {
+        sum += rows[y * DCT_KEEP + u] * DCT_COSINES[v][y];
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = (sorted[31] + sorted[32]) / 2;
+  return bitsToHex(coefficients.map((coefficient) => coefficient > median));
+}
+
+const HASH_FUNCTIONS: Record<VisualHashAlgorithm, (image: DecodedImage) => string> = {
+  phash: pHash,
+  dhash: dHash,
+};
+
+/**
+ * Computes the `visual_hash` value of a decoded image.
+ */
+export function computeVisualHash(image: DecodedImage, algorithm: VisualHashAlgorithm = DEFAULT_VISUAL_HASH_ALGORITHM): string {
+  return `${algorithm}:${HASH_FUNCTIONS[algorithm](image)}`;
+}
+
+export interface VisualHasherOptions {
+  algorithm?: VisualHashAlgorithm;
+  concurrency?: number; // Images decoded in parallel
+  progressIntervalMs?: number; // How often progress and throughput are logged
+}
+
+export interface VisualHashRunResult {
+  hashed: number;
+  missing: number; // Files that are no longer on disk; retried on the next run
+  failed: number; // Files that couldn't be read or decoded; retried on the next run
+  bytes: number;
+  elapsedMs: number;
+}
+
+/**
+ * Fills in `visual_hash`, and `pixel_size` where the scanner didn't report it, for every photo in a
+ * format that can be decoded (JPEG and PNG, and HEIC when a decoder is installed). Like the content
+ * hash pass, each result is stored as soon as it is computed so an interrupted run picks up where it stopped.
+ */
+export class VisualHasher {
+  private dbManager: DatabaseManager;
+  private algorithm: VisualHashAlgorithm;
+  private concurrency: number;
+  private progressIntervalMs: number;
+  private decoders: Map<string, ImageDecoder> | null = null;
+
+  constructor(dbManager: DatabaseManager, options: VisualHasherOptions = {}) {
+    this.dbManager = dbManager;
+    this.algorithm = options.algorithm ?? DEFAULT_VISUAL_HASH_ALGORITHM;
+    this.concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+    this.progressIntervalMs = options.progressIntervalMs ?? DEFAULT_PROGRESS_INTERVAL_MS;
+  }
+
+  async hashPending(): Promise<VisualHashRunResult> {
+    const decoders = await this.getDecoders();
+    const mimeTypes = [...decoders.keys()];
+    const total = this.dbManager.getUnvisualHashedCount(mimeTypes);
+    const result: VisualHashRunResult = { hashed: 0, missing: 0, failed: 0, bytes: 0, elapsedMs: 0 };
+    const startedAt = Date.now();
+    let lastProgressAt = startedAt;
+
+    logger.info(`Visually hashing ${total} photos (${this.algorithm}, ${mimeTypes.join(', ')}) with ${this.concurrency} workers`);
+
+    // Failed items keep a NULL hash, so paging continues after the last ID seen
+    let afterId = '';
+    while (true) {
+      const page = this.dbManager.getUnvisualHashedMedia(mimeTypes, PAGE_SIZE, afterId);
+      if (page.length === 0) {
+        break;
+      }
+      afterId = page[page.length - 1].id;
+
+      let next = 0;
+      const worker = async () => {
+        while (next < page.length) {
+          const item = page[next++];
+          await this.hashItem(item, decoders.get(item.mime_type)!, result);
+
+          const now = Date.now();
+          if (now - lastProgressAt >= this.progressIntervalMs) {
+            lastProgressAt = now;
+            const done = result.hashed + result.missing + result.failed;
+            logger.info(`Visually hashed ${done}/${total} (${formatThroughput(result.hashed, result.bytes, now - startedAt)})`);
+          }
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(this.concurrency, page.length) }, worker));
+    }
+
+    result.elapsedMs = Date.now() - startedAt;
+    logger.info(
+      `Visual hashing complete. Hashed: ${result.hashed}, Missing: ${result.missing}, Failed: ${result.failed} ` +
+        `(${formatThroughput(result.hashed, result.bytes, result.elapsedMs)})`
+    );
+    return result;
+  }
+
+  private async getDecoders(): Promise<Map<string, ImageDecoder>> {
+    if (!this.decoders) {
+      const decoders = new Map<string, ImageDecoder>([
+        ['image/jpeg', decodeJpeg],
+        ['image/png', decodePng],
+      ]);
+      const heic = await loadHeicDecoder();
+      if (heic) {
+        HEIC_MIME_TYPES.forEach((mimeType) => decoders.set(mimeType, heic));
+      }
+      this.decoders = decoders;
+    }
+    return this.decoders;
+  }
+
+  private async hashItem(item: MediaItem, decode: ImageDecoder, result: VisualHashRunResult): Promise<void> {
+    // Apple Photos assets without an original on disk only have a urn placeholder path
+    const filePath = item.original_path.startsWith('urn:') ? item.local_copy_path! : item.original_path;
+    try {
+      const buffer = await fs.readFile(filePath);
+      const image = await decode(buffer);
+      this.dbManager.updateVisualHash(item.id, computeVisualHash(image, this.algorithm), `${image.width}x${image.height}`);
+      result.hashed++;
+      result.bytes += buffer.length;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        logger.warn(`File for item ${item.id} not found: ${filePath}`);
+        result.missing++;
+      } else {
+        logger.error(`Could not visually hash item ${item.id} (${filePath}): ${error.message}`);
+        result.failed++;
+      }
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { validateAsset } from './assetSchema';
+
+const validAsset = {
+  localIdentifier: 'ABCD/L0/001',
+  originalPath: null,
+  originalFilename: 'IMG_0001.MOV',
+  uti: 'com.apple.quicktime-movie',
+  creationDate: '2024-01-01T10:00:00.000Z',
+  modificationDate: null,
+  sizeBytes: 512000,
+  pixelWidth: 1920,
+  pixelHeight: 1080,
+  isInCloud: true,
+  mediaType: 'video',
+  durationSeconds: 30.5,
+  codec: null,
+};
+
+describe('validateAsset', () => {
+  it('should accept a complete asset', () => {
+    expect(validateAsset(validAsset)).toEqual([]);
+    expect(validateAsset({ ...validAsset, isFavorite: true, isHidden: false })).toEqual([]);
+  });
+
+  it('should require every field, allowing null where a value may be unknown', () => {
+    const { uti: _uti, ...withoutUti } = validAsset;
+    expect(validateAsset(withoutUti)).toEqual(['missing field "uti"']);
+    expect(validateAsset({ ...validAsset, isInCloud: null })).toEqual(['invalid isInCloud: null (expected boolean)']);
+  });
+
+  it('should reject wrong types and unknown fields', () => {
+    expect(validateAsset({ ...validAsset, sizeBytes: '512000', mediaType: 'livePhoto', creationDate: 'yesterday', extra: 1 })).toEqual([
+      'invalid creationDate: "yesterday" (expected isoDate or null)',
+      'invalid sizeBytes: "512000" (expected count or null)',
+      'invalid mediaType: "livePhoto" (expected mediaType)',
+      'unknown field "extra"',
+    ]);
+    expect(validateAsset({ ...validAsset, pixelWidth: -1 })).toHaveLength(1);
+    expect(validateAsset({ ...validAsset, localIdentifier: ' ' })).toEqual(['empty localIdentifier']);
+  });
+
+  it('should reject values that are not objects', () => {
+    expect(validateAsset(null)).toEqual(['asset is not an object']);
+    expect(validateAsset([validAsset])).toEqual(['asset is not an object']);
+  });
+});
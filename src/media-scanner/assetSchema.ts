@@ -0,0 +1,85 @@
+import { LibraryAsset } from './types';
+
+/**
+ * Version of the scanner protocol (message framing plus the asset schema below) that this
+ * build understands. Bump it together with the Swift helper whenever either changes.
+ */
+export const SCANNER_PROTOCOL_VERSION = 3;
+
+type FieldType = 'string' | 'isoDate' | 'count' | 'number' | 'boolean' | 'mediaType';
+
+interface FieldSpec {
+  type: FieldType;
+  nullable: boolean;
+  optional?: boolean; // May be left out entirely
+}
+
+// Asset schema since protocol version 1 (version 2 only added export mode). Every non-optional key must
+// be present (null when unknown) and unknown keys are rejected, so a renamed field is caught instead of read as missing.
+const ASSET_SCHEMA_V1: Record<keyof LibraryAsset, FieldSpec> = {
+  localIdentifier: { type: 'string', nullable: false },
+  originalPath: { type: 'string', nullable: true },
+  originalFilename: { type: 'string', nullable: true },
+  uti: { type: 'string', nullable: true },
+  creationDate: { type: 'isoDate', nullable: true },
+  modificationDate: { type: 'isoDate', nullable: true },
+  sizeBytes: { type: 'count', nullable: true },
+  pixelWidth: { type: 'count', nullable: true },
+  pixelHeight: { type: 'count', nullable: true },
+  isInCloud: { type: 'boolean', nullable: false },
+  mediaType: { type: 'mediaType', nullable: false },
+  durationSeconds: { type: 'number', nullable: true },
+  codec: { type: 'string', nullable: true },
+  isFavorite: { type: 'boolean', nullable: false, optional: true },
+  isHidden: { type: 'boolean', nullable: false, optional: true },
+};
+
+function matchesType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'isoDate':
+      return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+    case 'count':
+      return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'mediaType':
+      return value === 'photo' || value === 'video';
+  }
+}
+
+/**
+ * Checks a scanned asset against the schema. Returns a list of problems, empty if the asset is valid.
+ */
+export function validateAsset(value: unknown): string[] {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return ['asset is not an object'];
+  }
+
+  const record = value as Record<string, unknown>;
+  const problems: string[] = [];
+  for (const [field, spec] of Object.entries(ASSET_SCHEMA_V1)) {
+    if (!(field in record)) {
+      if (!spec.optional) {
+        problems.push(`missing field "${field}"`);
+      }
+      continue;
+    }
+    const fieldValue = record[field];
+    if (fieldValue === null ? !spec.nullable : !matchesType(fieldValue, spec.type)) {
+      problems.push(`invalid ${field}: ${JSON.stringify(fieldValue)} (expected ${spec.type}${spec.nullable ? ' or null' : ''})`);
+    }
+  }
+  for (const field of Object.keys(record)) {
+    if (!(field in ASSET_SCHEMA_V1)) {
+      problems.push(`unknown field "${field}"`);
+    }
+  }
+  if (typeof record.localIdentifier === 'string' && record.localIdentifier.trim() === '') {
+    problems.push('empty localIdentifier');
+  }
+  return problems;
+}
@@ -0,0 +1,28 @@
+// MIME types of the Uniform Type Identifiers Apple Photos reports for its assets
+const UTI_MIME_TYPES: Record<string, string> = {
+  'public.jpeg': 'image/jpeg',
+  'public.png': 'image/png',
+  'public.heic': 'image/heic',
+  'public.heif': 'image/heif',
+  'public.tiff': 'image/tiff',
+  'com.compuserve.gif': 'image/gif',
+  'org.webmproject.webp': 'image/webp',
+  'com.microsoft.bmp': 'image/bmp',
+  'com.adobe.raw-image': 'image/x-adobe-dng',
+  'com.apple.quicktime-movie': 'video/quicktime',
+  'public.mpeg-4': 'video/mp4',
+  'com.apple.m4v-video': 'video/x-m4v',
+  'public.avi': 'video/x-msvideo',
+  'public.3gpp': 'video/3gpp',
+};
+
+/**
+ * The MIME type stored for a scanned asset, so Photos assets are hashed and uploaded like
+ * files from the filesystem scanner. UTIs without a known MIME type are kept as they are.
+ */
+export function mimeTypeForUti(uti: string | null): string {
+  if (uti === null) {
+    return 'application/octet-stream';
+  }
+  return UTI_MIME_TYPES[uti.toLowerCase()] ?? uti;
+}
@@ -0,0 +1,58 @@
+import { MediaItem, MediaMetadataUpdate } from '../utils/database';
+
+// Scanned fields that are compared against the stored row on a rescan
+const RESCANNED_FIELDS = [
+  'mime_type',
+  'original_path',
+  'original_name',
+  'size_bytes',
+  'creation_date',
+  'pixel_size',
+  'duration_seconds',
+  'codec',
+  'is_in_icloud',
+  'is_favorite',
+  'is_hidden',
+] as const;
+
+/**
+ * Returns the fields of a rescanned item that differ from the stored row, or null if nothing changed.
+ * Values the scan didn't report (including a placeholder path) never overwrite stored ones.
+ */
+export function diffScannedMetadata(
+  existing: MediaItem,
+  scanned: Omit<MediaItem, 'retry_count'>,
+  hasOriginalPath: boolean
+): MediaMetadataUpdate | null {
+  // SQLite returns booleans as 0/1 and missing values as null
+  const normalize = (value: unknown) => (typeof value === 'boolean' ? (value ? 1 : 0) : value ?? null);
+  const changes: MediaMetadataUpdate = {};
+
+  for (const field of RESCANNED_FIELDS) {
+    const value = scanned[field];
+    if (value === undefined || (field === 'original_path' && !hasOriginalPath && existing.original_path)) {
+      continue;
+    }
+    if (normalize(existing[field]) !== normalize(value)) {
+      (changes as Record<string, unknown>)[field] = value;
+    }
+  }
+
+  if ('size_bytes' in changes || 'original_path' in changes) {
+    // The file changed; hashes are cleared so the hash passes recompute them
+    if (existing.sha256_hash) {
+      changes.sha256_hash = undefined;
+    }
+    if (existing.visual_hash) {
+      changes.visual_hash = undefined;
+    }
+  }
+
+  if (existing.status === 'removed_from_source') {
+    changes.status = 'pending'; // Back in the library
+  } else if (existing.status === 'skipped_icloud' && scanned.is_in_icloud === false) {
+    changes.status = 'pending'; // The original was downloaded, so it can be uploaded now
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
@@ -0,0 +1,22 @@
+/**
+ * Asset reported by an Apple Photos scanner: the Swift helper (which prints this as JSON)
+ * or the Photos.sqlite reader. Keep in sync with the Swift struct's JSONEncoder output.
+ */
+export interface LibraryAsset {
+  localIdentifier: string;
+  originalPath: string | null; // Readable file path, when the original is available locally
+  originalFilename: string | null;
+  uti: string | null;
+  creationDate: string | null; // ISO 8601 formatted string
+  modificationDate: string | null; // ISO 8601 formatted string
+  sizeBytes: number | null;
+  pixelWidth: number | null;
+  pixelHeight: number | null;
+  isInCloud: boolean;
+  mediaType: 'photo' | 'video';
+  durationSeconds: number | null;
+  codec: string | null;
+  // Not reported by the Swift helper
+  isFavorite?: boolean;
+  isHidden?: boolean;
+}
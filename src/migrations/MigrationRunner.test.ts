@@ -0,0 +1,309 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { EditedMigrationError, MigrationRunner, NewerDatabaseError, normalizeSource } from './MigrationRunner';
+import { DatabaseManager } from '../utils/database';
+
+vi.mock('../utils/logger', () => {
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+  return { logger, createLogger: () => logger };
+});
+
+describe('MigrationRunner', () => {
+  let tmpDir: string;
+  let migrationsDir: string;
+  let dbManager: DatabaseManager;
+
+  const writeMigration = (file: string, id: string, up: string, down?: string) => {
+    fs.writeFileSync(
+      path.join(migrationsDir, file),
+      `export const migration = {
+        id: '${id}',
+        description: 'Migration ${id}',
+        up: (db: any) => { ${up} },
+        ${down !== undefined ? `down: (db: any) => { ${down} },` : ''}
+      };\n`
+    );
+  };
+  const tables = () =>
+    (dbManager.getConnection().prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name LIKE 't_%' ORDER BY name`).all() as { name: string }[])
+      .map((table) => table.name);
+  const createRunner = () => new MigrationRunner(dbManager, { directory: migrationsDir, appVersion: '1.2.0' });
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'migration-runner-'));
+    migrationsDir = path.join(tmpDir, 'versions');
+    fs.mkdirSync(migrationsDir);
+    dbManager = new DatabaseManager(path.join(tmpDir, 'test.sqlite'));
+    writeMigration('0001-create-a.ts', 'create-a', `db.exec('CREATE TABLE t_a (id INTEGER)')`, `db.exec('DROP TABLE t_a')`);
+    writeMigration('0002-create-b.ts', 'create-b', `db.exec('CREATE TABLE t_b (id INTEGER)')`, `db.exec('DROP TABLE t_b')`);
+    writeMigration('0010-create-c.ts', 'create-c', `db.exec('CREATE TABLE t_c (id INTEGER)')`, `db.exec('DROP TABLE t_c')`);
+    fs.writeFileSync(path.join(migrationsDir, 'helpers.ts'), 'export const notAMigration = true;\n');
+  });
+
+  afterEach(() => {
+    dbManager.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should apply the migrations in version order and record their checksum and app version', async () => {
+    const applied = await createRunner().up();
+
+    expect(applied.map((migration) => migration.id)).toEqual(['create-a', 'create-b', 'create-c']);
+    expect(tables()).toEqual(['t_a', 't_b', 't_c']);
+    const rows = dbManager.getConnection().prepare(`SELECT id, checksum, app_version FROM migrations ORDER BY id`).all();
+    expect(rows).toEqual([
+      { id: 'create-a', checksum: expect.stringMatching(/^[0-9a-f]{64}$/), app_version: '1.2.0' },
+      { id: 'create-b', checksum: expect.stringMatching(/^[0-9a-f]{64}$/), app_version: '1.2.0' },
+      { id: 'create-c', checksum: expect.stringMatching(/^[0-9a-f]{64}$/), app_version: '1.2.0' },
+    ]);
+    expect(await createRunner().up()).toEqual([]);
+  });
+
+  it('should roll back a failing migration and not run the ones after it', async () => {
+    writeMigration('0002-create-b.ts', 'create-b', `db.exec('CREATE TABLE t_b (id INTEGER)'); throw new Error('boom');`);
+    const runner = createRunner();
+
+    await expect(runner.up()).rejects.toThrow('boom');
+
+    expect(tables()).toEqual(['t_a']);
+    expect((await runner.status()).map((status) => status.state)).toEqual(['applied', 'pending', 'pending']);
+  });
+
+  it('should stop at the --to migration and change nothing in a dry run', async () => {
+    const runner = createRunner();
+
+    expect((await runner.up({ to: '0002', dryRun: true })).map((migration) => migration.id)).toEqual(['create-a', 'create-b']);
+    expect(tables()).toEqual([]);
+
+    await runner.up({ to: 'create-b' });
+    expect(tables()).toEqual(['t_a', 't_b']);
+    await expect(runner.up({ to: 'create-z' })).rejects.toThrow('Unknown migration "create-z"');
+  });
+
+  it('should revert the last migration, or every migration after --to', async () => {
+    const runner = createRunner();
+    await runner.up();
+
+    expect((await runner.down()).map((migration) => migration.id)).toEqual(['create-c']);
+    expect(tables()).toEqual(['t_a', 't_b']);
+
+    await runner.up();
+    expect((await runner.down({ to: 'create-a', dryRun: true })).map((migration) => migration.id)).toEqual(['create-c', 'create-b']);
+    expect(tables()).toEqual(['t_a', 't_b', 't_c']);
+    await runner.down({ to: 'create-a' });
+    expect(tables()).toEqual(['t_a']);
+    expect((await runner.status()).map((status) => status.state)).toEqual(['applied', 'pending', 'pending']);
+  });
+
+  it('should refuse to revert anything if one of the migrations cannot be reverted', async () => {
+    writeMigration('0002-create-b.ts', 'create-b', `db.exec('CREATE TABLE t_b (id INTEGER)')`);
+    const runner = createRunner();
+    await runner.up();
+
+    await expect(runner.down({ to: 'create-a' })).rejects.toThrow("Migration create-b can't be reverted");
+    expect(tables()).toEqual(['t_a', 't_b', 't_c']);
+  });
+
+  it('should refuse to run when an applied migration has been edited', async () => {
+    await createRunner().up({ to: 'create-b' });
+    writeMigration('0001-create-a.ts', 'create-a', `db.exec('CREATE TABLE t_a (id INTEGER, name TEXT)')`);
+
+    const runner = createRunner();
+    expect((await runner.status()).map((status) => status.state)).toEqual(['edited', 'applied', 'pending']);
+    await expect(runner.up()).rejects.toThrow(EditedMigrationError);
+    expect(tables()).toEqual(['t_a', 't_b']);
+  });
+
+  it('should not count comment and whitespace changes as edits', async () => {
+    await createRunner().up();
+    const file = path.join(migrationsDir, '0001-create-a.ts');
+    fs.writeFileSync(file, `// Creates t_a\n${fs.readFileSync(file, 'utf8').replace('up: (db: any) => {', 'up: (db: any) => {  /* first table */\n')}`);
+
+    expect((await createRunner().status()).map((status) => status.state)).toEqual(['applied', 'applied', 'applied']);
+  });
+
+  it('should take the checksum of a compiled migration from its TypeScript source', async () => {
+    const compiledDir = path.join(tmpDir, 'dist');
+    fs.mkdirSync(compiledDir);
+    const compile = (prologue: string) =>
+      fs.writeFileSync(
+        path.join(compiledDir, '0001-create-a.js'),
+        `${prologue}exports.migration = { id: 'create-a', description: 'Migration create-a', up: (db) => { db.exec('CREATE TABLE t_a (id INTEGER)'); } };\n`
+      );
+    compile('"use strict";\n');
+    fs.writeFileSync(path.join(compiledDir, '0001-create-a.js.map'), JSON.stringify({ version: 3, sources: ['../versions/0001-create-a.ts'], mappings: '' }));
+    const compiledRunner = () => new MigrationRunner(dbManager, { directory: compiledDir, appVersion: '1.2.0' });
+    await compiledRunner().up();
+
+    // A newer compiler emits different JavaScript for the same source
+    compile('"use strict";\nObject.defineProperty(exports, "__esModule", { value: true });\n');
+    expect((await compiledRunner().status())[0].state).toBe('applied');
+    expect((await createRunner().status())[0].state).toBe('applied');
+
+    writeMigration('0001-create-a.ts', 'create-a', `db.exec('CREATE TABLE t_a (id INTEGER, name TEXT)')`);
+    expect((await compiledRunner().status())[0].state).toBe('edited');
+  });
+
+  it('should take over checksums recorded from the raw file', async () => {
+    await createRunner().up();
+    const fileChecksum = crypto.createHash('sha256').update(fs.readFileSync(path.join(migrationsDir, '0001-create-a.ts'), 'utf8')).digest('hex');
+    dbManager.getConnection().prepare(`UPDATE migrations SET checksum = ? WHERE id = 'create-a'`).run(fileChecksum);
+
+    expect((await createRunner().status())[0].state).toBe('applied');
+    const row = dbManager.getConnection().prepare(`SELECT checksum FROM migrations WHERE id = 'create-a'`).get() as { checksum: string };
+    expect(row.checksum).not.toBe(fileChecksum);
+  });
+
+  it('should normalize comments and whitespace but keep literals', () => {
+    expect(normalizeSource(`up: (db) => {\n  // Add it\n  db.exec(\`ALTER  TABLE \${name} /* x */\`); /* done */\n}`)).toBe(
+      'up: (db) => { db.exec(`ALTER  TABLE ${name} /* x */`); }'
+    );
+    expect(normalizeSource(`const s = 'a // b';`)).toBe(`const s = 'a // b';`);
+  });
+
+  it('should refuse to run on a database migrated by a newer version', async () => {
+    await createRunner().up();
+    dbManager.getConnection()
+      .prepare(`INSERT INTO migrations (id, applied_at, description, checksum, app_version) VALUES (?, ?, ?, ?, ?)`)
+      .run('create-d', new Date().toISOString(), 'Migration create-d', 'abc', '2.0.0');
+
+    const runner = createRunner();
+    expect((await runner.status()).at(-1)).toMatchObject({ id: 'create-d', state: 'unknown', appVersion: '2.0.0' });
+    await expect(runner.up()).rejects.toThrow(NewerDatabaseError);
+    await expect(runner.down()).rejects.toThrow('The database was migrated by photo-migrator 2.0.0');
+  });
+
+  it('should take over a migrations table written before checksums were kept', async () => {
+    dbManager.getConnection().exec(`
+      CREATE TABLE migrations (id TEXT PRIMARY KEY, applied_at TEXT NOT NULL, description TEXT);
+      CREATE TABLE t_a (id INTEGER);
+      INSERT INTO migrations (id, applied_at, description) VALUES ('create-a', '2026-01-01T00:00:00.000Z', 'Migration create-a');
+    `);
+
+    expect((await createRunner().up()).map((migration) => migration.id)).toEqual(['create-b', 'create-c']);
+
+    const row = dbManager.getConnection().prepare(`SELECT checksum, app_version FROM migrations WHERE id = 'create-a'`).get();
+    expect(row).toEqual({ checksum: expect.stringMatching(/^[0-9a-f]{64}$/), app_version: null });
+  });
+
+  describe('versions', () => {
+    it('should upgrade a database created before the status and column migrations', async () => {
+      // Schema as created before removed_from_source and the later columns existed
+      dbManager.getConnection().exec(`
+        CREATE TABLE media_items (
+          id TEXT PRIMARY KEY,
+          media_type TEXT CHECK(media_type IN ('photo', 'video')) NOT NULL,
+          mime_type TEXT NOT NULL,
+          original_path TEXT NOT NULL,
+          local_copy_path TEXT,
+          original_name TEXT NOT NULL,
+          size_bytes INTEGER,
+          creation_date TEXT,
+          sha256_hash TEXT,
+          visual_hash TEXT,
+          pixel_size TEXT,
+          duration_seconds REAL,
+          frame_rate REAL,
+          codec TEXT,
+          status TEXT CHECK(status IN ('pending', 'exported', 'uploaded', 'failed', 'skipped', 'skipped_icloud')),
+          retry_count INTEGER DEFAULT 0,
+          last_attempt_at TEXT,
+          google_photos_id TEXT,
+          error_message TEXT
+        );
+        CREATE TABLE batches (id TEXT PRIMARY KEY, created_at TEXT, status TEXT, total_size INTEGER, files_count INTEGER);
+        CREATE INDEX idx_media_status ON media_items(status);
+        INSERT INTO media_items (id, media_type, mime_type, original_path, original_name, status)
+        VALUES ('old', 'photo', 'image/jpeg', '/old.jpg', 'old.jpg', 'pending'),
+               ('broken', 'photo', 'image/jpeg', '/broken.jpg', 'broken.jpg', 'failed');
+      `);
+
+      await new MigrationRunner(dbManager).up();
+
+      const db = dbManager.getConnection();
+      expect(dbManager.getMediaById('broken')).toMatchObject({ profile: 'default', next_attempt_at: expect.any(String) });
+      db.exec(`UPDATE media_items SET status = 'removed_from_source' WHERE id = 'old'`);
+      expect(dbManager.getMediaById('old')).toMatchObject({ status: 'removed_from_source', original_path: '/old.jpg', is_in_icloud: 0, profile: null });
+      db.exec(`UPDATE media_items SET status = 'abandoned', error_code = 'too-large' WHERE id = 'old'`);
+      expect(dbManager.getMediaById('old')).toMatchObject({ status: 'abandoned', error_code: 'too-large' });
+      const indexes = db.prepare(`SELECT name FROM sqlite_master WHERE type = 'index' AND tbl_name = 'media_items'`).all();
+      expect(indexes).toContainEqual({ name: 'idx_media_status' });
+      expect(indexes).toContainEqual({ name: 'idx_media_profile_status' });
+    });
+
+    it('should give a new database the same schema as one upgraded from before migrations', async () => {
+      const upgraded = new DatabaseManager(path.join(tmpDir, 'upgraded.sqlite'));
+      try {
+        // Schema as DatabaseManager.initialize() created it before the first migration
+        upgraded.getConnection().exec(`
+          CREATE TABLE IF NOT EXISTS media_items (
+            id TEXT PRIMARY KEY,
+            media_type TEXT CHECK(media_type IN ('photo', 'video')) NOT NULL,
+            mime_type TEXT NOT NULL,
+            original_path TEXT NOT NULL,
+            local_copy_path TEXT,
+            original_name TEXT NOT NULL,
+            size_bytes INTEGER,
+            creation_date TEXT,
+            sha256_hash TEXT,
+            visual_hash TEXT,
+            pixel_size TEXT,
+            duration_seconds REAL,
+            frame_rate REAL,
+            codec TEXT,
+            status TEXT CHECK(status IN ('pending', 'exported', 'uploaded', 'failed', 'skipped', 'skipped_icloud')),
+            retry_count INTEGER DEFAULT 0,
+            last_attempt_at TEXT,
+            google_photos_id TEXT,
+            error_message TEXT,
+            is_in_icloud INTEGER DEFAULT 0
+          );
+          CREATE TABLE IF NOT EXISTS batches (
+            id TEXT PRIMARY KEY,
+            created_at TEXT,
+            status TEXT CHECK(status IN ('planned', 'uploading', 'complete', 'failed')),
+            total_size INTEGER,
+            files_count INTEGER
+          );
+          CREATE TABLE IF NOT EXISTS settings (key TEXT PRIMARY KEY, value TEXT);
+          CREATE INDEX IF NOT EXISTS idx_media_status ON media_items(status);
+          CREATE INDEX IF NOT EXISTS idx_media_sha256_hash ON media_items(sha256_hash);
+          CREATE INDEX IF NOT EXISTS idx_media_type ON media_items(media_type);
+          CREATE INDEX IF NOT EXISTS idx_media_mime_type ON media_items(mime_type);
+          CREATE INDEX IF NOT EXISTS idx_media_retry_count ON media_items(retry_count);
+          CREATE INDEX IF NOT EXISTS idx_batches_status ON batches(status);
+          CREATE INDEX IF NOT EXISTS idx_media_type_status ON media_items(media_type, status);
+          CREATE INDEX IF NOT EXISTS idx_media_mime_status ON media_items(mime_type, status);
+          CREATE TABLE migrations (id TEXT PRIMARY KEY, applied_at TEXT NOT NULL, description TEXT);
+          INSERT INTO migrations (id, applied_at, description) VALUES ('2023-04-20-add-is-in-icloud', '2023-04-20T00:00:00.000Z', 'Add is_in_icloud column to media_items table');
+        `);
+
+        await dbManager.initialize();
+        await upgraded.initialize();
+
+        // Formatting differs with how a column was added, so compare the statements without it
+        const schema = (manager: DatabaseManager) =>
+          (manager.getConnection().prepare(`SELECT type, name, tbl_name, sql FROM sqlite_master ORDER BY type, name`).all() as { sql: string | null }[])
+            .map((entry) => ({ ...entry, sql: entry.sql?.replace(/\s+/g, ' ').replace(/ ?([(),]) ?/g, '$1') }));
+        expect(schema(upgraded)).toEqual(schema(dbManager));
+        expect(schema(dbManager)).toContainEqual(expect.objectContaining({ name: 'media_items', sql: expect.stringContaining(`'removed_from_source','abandoned')`) }));
+      } finally {
+        upgraded.close();
+      }
+    });
+
+    it('should revert the latest migrations', async () => {
+      await dbManager.initialize();
+      const runner = new MigrationRunner(dbManager);
+
+      await runner.down({ to: '2026-10-19-add-next-attempt-at' });
+
+      const columns = (dbManager.getConnection().prepare(`PRAGMA table_info(media_items)`).all() as { name: string }[]).map((col) => col.name);
+      expect(columns).not.toContain('error_code');
+      expect(columns).toContain('next_attempt_at');
+    });
+  });
+});
@@ -0,0 +1,389 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import type { DatabaseManager } from '../utils/database';
+import { createLogger } from '../utils/logger';
+import { Migration } from './types';
+
+const logger = createLogger('MigrationRunner');
+
+export const DEFAULT_MIGRATIONS_DIR = path.join(__dirname, 'versions');
+// Files are named <4-digit version>-<name>.ts (.js once compiled) and applied in version order
+const MIGRATION_FILE_PATTERN = /^(\d{4})-[a-z0-9-]+\.(ts|js)$/;
+
+export interface MigrationRunnerOptions {
+  directory?: string; // Where the migration files are loaded from (default: ./versions)
+  appVersion?: string; // Recorded with every applied migration (default: the package.json version)
+}
+
+/**
+ * A migration as loaded from its file
+ */
+export interface LoadedMigration extends Migration {
+  version: number;
+  checksum: string; // SHA-256 of the normalized source (see normalizeSource), to notice edits after it was applied
+}
+
+/**
+ * Where a migration stands in the database:
+ *   applied - ran, and the file is unchanged since
+ *   pending - hasn't run yet
+ *   edited  - ran, but the file has changed since
+ *   unknown - ran, but there is no file for it, so a newer app version applied it
+ */
+export interface MigrationStatus {
+  id: string;
+  description: string | null;
+  version?: number;
+  state: 'applied' | 'pending' | 'edited' | 'unknown';
+  appliedAt?: string;
+  appVersion?: string | null; // App version that applied the migration (null before this was recorded)
+}
+
+export interface MigrateOptions {
+  to?: string; // Migration id or version to stop at
+  dryRun?: boolean; // Only report the migrations that would run
+}
+
+interface AppliedMigration {
+  id: string;
+  applied_at: string;
+  description: string | null;
+  checksum: string | null;
+  app_version: string | null;
+}
+
+/**
+ * Thrown when a migration has been edited after it was applied. The database doesn't get the
+ * edit, so it could end up with a different schema than a fresh one.
+ */
+export class EditedMigrationError extends Error {
+  readonly ids: string[];
+
+  constructor(ids: string[]) {
+    super(`Applied migrations have changed since they ran: ${ids.join(', ')}. Restore them and add a new migration instead.`);
+    this.name = 'EditedMigrationError';
+    this.ids = ids;
+  }
+}
+
+/**
+ * Thrown when the database has migrations this app version doesn't know, so it was created or
+ * upgraded by a newer version whose schema this one may not handle.
+ */
+export class NewerDatabaseError extends Error {
+  readonly ids: string[];
+
+  constructor(ids: string[], appVersions: string[]) {
+    const by = appVersions.length > 0 ? `photo-migrator ${appVersions.join(', ')}` : 'a newer photo-migrator';
+    super(`The database was migrated by ${by}, which applied migrations this version doesn't know (${ids.join(', ')}). Upgrade photo-migrator to use it.`);
+    this.name = 'NewerDatabaseError';
+    this.ids = ids;
+  }
+}
+
+function readAppVersion(): string {
+  const packageJson = JSON.parse(fs.readFileSync(path.join(__dirname, '..', '..', 'package.json'), 'utf8'));
+  return packageJson.version;
+}
+
+function sha256(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Source code with comments left out and runs of whitespace collapsed, so a migration's checksum
+ * only changes with its code. String and template literals are kept as they are. Regular
+ * expression literals aren't recognized, so migrations shouldn't use them.
+ */
+export function normalizeSource(source: string): string {
+  let normalized = '';
+  let space = false;
+  let depth = 0; // Open braces outside literals
+  const templates: number[] = []; // Brace depth at each `${` whose template resumes at the matching `}`
+  let i = 0;
+
+  const emit = (text: string) => {
+    normalized += space && normalized.length > 0 ? ` ${text}` : text;
+    space = false;
+  };
+  // Copies a literal starting at its opening quote (or the `}` resuming a template) up to its
+  // closing quote or, in a template, the next `${`
+  const copyLiteral = (quote: string) => {
+    const start = i++;
+    while (i < source.length && source[i] !== quote) {
+      if (source[i] === '\\') {
+        i += 2;
+      } else if (quote === '`' && source.startsWith('${', i)) {
+        templates.push(depth);
+        i += 2;
+        emit(source.slice(start, i));
+        return;
+      } else {
+        i++;
+      }
+    }
+    i++;
+    emit(source.slice(start, i));
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+    if (source.startsWith('//', i)) {
+      const end = source.indexOf('\n', i);
+      i = end === -1 ? source.length : end;
+      space = true;
+    } else if (source.startsWith('/*', i)) {
+      const end = source.indexOf('*/', i + 2);
+      i = end === -1 ? source.length : end + 2;
+      space = true;
+    } else if (/\s/.test(char)) {
+      i++;
+      space = true;
+    } else if (char === '"' || char === "'" || char === '`') {
+      copyLiteral(char);
+    } else if (char === '}' && templates[templates.length - 1] === depth) {
+      templates.pop();
+      copyLiteral('`');
+    } else {
+      depth += char === '{' ? 1 : char === '}' ? -1 : 0;
+      emit(char);
+      i++;
+    }
+  }
+  return normalized;
+}
+
+/**
+ * The source a migration's checksum is taken from. A compiled migration is traced back to its
+ * TypeScript source through its source map, because a compiler upgrade changes the emitted
+ * JavaScript without any edit to the migration. Falls back to the file itself.
+ */
+function readMigrationSource(filePath: string): string {
+  try {
+    const sourceMap = JSON.parse(fs.readFileSync(`${filePath}.map`, 'utf8'));
+    return fs.readFileSync(path.resolve(path.dirname(filePath), sourceMap.sourceRoot ?? '', sourceMap.sources[0]), 'utf8');
+  } catch {
+    return fs.readFileSync(filePath, 'utf8');
+  }
+}
+
+/**
+ * Applies and reverts the schema migrations in a directory. Each migration runs in its own
+ * transaction together with its row in the migrations table, so a failing migration leaves
+ * neither a half-changed schema nor a record of having run.
+ */
+export class MigrationRunner {
+  private dbManager: DatabaseManager;
+  private directory: string;
+  private appVersion: string;
+  private migrations?: LoadedMigration[];
+  private fileChecksums = new Map<string, string>(); // Checksums as recorded before sources were normalized
+
+  constructor(dbManager: DatabaseManager, options: MigrationRunnerOptions = {}) {
+    this.dbManager = dbManager;
+    this.directory = options.directory ?? DEFAULT_MIGRATIONS_DIR;
+    this.appVersion = options.appVersion ?? readAppVersion();
+  }
+
+  /**
+   * Loads the migrations from the directory, in version order.
+   */
+  async load(): Promise<LoadedMigration[]> {
+    if (this.migrations) {
+      return this.migrations;
+    }
+    const files = fs.readdirSync(this.directory).filter((file) => MIGRATION_FILE_PATTERN.test(file)).sort();
+    const migrations: LoadedMigration[] = [];
+    for (const file of files) {
+      const filePath = path.join(this.directory, file);
+      const exports = await import(pathToFileURL(filePath).href);
+      const migration: Migration | undefined = exports.migration;
+      if (!migration?.id || typeof migration.up !== 'function') {
+        throw new Error(`Migration file ${file} does not export a migration with an id and an up function`);
+      }
+      const version = Number(MIGRATION_FILE_PATTERN.exec(file)![1]);
+      const clash = migrations.find((loaded) => loaded.version === version || loaded.id === migration.id);
+      if (clash) {
+        throw new Error(`Migration file ${file} has the same version or id as migration ${clash.id}`);
+      }
+      const checksum = sha256(normalizeSource(readMigrationSource(filePath).replace(/\r\n/g, '\n')));
+      this.fileChecksums.set(migration.id, sha256(fs.readFileSync(filePath, 'utf8').replace(/\r\n/g, '\n')));
+      migrations.push({ ...migration, version, checksum });
+    }
+    this.migrations = migrations;
+    return migrations;
+  }
+
+  /**
+   * Every known migration in version order, followed by applied ones this version doesn't know.
+   */
+  async status(): Promise<MigrationStatus[]> {
+    const migrations = await this.load();
+    const applied = this.getApplied();
+    const statuses: MigrationStatus[] = migrations.map((migration) => {
+      const record = applied.get(migration.id);
+      if (!record) {
+        return { id: migration.id, description: migration.description, version: migration.version, state: 'pending' };
+      }
+      const edited = record.checksum !== null && record.checksum !== migration.checksum;
+      return {
+        id: migration.id,
+        description: migration.description,
+        version: migration.version,
+        state: edited ? 'edited' : 'applied',
+        appliedAt: record.applied_at,
+        appVersion: record.app_version,
+      };
+    });
+    const known = new Set(migrations.map((migration) => migration.id));
+    for (const record of applied.values()) {
+      if (!known.has(record.id)) {
+        statuses.push({
+          id: record.id,
+          description: record.description,
+          state: 'unknown',
+          appliedAt: record.applied_at,
+          appVersion: record.app_version,
+        });
+      }
+    }
+    return statuses;
+  }
+
+  /**
+   * Applies the pending migrations in order, up to and including `to` if given.
+   * Returns the migrations applied (or, in a dry run, the ones that would be).
+   */
+  async up(options: MigrateOptions = {}): Promise<LoadedMigration[]> {
+    const migrations = await this.check();
+    const applied = this.getApplied();
+    const last = options.to !== undefined ? this.findIndex(migrations, options.to) : migrations.length - 1;
+    const pending = migrations.slice(0, last + 1).filter((migration) => !applied.has(migration.id));
+
+    if (options.dryRun) {
+      pending.forEach((migration) => logger.info(`Would apply migration ${migration.id}`));
+      return pending;
+    }
+
+    const db = this.dbManager.getConnection();
+    const record = db.prepare(`INSERT INTO migrations (id, applied_at, description, checksum, app_version) VALUES (?, ?, ?, ?, ?)`);
+    for (const migration of pending) {
+      logger.info(`Applying migration: ${migration.id} - ${migration.description}`);
+      try {
+        db.transaction(() => {
+          migration.up(db);
+          record.run(migration.id, new Date().toISOString(), migration.description, migration.checksum, this.appVersion);
+        })();
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.error(`Migration ${migration.id} failed and was rolled back: ${errorMessage}`, { error });
+        throw error;
+      }
+      logger.info(`Migration applied: ${migration.id}`);
+    }
+    if (pending.length === 0) {
+      logger.debug('Database schema is up to date');
+    }
+    return pending;
+  }
+
+  /**
+   * Reverts the most recently applied migration, or with `to` every applied migration after that
+   * one. Nothing is reverted if any of them can't be. Returns the migrations reverted (or, in a
+   * dry run, the ones that would be), most recent first.
+   */
+  async down(options: MigrateOptions = {}): Promise<LoadedMigration[]> {
+    const migrations = await this.check();
+    const applied = this.getApplied();
+    const appliedMigrations = migrations.filter((migration) => applied.has(migration.id));
+    const reverting =
+      options.to !== undefined
+        ? appliedMigrations.filter((migration) => migration.version > migrations[this.findIndex(migrations, options.to!)].version)
+        : appliedMigrations.slice(-1);
+    reverting.reverse();
+
+    const irreversible = reverting.filter((migration) => !migration.down);
+    if (irreversible.length > 0) {
+      throw new Error(`Migration ${irreversible.map((migration) => migration.id).join(', ')} can't be reverted`);
+    }
+    if (options.dryRun) {
+      reverting.forEach((migration) => logger.info(`Would revert migration ${migration.id}`));
+      return reverting;
+    }
+
+    const db = this.dbManager.getConnection();
+    const forget = db.prepare(`DELETE FROM migrations WHERE id = ?`);
+    for (const migration of reverting) {
+      logger.info(`Reverting migration: ${migration.id} - ${migration.description}`);
+      try {
+        db.transaction(() => {
+          migration.down!(db);
+          forget.run(migration.id);
+        })();
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.error(`Reverting migration ${migration.id} failed and was rolled back: ${errorMessage}`, { error });
+        throw error;
+      }
+      logger.info(`Migration reverted: ${migration.id}`);
+    }
+    return reverting;
+  }
+
+  /**
+   * Loads the migrations and makes sure the database can be migrated with them: it must not
+   * have been migrated by a newer version, and no applied migration may have been edited.
+   */
+  private async check(): Promise<LoadedMigration[]> {
+    const statuses = await this.status();
+    const unknown = statuses.filter((status) => status.state === 'unknown');
+    if (unknown.length > 0) {
+      const appVersions = [...new Set(unknown.map((status) => status.appVersion).filter((version): version is string => !!version))];
+      throw new NewerDatabaseError(unknown.map((status) => status.id), appVersions);
+    }
+    const edited = statuses.filter((status) => status.state === 'edited');
+    if (edited.length > 0) {
+      throw new EditedMigrationError(edited.map((status) => status.id));
+    }
+    return this.load();
+  }
+
+  private findIndex(migrations: LoadedMigration[], to: string): number {
+    const index = migrations.findIndex((migration) => migration.id === to || String(migration.version) === to.replace(/^0+/, ''));
+    if (index === -1) {
+      throw new Error(`Unknown migration "${to}" (expected an id or version from 'migrate status')`);
+    }
+    return index;
+  }
+
+  /**
+   * Applied migrations by id. Creates the migrations table on first use, and upgrades one written
+   * before checksums were kept (its rows get the checksums of the current files) or while they were
+   * taken from the raw file (rows matching the current file get its normalized checksum).
+   */
+  private getApplied(): Map<string, AppliedMigration> {
+    const db = this.dbManager.getConnection();
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS migrations (
+        id TEXT PRIMARY KEY,
+        applied_at TEXT NOT NULL,
+        description TEXT,
+        checksum TEXT,
+        app_version TEXT
+      )
+    `);
+    const columns = db.prepare(`PRAGMA table_info(migrations)`).all() as { name: string }[];
+    if (!columns.some((col) => col.name === 'checksum')) {
+      db.exec(`ALTER TABLE migrations ADD COLUMN checksum TEXT`);
+      db.exec(`ALTER TABLE migrations ADD COLUMN app_version TEXT`);
+      const backfill = db.prepare(`UPDATE migrations SET checksum = ? WHERE id = ?`);
+      this.migrations?.forEach((migration) => backfill.run(migration.checksum, migration.id));
+    }
+    const upgrade = db.prepare(`UPDATE migrations SET checksum = ? WHERE id = ? AND checksum = ?`);
+    this.migrations?.forEach((migration) => upgrade.run(migration.checksum, migration.id, this.fileChecksums.get(migration.id)));
+    const rows = db.prepare(`SELECT id, applied_at, description, checksum, app_version FROM migrations`).all() as AppliedMigration[];
+    return new Map(rows.map((row) => [row.id, row]));
+  }
+}
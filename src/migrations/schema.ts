@@ -0,0 +1,38 @@
+import type Database from 'better-sqlite3';
+
+/**
+ * Whether a table has a column. Migrations that add columns check first, because databases
+ * created before the schema moved into migrations may already have it.
+ */
+export function hasColumn(db: Database.Database, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  return columns.some((col) => col.name === column);
+}
+
+/**
+ * Recreates a table from its own CREATE TABLE statement as changed by `transform`, keeping its
+ * rows and indexes. SQLite can't alter constraints such as CHECK, so this is how they change.
+ * Returns false if the table doesn't exist or `transform` leaves it as it is.
+ */
+export function rebuildTable(db: Database.Database, table: string, transform: (tableSql: string) => string): boolean {
+  const tables = db.prepare(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?`).all(table) as { sql: string }[];
+  const tableSql = tables[0]?.sql;
+  if (!tableSql) {
+    return false;
+  }
+  const changedSql = transform(tableSql);
+  if (changedSql === tableSql) {
+    return false;
+  }
+  const newTableSql = changedSql.replace(new RegExp(`CREATE TABLE (IF NOT EXISTS )?"?${table}"?`), `CREATE TABLE ${table}_new`);
+  const indexes = db
+    .prepare(`SELECT sql FROM sqlite_master WHERE type = 'index' AND tbl_name = ? AND sql IS NOT NULL`)
+    .all(table) as { sql: string }[];
+
+  db.exec(newTableSql);
+  db.exec(`INSERT INTO ${table}_new SELECT * FROM ${table}`);
+  db.exec(`DROP TABLE ${table}`);
+  db.exec(`ALTER TABLE ${table}_new RENAME TO ${table}`);
+  indexes.forEach((index) => db.exec(index.sql));
+  return true;
+}
@@ -0,0 +1,12 @@
+import type Database from 'better-sqlite3';
+
+/**
+ * A schema change, loaded from a numbered file in the migrations directory. The runner applies
+ * each migration in its own transaction, so `up` and `down` must not open one themselves.
+ */
+export interface Migration {
+  id: string; // Recorded in the migrations table once applied; never change it
+  description: string;
+  up: (db: Database.Database) => void;
+  down?: (db: Database.Database) => void; // Left out when the change can't be reverted
+}
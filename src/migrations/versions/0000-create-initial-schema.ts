@@ -0,0 +1,62 @@
+import { Migration } from '../types';
+
+// The schema as it was before migrations; everything added since is a migration of its own, so
+// new and upgraded databases get the same changes in the same order
+export const migration: Migration = {
+  id: '2026-10-19-create-initial-schema',
+  description: 'Create media_items, batches and settings tables',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS media_items (
+        id TEXT PRIMARY KEY,
+        media_type TEXT CHECK(media_type IN ('photo', 'video')) NOT NULL,
+        mime_type TEXT NOT NULL,
+        original_path TEXT NOT NULL,
+        local_copy_path TEXT,
+        original_name TEXT NOT NULL,
+        size_bytes INTEGER,
+        creation_date TEXT,
+        sha256_hash TEXT,
+        visual_hash TEXT,
+        pixel_size TEXT,
+        duration_seconds REAL,
+        frame_rate REAL,
+        codec TEXT,
+        status TEXT CHECK(status IN ('pending', 'exported', 'uploaded', 'failed', 'skipped', 'skipped_icloud')),
+        retry_count INTEGER DEFAULT 0,
+        last_attempt_at TEXT,
+        google_photos_id TEXT,
+        error_message TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS batches (
+        id TEXT PRIMARY KEY,
+        created_at TEXT,
+        status TEXT CHECK(status IN ('planned', 'uploading', 'complete', 'failed')),
+        total_size INTEGER,
+        files_count INTEGER
+      );
+
+      CREATE TABLE IF NOT EXISTS settings (
+        key TEXT PRIMARY KEY,
+        value TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_media_status ON media_items(status);
+      CREATE INDEX IF NOT EXISTS idx_media_sha256_hash ON media_items(sha256_hash);
+      CREATE INDEX IF NOT EXISTS idx_media_type ON media_items(media_type);
+      CREATE INDEX IF NOT EXISTS idx_media_mime_type ON media_items(mime_type);
+      CREATE INDEX IF NOT EXISTS idx_media_retry_count ON media_items(retry_count);
+      CREATE INDEX IF NOT EXISTS idx_batches_status ON batches(status);
+      CREATE INDEX IF NOT EXISTS idx_media_type_status ON media_items(media_type, status);
+      CREATE INDEX IF NOT EXISTS idx_media_mime_status ON media_items(mime_type, status);
+    `);
+  },
+  down: (db) => {
+    db.exec(`
+      DROP TABLE settings;
+      DROP TABLE batches;
+      DROP TABLE media_items;
+    `);
+  },
+};
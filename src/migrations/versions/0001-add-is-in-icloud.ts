@@ -0,0 +1,15 @@
+import { Migration } from '../types';
+import { hasColumn } from '../schema';
+
+export const migration: Migration = {
+  id: '2023-04-20-add-is-in-icloud',
+  description: 'Add is_in_icloud column to media_items table',
+  up: (db) => {
+    if (!hasColumn(db, 'media_items', 'is_in_icloud')) {
+      db.exec(`ALTER TABLE media_items ADD COLUMN is_in_icloud INTEGER DEFAULT 0`);
+    }
+  },
+  down: (db) => {
+    db.exec(`ALTER TABLE media_items DROP COLUMN is_in_icloud`);
+  },
+};
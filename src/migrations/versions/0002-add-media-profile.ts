@@ -0,0 +1,19 @@
+import { Migration } from '../types';
+import { hasColumn } from '../schema';
+
+export const migration: Migration = {
+  id: '2026-10-19-add-media-profile',
+  description: 'Add profile column to media_items table',
+  up: (db) => {
+    if (!hasColumn(db, 'media_items', 'profile')) {
+      db.exec(`ALTER TABLE media_items ADD COLUMN profile TEXT`);
+      // Everything attempted before profiles existed went to the single (default) account
+      db.exec(`UPDATE media_items SET profile = 'default' WHERE status IN ('uploaded', 'failed')`);
+    }
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_media_profile_status ON media_items(profile, status)`);
+  },
+  down: (db) => {
+    db.exec(`DROP INDEX IF EXISTS idx_media_profile_status`);
+    db.exec(`ALTER TABLE media_items DROP COLUMN profile`);
+  },
+};
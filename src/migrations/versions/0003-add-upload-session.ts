@@ -0,0 +1,19 @@
+import { Migration } from '../types';
+import { hasColumn } from '../schema';
+
+export const migration: Migration = {
+  id: '2026-10-19-add-upload-session',
+  description: 'Add resumable upload session columns to media_items table',
+  up: (db) => {
+    if (!hasColumn(db, 'media_items', 'upload_session_url')) {
+      db.exec(`ALTER TABLE media_items ADD COLUMN upload_session_url TEXT`);
+    }
+    if (!hasColumn(db, 'media_items', 'upload_offset')) {
+      db.exec(`ALTER TABLE media_items ADD COLUMN upload_offset INTEGER`);
+    }
+  },
+  down: (db) => {
+    db.exec(`ALTER TABLE media_items DROP COLUMN upload_offset`);
+    db.exec(`ALTER TABLE media_items DROP COLUMN upload_session_url`);
+  },
+};
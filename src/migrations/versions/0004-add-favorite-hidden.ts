@@ -0,0 +1,19 @@
+import { Migration } from '../types';
+import { hasColumn } from '../schema';
+
+export const migration: Migration = {
+  id: '2026-10-19-add-favorite-hidden',
+  description: 'Add is_favorite and is_hidden columns to media_items table',
+  up: (db) => {
+    if (!hasColumn(db, 'media_items', 'is_favorite')) {
+      db.exec(`ALTER TABLE media_items ADD COLUMN is_favorite INTEGER DEFAULT 0`);
+    }
+    if (!hasColumn(db, 'media_items', 'is_hidden')) {
+      db.exec(`ALTER TABLE media_items ADD COLUMN is_hidden INTEGER DEFAULT 0`);
+    }
+  },
+  down: (db) => {
+    db.exec(`ALTER TABLE media_items DROP COLUMN is_hidden`);
+    db.exec(`ALTER TABLE media_items DROP COLUMN is_favorite`);
+  },
+};
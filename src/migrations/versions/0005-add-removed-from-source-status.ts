@@ -0,0 +1,20 @@
+import { Migration } from '../types';
+import { rebuildTable } from '../schema';
+
+// No down: the status items had before they were marked removed isn't recorded
+export const migration: Migration = {
+  id: '2026-10-19-add-removed-from-source-status',
+  description: 'Allow the removed_from_source status in media_items',
+  up: (db) => {
+    rebuildTable(db, 'media_items', (tableSql) => {
+      if (tableSql.includes('removed_from_source')) {
+        return tableSql;
+      }
+      const newTableSql = tableSql.replace(`'skipped_icloud')`, `'skipped_icloud', 'removed_from_source')`);
+      if (!newTableSql.includes('removed_from_source')) {
+        throw new Error('Could not find the status CHECK constraint in the media_items schema');
+      }
+      return newTableSql;
+    });
+  },
+};
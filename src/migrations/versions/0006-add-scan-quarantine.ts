@@ -0,0 +1,21 @@
+import { Migration } from '../types';
+
+export const migration: Migration = {
+  id: '2026-10-19-add-scan-quarantine',
+  description: 'Add scan_quarantine table for invalid scanner output',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS scan_quarantine (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        source TEXT NOT NULL,
+        local_identifier TEXT,
+        reason TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )
+    `);
+  },
+  down: (db) => {
+    db.exec(`DROP TABLE scan_quarantine`);
+  },
+};
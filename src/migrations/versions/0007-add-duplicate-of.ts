@@ -0,0 +1,15 @@
+import { Migration } from '../types';
+import { hasColumn } from '../schema';
+
+export const migration: Migration = {
+  id: '2026-10-19-add-duplicate-of',
+  description: 'Add duplicate_of column to media_items table',
+  up: (db) => {
+    if (!hasColumn(db, 'media_items', 'duplicate_of')) {
+      db.exec(`ALTER TABLE media_items ADD COLUMN duplicate_of TEXT`);
+    }
+  },
+  down: (db) => {
+    db.exec(`ALTER TABLE media_items DROP COLUMN duplicate_of`);
+  },
+};
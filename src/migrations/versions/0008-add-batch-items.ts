@@ -0,0 +1,19 @@
+import { Migration } from '../types';
+
+export const migration: Migration = {
+  id: '2026-10-19-add-batch-items',
+  description: 'Add batch_items table linking media items to upload batches',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS batch_items (
+        batch_id TEXT NOT NULL REFERENCES batches(id) ON DELETE CASCADE,
+        media_id TEXT NOT NULL,
+        PRIMARY KEY (batch_id, media_id)
+      )
+    `);
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_batch_items_media ON batch_items(media_id)`);
+  },
+  down: (db) => {
+    db.exec(`DROP TABLE batch_items`);
+  },
+};
@@ -0,0 +1,22 @@
+import { Migration } from '../types';
+
+export const migration: Migration = {
+  id: '2026-10-19-add-media-events',
+  description: 'Add media_events table recording media item status changes',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS media_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        media_id TEXT NOT NULL,
+        from_status TEXT NOT NULL,
+        to_status TEXT NOT NULL,
+        reason TEXT,
+        created_at TEXT NOT NULL
+      )
+    `);
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_media_events_media ON media_events(media_id)`);
+  },
+  down: (db) => {
+    db.exec(`DROP TABLE media_events`);
+  },
+};
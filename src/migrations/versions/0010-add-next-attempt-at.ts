@@ -0,0 +1,17 @@
+import { Migration } from '../types';
+import { hasColumn } from '../schema';
+
+export const migration: Migration = {
+  id: '2026-10-19-add-next-attempt-at',
+  description: 'Add next_attempt_at column to media_items table',
+  up: (db) => {
+    if (!hasColumn(db, 'media_items', 'next_attempt_at')) {
+      db.exec(`ALTER TABLE media_items ADD COLUMN next_attempt_at TEXT`);
+      // Items that failed before retries were scheduled are due right away
+      db.exec(`UPDATE media_items SET next_attempt_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE status = 'failed'`);
+    }
+  },
+  down: (db) => {
+    db.exec(`ALTER TABLE media_items DROP COLUMN next_attempt_at`);
+  },
+};
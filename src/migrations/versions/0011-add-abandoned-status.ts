@@ -0,0 +1,25 @@
+import { Migration } from '../types';
+import { rebuildTable } from '../schema';
+
+export const migration: Migration = {
+  id: '2026-10-19-add-abandoned-status',
+  description: 'Allow the abandoned status in media_items',
+  up: (db) => {
+    // Same rebuild as for removed_from_source, which this migration runs after
+    rebuildTable(db, 'media_items', (tableSql) => {
+      if (tableSql.includes(`'abandoned'`)) {
+        return tableSql;
+      }
+      const newTableSql = tableSql.replace(`'removed_from_source')`, `'removed_from_source', 'abandoned')`);
+      if (!newTableSql.includes(`'abandoned'`)) {
+        throw new Error('Could not find the status CHECK constraint in the media_items schema');
+      }
+      return newTableSql;
+    });
+  },
+  down: (db) => {
+    // Abandoned items go back to failed, which is what they were before they ran out of retries
+    db.exec(`UPDATE media_items SET status = 'failed' WHERE status = 'abandoned'`);
+    rebuildTable(db, 'media_items', (tableSql) => tableSql.replace(`'removed_from_source', 'abandoned')`, `'removed_from_source')`));
+  },
+};
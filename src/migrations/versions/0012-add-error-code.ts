@@ -0,0 +1,15 @@
+import { Migration } from '../types';
+import { hasColumn } from '../schema';
+
+export const migration: Migration = {
+  id: '2026-10-19-add-error-code',
+  description: 'Add error_code column to media_items table',
+  up: (db) => {
+    if (!hasColumn(db, 'media_items', 'error_code')) {
+      db.exec(`ALTER TABLE media_items ADD COLUMN error_code TEXT`);
+    }
+  },
+  down: (db) => {
+    db.exec(`ALTER TABLE media_items DROP COLUMN error_code`);
+  },
+};
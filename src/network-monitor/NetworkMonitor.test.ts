@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import path from 'path';
+import { NetworkMonitor, parseMeteredPolicy } from './NetworkMonitor';
+
+vi.mock('../utils/logger', () => {
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+  return { logger, createLogger: () => logger };
+});
+
+interface FakeUploadEndpoint {
+  url: string;
+  stop: () => Promise<void>;
+  start: () => Promise<void>;
+}
+
+// Local stand-in for the upload endpoint that can be taken down and brought back
+const { startFakeUploadEndpoint } = await import(path.join(process.cwd(), 'scripts', 'fake-upload-endpoint.mjs'));
+
+describe('NetworkMonitor', () => {
+  let endpoint: FakeUploadEndpoint;
+  let events: string[];
+
+  const createMonitor = (options = {}) => {
+    const monitor = new NetworkMonitor({ probeUrl: endpoint.url, probeTimeoutMs: 1000, pollIntervalMs: 20, ...options });
+    monitor.on('pause', (reason: string) => events.push(`pause: ${reason}`));
+    monitor.on('resume', () => events.push('resume'));
+    return monitor;
+  };
+
+  beforeEach(async () => {
+    endpoint = await startFakeUploadEndpoint();
+    events = [];
+  });
+
+  afterEach(async () => {
+    await endpoint.stop();
+  });
+
+  it('should stay online while the endpoint answers', async () => {
+    const monitor = createMonitor();
+
+    expect(await monitor.check()).toBe(true);
+    await monitor.waitUntilResumed();
+    expect(events).toEqual([]);
+  });
+
+  it('should pause while the endpoint is unreachable and resume on reconnect', async () => {
+    const monitor = createMonitor();
+    await endpoint.stop();
+
+    expect(await monitor.check()).toBe(false);
+    expect(monitor.isPaused).toBe(true);
+
+    let resumed = false;
+    const waiting = monitor.waitUntilResumed().then(() => (resumed = true));
+    const alsoWaiting = monitor.waitUntilResumed();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(resumed).toBe(false);
+
+    await endpoint.start();
+    await Promise.all([waiting, alsoWaiting]);
+
+    expect(events).toEqual([`pause: ${endpoint.url} is unreachable`, 'resume']);
+  });
+
+  it('should only pause on a metered connection when the policy says so', async () => {
+    const isMetered = vi.fn().mockReturnValue(true);
+
+    expect(await createMonitor({ isMetered }).check()).toBe(true);
+    expect(await createMonitor({ isMetered, meteredPolicy: 'pause' }).check()).toBe(false);
+    expect(events).toEqual(['pause: the connection is metered']);
+  });
+
+  it('should reject unknown metered policies', () => {
+    expect(parseMeteredPolicy('pause')).toBe('pause');
+    expect(() => parseMeteredPolicy('wifi-only')).toThrow(/allow, pause/);
+  });
+});
@@ -0,0 +1,119 @@
+import { EventEmitter } from 'events';
+import axios from 'axios';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('NetworkMonitor');
+
+// Bytes go to this endpoint, so it is the one that has to be reachable
+export const DEFAULT_PROBE_URL = 'https://photoslibrary.googleapis.com/v1/uploads';
+const DEFAULT_PROBE_TIMEOUT_MS = 5000;
+const DEFAULT_POLL_INTERVAL_MS = 15 * 1000;
+
+// What to do on a metered connection (e.g. a phone hotspot): keep uploading, or wait for another one
+export const METERED_POLICIES = ['allow', 'pause'] as const;
+export type MeteredPolicy = (typeof METERED_POLICIES)[number];
+export const DEFAULT_METERED_POLICY: MeteredPolicy = 'allow';
+
+export function parseMeteredPolicy(value: string): MeteredPolicy {
+  if (!(METERED_POLICIES as readonly string[]).includes(value)) {
+    throw new Error(`Unknown metered connection policy "${value}" (expected one of: ${METERED_POLICIES.join(', ')})`);
+  }
+  return value as MeteredPolicy;
+}
+
+export interface NetworkMonitorOptions {
+  probeUrl?: string; // Any HTTP response from it, even an error status, counts as online
+  probeTimeoutMs?: number;
+  pollIntervalMs?: number; // How often reachability is probed again while paused
+  meteredPolicy?: MeteredPolicy;
+  isMetered?: () => boolean | Promise<boolean>; // Detects a metered connection; none is assumed without it
+}
+
+/**
+ * Probes whether the upload endpoint is reachable. When it isn't (or the connection is metered and
+ * the policy says to pause), the monitor emits 'pause' with the reason and probes again every poll
+ * interval; once uploads may go on again it emits 'resume'. The upload loop checks before each batch
+ * and after a request fails without a response, and waits in waitUntilResumed() instead of failing
+ * items while the network is down.
+ */
+export class NetworkMonitor extends EventEmitter {
+  private probeUrl: string;
+  private probeTimeoutMs: number;
+  private pollIntervalMs: number;
+  private meteredPolicy: MeteredPolicy;
+  private isMetered?: () => boolean | Promise<boolean>;
+  private paused = false;
+  // Shared by everyone waiting, so a pause is probed by one loop rather than one per worker
+  private resumed: Promise<void> | null = null;
+
+  constructor(options: NetworkMonitorOptions = {}) {
+    super();
+    this.probeUrl = options.probeUrl ?? DEFAULT_PROBE_URL;
+    this.probeTimeoutMs = options.probeTimeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.meteredPolicy = options.meteredPolicy ?? DEFAULT_METERED_POLICY;
+    this.isMetered = options.isMetered;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Returns true if the probe URL answers at all. Only a failure to connect or a timeout counts as offline.
+   */
+  async isReachable(): Promise<boolean> {
+    try {
+      await axios({ method: 'head', url: this.probeUrl, timeout: this.probeTimeoutMs, validateStatus: () => true });
+      return true;
+    } catch (error: any) {
+      logger.debug(`Probe of ${this.probeUrl} failed: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Probes the network and pauses or resumes accordingly. Returns true if uploads may go on.
+   */
+  async check(): Promise<boolean> {
+    const reason = await this.getPauseReason();
+    if (reason && !this.paused) {
+      this.paused = true;
+      logger.warn(`Pausing uploads: ${reason}`);
+      this.emit('pause', reason);
+    } else if (!reason && this.paused) {
+      this.paused = false;
+      logger.info('Resuming uploads: the network is available again');
+      this.emit('resume');
+    }
+    return !this.paused;
+  }
+
+  /**
+   * Returns once uploads may go on. Returns right away unless the last check paused; probing is
+   * left to check(), so calling this before every item costs nothing while the network is up.
+   */
+  waitUntilResumed(): Promise<void> {
+    if (!this.paused) {
+      return Promise.resolve();
+    }
+    this.resumed ??= this.pollUntilResumed().finally(() => (this.resumed = null));
+    return this.resumed;
+  }
+
+  private async pollUntilResumed(): Promise<void> {
+    do {
+      await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+    } while (!(await this.check()));
+  }
+
+  private async getPauseReason(): Promise<string | null> {
+    if (!(await this.isReachable())) {
+      return `${this.probeUrl} is unreachable`;
+    }
+    if (this.meteredPolicy === 'pause' && this.isMetered && (await this.isMetered())) {
+      return 'the connection is metered';
+    }
+    return null;
+  }
+}
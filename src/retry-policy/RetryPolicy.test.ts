@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { RetryPolicy } from './RetryPolicy';
+import { DatabaseManager } from '../utils/database';
+
+vi.mock('../utils/logger', () => {
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+  return { logger, createLogger: () => logger };
+});
+
+const MINUTE = 60 * 1000;
+
+describe('RetryPolicy', () => {
+  let tmpDir: string;
+  let dbManager: DatabaseManager;
+
+  beforeEach(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'retry-policy-'));
+    dbManager = new DatabaseManager(path.join(tmpDir, 'test.sqlite'));
+    await dbManager.initialize();
+    dbManager.addMediaItem({
+      id: 'flaky',
+      media_type: 'photo',
+      mime_type: 'image/jpeg',
+      original_path: '/photos/flaky.jpg',
+      original_name: 'flaky.jpg',
+      status: 'pending',
+    });
+  });
+
+  afterEach(() => {
+    dbManager.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should double the delay with every failure up to the maximum', () => {
+    const policy = new RetryPolicy({ baseDelayMs: MINUTE, maxDelayMs: 5 * MINUTE });
+
+    expect([1, 2, 3, 4].map((failures) => policy.getRetryDelayMs(failures))).toEqual([MINUTE, 2 * MINUTE, 4 * MINUTE, 5 * MINUTE]);
+    expect(policy.getNextAttemptAt(2, undefined, Date.UTC(2026, 0, 1))).toBe('2026-01-01T00:02:00.000Z');
+  });
+
+  it('should stop scheduling attempts once the retries are used up', () => {
+    const policy = new RetryPolicy({ maxRetries: 2 });
+
+    expect(policy.getNextAttemptAt(2)).not.toBeNull();
+    expect(policy.getNextAttemptAt(3)).toBeNull();
+  });
+
+  it('should schedule failed items and pick them up again once they are due', () => {
+    const policy = new RetryPolicy({ maxRetries: 2, baseDelayMs: MINUTE });
+
+    expect(policy.recordFailure(dbManager, 'flaky', 'Upload failed')).toBe('failed');
+    const item = dbManager.getMediaById('flaky')!;
+    expect(item).toMatchObject({ status: 'failed', retry_count: 1, error_message: 'Upload failed' });
+    expect(Date.parse(item.next_attempt_at!) - Date.now()).toBeGreaterThan(MINUTE - 5000);
+    expect(dbManager.getPendingMedia(10)).toEqual([]);
+
+    dbManager.updateNextAttemptAt('flaky', new Date(Date.now() - 1000).toISOString());
+    expect(dbManager.getPendingMedia(10).map((pending) => pending.id)).toEqual(['flaky']);
+  });
+
+  it('should abandon an item after its last retry', () => {
+    const policy = new RetryPolicy({ maxRetries: 1 });
+
+    expect(policy.recordFailure(dbManager, 'flaky', 'Upload failed')).toBe('failed');
+    expect(policy.recordFailure(dbManager, 'flaky', 'Upload failed again')).toBe('abandoned');
+
+    expect(dbManager.getMediaById('flaky')).toMatchObject({ status: 'abandoned', retry_count: 2, error_message: 'Upload failed again' });
+    expect(dbManager.getMediaEvents('flaky').at(-1)).toMatchObject({
+      from_status: 'failed',
+      to_status: 'abandoned',
+      reason: 'Gave up after 2 failed attempts: Upload failed again',
+    });
+    dbManager.updateNextAttemptAt('flaky', new Date(Date.now() - 1000).toISOString());
+    expect(dbManager.getPendingMedia(10)).toEqual([]);
+  });
+
+  it('should abandon failures a retry cannot fix right away and record their error code', () => {
+    const policy = new RetryPolicy();
+
+    expect(policy.recordFailure(dbManager, 'flaky', 'File too large', 'too-large')).toBe('abandoned');
+
+    expect(dbManager.getMediaById('flaky')).toMatchObject({ status: 'abandoned', retry_count: 1, error_code: 'too-large' });
+    expect(dbManager.getMediaEvents('flaky').at(-1)?.reason).toBe('Not retried (too-large): File too large');
+  });
+
+  it('should wait at least an hour after a quota error', () => {
+    const policy = new RetryPolicy({ baseDelayMs: MINUTE });
+
+    expect(policy.getRetryDelayMs(1, 'quota')).toBe(60 * MINUTE);
+    expect(policy.getRetryDelayMs(1, 'server')).toBe(MINUTE);
+  });
+});
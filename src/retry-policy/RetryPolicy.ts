@@ -0,0 +1,79 @@
+import { DatabaseManager, MediaStatus } from '../utils/database';
+import { createLogger } from '../utils/logger';
+import { PERMANENT_UPLOAD_ERROR_CODES, UploadErrorCode } from '../uploader/UploadError';
+
+const logger = createLogger('RetryPolicy');
+
+export const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_BASE_DELAY_MS = 60 * 1000;
+const DEFAULT_MAX_DELAY_MS = 24 * 60 * 60 * 1000;
+// Quota is counted per day, so retrying sooner than this would just hit the limit again
+const QUOTA_MIN_DELAY_MS = 60 * 60 * 1000;
+
+export interface RetryPolicyOptions {
+  maxRetries?: number; // Failed items are attempted again this many times before they are abandoned
+  baseDelayMs?: number; // Wait before the first retry; doubles with every further failure
+  maxDelayMs?: number; // Upper bound on the wait between two attempts
+}
+
+/**
+ * Decides what happens to an item after a failed export or upload. Until it has been retried
+ * maxRetries times, the item stays 'failed' with a next_attempt_at after an exponential backoff,
+ * and the upload queue picks it up again once that time has passed. After that it is 'abandoned'
+ * and only comes back through 'retry-failed'. Failures a retry can't fix (see
+ * PERMANENT_UPLOAD_ERROR_CODES) are abandoned right away, and quota errors wait at least an hour.
+ */
+export class RetryPolicy {
+  readonly maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+
+  constructor(options: RetryPolicyOptions = {}) {
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+    this.maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  }
+
+  /**
+   * Wait before the next attempt of an item that has failed `failures` times.
+   */
+  getRetryDelayMs(failures: number, errorCode?: UploadErrorCode): number {
+    const delay = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** Math.max(0, failures - 1));
+    return errorCode === 'quota' ? Math.max(delay, QUOTA_MIN_DELAY_MS) : delay;
+  }
+
+  /**
+   * When an item that has failed `failures` times is due again, or null once it is out of retries
+   * or failed in a way a retry can't fix.
+   */
+  getNextAttemptAt(failures: number, errorCode?: UploadErrorCode, now: number = Date.now()): string | null {
+    if (failures > this.maxRetries || (errorCode && PERMANENT_UPLOAD_ERROR_CODES.includes(errorCode))) {
+      return null;
+    }
+    return new Date(now + this.getRetryDelayMs(failures, errorCode)).toISOString();
+  }
+
+  /**
+   * Records a failed attempt: counts it, and either schedules the next attempt or abandons the item.
+   * Returns the status the item ends up with.
+   */
+  recordFailure(dbManager: DatabaseManager, id: string, errorMessage: string, errorCode?: UploadErrorCode): MediaStatus {
+    const failures = dbManager.incrementRetryCount(id);
+    const nextAttemptAt = this.getNextAttemptAt(failures, errorCode);
+    let status: MediaStatus = 'failed';
+    if (nextAttemptAt === null) {
+      const reason = failures > this.maxRetries ? `Gave up after ${failures} failed attempts` : `Not retried (${errorCode})`;
+      logger.warn(`${reason} for item ${id}: ${errorMessage}`);
+      dbManager.updateMediaStatus(id, 'abandoned', errorMessage, `${reason}: ${errorMessage}`);
+      status = 'abandoned';
+    } else {
+      dbManager.updateMediaStatus(id, 'failed', errorMessage);
+      dbManager.updateNextAttemptAt(id, nextAttemptAt);
+      logger.debug(`Item ${id} will be retried after ${nextAttemptAt}`);
+    }
+    if (errorCode) {
+      dbManager.updateErrorCode(id, errorCode);
+    }
+    return status;
+  }
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Readable } from 'stream';
+import { BandwidthThrottle, parseThrottleSchedule } from './BandwidthThrottle';
+
+vi.mock('../utils/logger', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+// 8 Mbps is exactly 1,000,000 bytes per second
+const ONE_MB_PER_SECOND = 8;
+
+describe('BandwidthThrottle', () => {
+  describe('rate limiting', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ now: new Date(2026, 9, 19, 12, 0, 0) });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const track = (promise: Promise<void>) => {
+      const state = { done: false };
+      promise.then(() => (state.done = true));
+      return state;
+    };
+
+    it('should let bytes through at the configured rate', async () => {
+      const throttle = new BandwidthThrottle({ limitMbps: ONE_MB_PER_SECOND });
+      const request = track(throttle.consume(500_000));
+
+      await vi.advanceTimersByTimeAsync(400);
+      expect(request.done).toBe(false);
+      await vi.advanceTimersByTimeAsync(100);
+      expect(request.done).toBe(true);
+    });
+
+    it('should not wait when unlimited', async () => {
+      const throttle = new BandwidthThrottle();
+      await expect(throttle.consume(50_000_000)).resolves.toBeUndefined();
+    });
+
+    it('should share the rate between concurrent consumers', async () => {
+      const throttle = new BandwidthThrottle({ limitMbps: ONE_MB_PER_SECOND });
+      const first = track(throttle.consume(500_000));
+      const second = track(throttle.consume(500_000));
+
+      await vi.advanceTimersByTimeAsync(500);
+      expect(first.done).toBe(true);
+      expect(second.done).toBe(false);
+      await vi.advanceTimersByTimeAsync(500);
+      expect(second.done).toBe(true);
+    });
+
+    it('should apply a changed limit to a transfer already in progress', async () => {
+      const throttle = new BandwidthThrottle({ limitMbps: ONE_MB_PER_SECOND });
+      const request = track(throttle.consume(10_000_000)); // Would take 10 seconds
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(request.done).toBe(false);
+      throttle.setLimitMbps(null);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(request.done).toBe(true);
+    });
+
+    it('should reject a non-positive limit', () => {
+      expect(() => new BandwidthThrottle({ limitMbps: 0 })).toThrow(/positive/);
+    });
+  });
+
+  describe('schedules', () => {
+    const at = (hours: number, minutes: number = 0) => () => new Date(2026, 9, 19, hours, minutes);
+    const schedule = parseThrottleSchedule('22:00-07:00=unlimited,09:00-17:00=2');
+
+    it('should use the scheduled limit inside a window and the base limit outside', () => {
+      expect(new BandwidthThrottle({ limitMbps: 10, schedule, now: at(10, 30) }).getCurrentLimitMbps()).toBe(2);
+      expect(new BandwidthThrottle({ limitMbps: 10, schedule, now: at(17, 0) }).getCurrentLimitMbps()).toBe(10);
+      expect(new BandwidthThrottle({ limitMbps: 10, schedule, now: at(8, 59) }).getCurrentLimitMbps()).toBe(10);
+    });
+
+    it('should handle windows that wrap past midnight', () => {
+      expect(new BandwidthThrottle({ limitMbps: 10, schedule, now: at(23, 15) }).getCurrentLimitMbps()).toBeNull();
+      expect(new BandwidthThrottle({ limitMbps: 10, schedule, now: at(3, 0) }).getCurrentLimitMbps()).toBeNull();
+      expect(new BandwidthThrottle({ limitMbps: 10, schedule, now: at(7, 0) }).getCurrentLimitMbps()).toBe(10);
+    });
+
+    it('should parse schedule specs and reject malformed ones', () => {
+      expect(schedule).toEqual([
+        { from: '22:00', to: '07:00', limitMbps: null },
+        { from: '09:00', to: '17:00', limitMbps: 2 },
+      ]);
+      expect(() => parseThrottleSchedule('9-17=2')).toThrow(/Invalid throttle schedule entry/);
+      expect(() => parseThrottleSchedule('25:00-07:00=2')).toThrow(/Invalid time of day/);
+    });
+  });
+
+  describe('throttle stream', () => {
+    it('should pass all bytes through unchanged', async () => {
+      const throttle = new BandwidthThrottle({ limitMbps: 800 }); // 100MB/s keeps the test fast
+      const source = Readable.from([Buffer.alloc(64 * 1024, 1), Buffer.alloc(1000, 2)]);
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of throttle.throttle(source)) {
+        chunks.push(chunk as Buffer);
+      }
+
+      const output = Buffer.concat(chunks);
+      expect(output.length).toBe(64 * 1024 + 1000);
+      expect(output[output.length - 1]).toBe(2);
+    });
+
+    it('should propagate errors from the source', async () => {
+      const throttle = new BandwidthThrottle();
+      const source = new Readable({
+        read() {
+          this.destroy(new Error('disk read failed'));
+        },
+      });
+
+      await expect(async () => {
+        for await (const _chunk of throttle.throttle(source)) {
+          // Drain
+        }
+      }).rejects.toThrow('disk read failed');
+    });
+  });
+});
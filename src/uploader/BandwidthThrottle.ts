@@ -0,0 +1,190 @@
+import { Readable, Transform, pipeline } from 'stream';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('BandwidthThrottle');
+
+// Longest single sleep, so a changed limit or a schedule boundary is picked up quickly
+const MAX_WAIT_MS = 1000;
+// Smallest bucket, so low limits still let a reasonably sized piece through at once
+const MIN_BUCKET_BYTES = 16 * 1024;
+
+/**
+ * Limit that applies during part of the day. `from`/`to` are local "HH:MM" times;
+ * a rule whose `to` is earlier than `from` wraps past midnight. A null limit means unlimited.
+ */
+export interface ThrottleScheduleRule {
+  from: string;
+  to: string;
+  limitMbps: number | null;
+}
+
+export interface BandwidthThrottleOptions {
+  limitMbps?: number | null; // Applies outside scheduled windows; null or undefined means unlimited
+  schedule?: ThrottleScheduleRule[];
+  now?: () => Date; // For tests
+}
+
+/**
+ * Token-bucket rate limiter shared by all concurrent uploads. The bucket holds one second
+ * worth of bytes at the current rate and requests are served in arrival order.
+ */
+export class BandwidthThrottle {
+  private baseLimitMbps: number | null;
+  private schedule: ThrottleScheduleRule[];
+  private readonly now: () => Date;
+  private tokens = 0;
+  private lastRefill: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(options: BandwidthThrottleOptions = {}) {
+    this.baseLimitMbps = normalizeLimit(options.limitMbps);
+    this.schedule = options.schedule ?? [];
+    this.schedule.forEach(validateRule);
+    this.now = options.now ?? (() => new Date());
+    this.lastRefill = this.now().getTime();
+  }
+
+  /**
+   * Changes the limit used outside scheduled windows. Takes effect for uploads already running.
+   */
+  setLimitMbps(limitMbps: number | null): void {
+    this.baseLimitMbps = normalizeLimit(limitMbps);
+    logger.info(`Upload limit set to ${formatLimit(this.baseLimitMbps)}`);
+  }
+
+  setSchedule(schedule: ThrottleScheduleRule[]): void {
+    schedule.forEach(validateRule);
+    this.schedule = schedule;
+  }
+
+  /**
+   * The limit in effect right now, taking the schedule into account. Null means unlimited.
+   */
+  getCurrentLimitMbps(): number | null {
+    const current = this.now();
+    const minutes = current.getHours() * 60 + current.getMinutes();
+    const rule = this.schedule.find((candidate) => isWithinRule(candidate, minutes));
+    return rule ? normalizeLimit(rule.limitMbps) : this.baseLimitMbps;
+  }
+
+  /**
+   * Waits until `bytes` may be sent.
+   */
+  async consume(bytes: number): Promise<void> {
+    // Queue behind earlier requests so concurrent uploads share the bucket fairly
+    const previous = this.queue;
+    let done!: () => void;
+    this.queue = new Promise<void>((resolve) => (done = resolve));
+    await previous;
+
+    try {
+      let remaining = bytes;
+      while (remaining > 0) {
+        const limitMbps = this.getCurrentLimitMbps();
+        if (limitMbps === null) {
+          this.lastRefill = this.now().getTime();
+          return;
+        }
+
+        const bytesPerSecond = (limitMbps * 1_000_000) / 8;
+        const bucketSize = Math.max(bytesPerSecond, MIN_BUCKET_BYTES);
+        this.refill(bytesPerSecond, bucketSize);
+
+        const wanted = Math.min(remaining, bucketSize);
+        if (this.tokens >= wanted) {
+          this.tokens -= wanted;
+          remaining -= wanted;
+          continue;
+        }
+
+        const waitMs = Math.ceil(((wanted - this.tokens) / bytesPerSecond) * 1000);
+        await sleep(Math.min(waitMs, MAX_WAIT_MS));
+      }
+    } finally {
+      done();
+    }
+  }
+
+  /**
+   * Returns a stream that passes `source` through at the throttled rate.
+   */
+  throttle(source: Readable): Readable {
+    const transform = new Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        this.consume(chunk.length).then(() => callback(null, chunk), callback);
+      },
+    });
+    // pipeline forwards errors from the source and cleans up both streams
+    return pipeline(source, transform, () => undefined);
+  }
+
+  private refill(bytesPerSecond: number, bucketSize: number): void {
+    const now = this.now().getTime();
+    const elapsedSeconds = Math.max(0, now - this.lastRefill) / 1000;
+    this.tokens = Math.min(bucketSize, this.tokens + elapsedSeconds * bytesPerSecond);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Parses a schedule such as "22:00-07:00=unlimited,09:00-17:00=2" (limits in Mbps).
+ */
+export function parseThrottleSchedule(spec: string): ThrottleScheduleRule[] {
+  return spec
+    .split(',')
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0)
+    .map((part) => {
+      const match = /^(\d{1,2}:\d{2})-(\d{1,2}:\d{2})=(unlimited|\d+(?:\.\d+)?)$/.exec(part);
+      if (!match) {
+        throw new Error(`Invalid throttle schedule entry "${part}" (expected HH:MM-HH:MM=<Mbps|unlimited>)`);
+      }
+      const rule: ThrottleScheduleRule = {
+        from: match[1],
+        to: match[2],
+        limitMbps: match[3] === 'unlimited' ? null : Number(match[3]),
+      };
+      validateRule(rule);
+      return rule;
+    });
+}
+
+function normalizeLimit(limitMbps: number | null | undefined): number | null {
+  if (limitMbps === null || limitMbps === undefined) {
+    return null;
+  }
+  if (!(limitMbps > 0)) {
+    throw new Error(`Upload limit must be a positive number of Mbps (got ${limitMbps})`);
+  }
+  return limitMbps;
+}
+
+function validateRule(rule: ThrottleScheduleRule): void {
+  parseTimeOfDay(rule.from);
+  parseTimeOfDay(rule.to);
+  normalizeLimit(rule.limitMbps);
+}
+
+function parseTimeOfDay(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  const hours = match ? Number(match[1]) : NaN;
+  const minutes = match ? Number(match[2]) : NaN;
+  if (!(hours >= 0 && hours < 24 && minutes >= 0 && minutes < 60)) {
+    throw new Error(`Invalid time of day "${value}" (expected HH:MM)`);
+  }
+  return hours * 60 + minutes;
+}
+
+function isWithinRule(rule: ThrottleScheduleRule, minutes: number): boolean {
+  const from = parseTimeOfDay(rule.from);
+  const to = parseTimeOfDay(rule.to);
+  return from <= to ? minutes >= from && minutes < to : minutes >= from || minutes < to;
+}
+
+function formatLimit(limitMbps: number | null): string {
+  return limitMbps === null ? 'unlimited' : `${limitMbps} Mbps`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
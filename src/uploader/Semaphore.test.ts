@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { Semaphore } from './Semaphore';
+
+// Lets pending promise callbacks run
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('Semaphore', () => {
+  it('should reject a non-positive capacity', () => {
+    expect(() => new Semaphore(0)).toThrow(/must be positive/);
+  });
+
+  it('should limit the number of concurrent holders', async () => {
+    const semaphore = new Semaphore(2);
+    let running = 0;
+    let maxRunning = 0;
+    const releases: (() => void)[] = [];
+
+    const tasks = [1, 2, 3, 4].map(() =>
+      semaphore.run(async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise<void>((resolve) => releases.push(resolve));
+        running--;
+      })
+    );
+
+    await flush();
+    expect(running).toBe(2);
+    while (releases.length > 0) {
+      releases.shift()!();
+      await flush();
+    }
+    await Promise.all(tasks);
+
+    expect(maxRunning).toBe(2);
+    expect(semaphore.inUse).toBe(0);
+  });
+
+  it('should serve waiters in order even if a later one would fit', async () => {
+    const semaphore = new Semaphore(10);
+    const order: string[] = [];
+
+    await semaphore.acquire(6);
+    const large = semaphore.acquire(8).then(() => order.push('large'));
+    const small = semaphore.acquire(3).then(() => order.push('small'));
+    await flush();
+    expect(order).toEqual([]); // 'small' fits but must queue behind 'large'
+
+    semaphore.release(6);
+    await large;
+    expect(order).toEqual(['large']);
+    semaphore.release(8);
+    await small;
+    expect(order).toEqual(['large', 'small']);
+  });
+
+  it('should cap requests larger than the capacity so they can run alone', async () => {
+    const semaphore = new Semaphore(100);
+    const granted = await semaphore.acquire(250);
+
+    expect(granted).toBe(100);
+    expect(semaphore.inUse).toBe(100);
+    semaphore.release(granted);
+    expect(semaphore.inUse).toBe(0);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Counting semaphore with weighted permits, used for the upload worker slots and the
+ * in-flight byte budget. Waiters are served in FIFO order so a large request is not
+ * starved by a stream of small ones.
+ */
+export class Semaphore {
+  private available: number;
+  private waiters: { weight: number; resolve: () => void }[] = [];
+
+  constructor(readonly capacity: number) {
+    if (!(capacity > 0)) {
+      throw new Error(`Semaphore capacity must be positive (got ${capacity})`);
+    }
+    this.available = capacity;
+  }
+
+  /**
+   * Number of permits currently held.
+   */
+  get inUse(): number {
+    return this.capacity - this.available;
+  }
+
+  /**
+   * Waits until `weight` permits are free and takes them. A request larger than the whole
+   * capacity would never fit, so it is capped and ends up running on its own.
+   * Returns the number of permits taken, which must be passed to release().
+   */
+  async acquire(weight: number = 1): Promise<number> {
+    const granted = Math.min(Math.max(weight, 0), this.capacity);
+    if (this.waiters.length === 0 && granted <= this.available) {
+      this.available -= granted;
+      return granted;
+    }
+    await new Promise<void>((resolve) => this.waiters.push({ weight: granted, resolve }));
+    return granted;
+  }
+
+  release(weight: number = 1): void {
+    this.available = Math.min(this.capacity, this.available + weight);
+    while (this.waiters.length > 0 && this.waiters[0].weight <= this.available) {
+      const waiter = this.waiters.shift()!;
+      this.available -= waiter.weight;
+      waiter.resolve();
+    }
+  }
+
+  /**
+   * Runs `task` while holding `weight` permits.
+   */
+  async run<T>(task: () => Promise<T>, weight: number = 1): Promise<T> {
+    const granted = await this.acquire(weight);
+    try {
+      return await task();
+    } finally {
+      this.release(granted);
+    }
+  }
+}
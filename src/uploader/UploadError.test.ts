@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AuthError,
+  NetworkError,
+  QuotaError,
+  ServerError,
+  TooLargeError,
+  UploadError,
+  classifyItemStatus,
+  classifyRequestError,
+  parseUploadErrorCode,
+} from './UploadError';
+
+const axiosError = (status?: number) => ({
+  isAxiosError: true,
+  message: status ? `Request failed with status code ${status}` : 'socket hang up',
+  response: status ? { status } : undefined,
+});
+
+describe('UploadError', () => {
+  it('should classify failed requests by their HTTP status', () => {
+    expect(classifyRequestError(axiosError(401), 'byte upload')).toBeInstanceOf(AuthError);
+    expect(classifyRequestError(axiosError(429), 'byte upload')).toBeInstanceOf(QuotaError);
+    expect(classifyRequestError(axiosError(413), 'byte upload')).toBeInstanceOf(TooLargeError);
+    expect(classifyRequestError(axiosError(503), 'byte upload')).toMatchObject({ code: 'server', message: 'Server error 503 during byte upload' });
+    expect(classifyRequestError(axiosError(400), 'byte upload')).toMatchObject({ code: 'unknown' });
+    expect(classifyRequestError(axiosError(), 'byte upload')).toBeInstanceOf(NetworkError);
+  });
+
+  it('should classify a file that disappeared and pass classified errors through', () => {
+    const enoent = Object.assign(new Error('ENOENT: no such file or directory'), { code: 'ENOENT' });
+    const server = new ServerError('Create media item response invalid');
+
+    expect(classifyRequestError(enoent, 'byte upload').code).toBe('file-missing');
+    expect(classifyRequestError(server, 'media item creation')).toBe(server);
+    expect(classifyRequestError(new Error('boom'), 'byte upload')).toMatchObject({ code: 'unknown', message: 'boom' });
+  });
+
+  it('should classify the status batchCreate reports for an item', () => {
+    expect(classifyItemStatus(3, 'Invalid upload token').code).toBe('token-expired');
+    expect(classifyItemStatus(3, 'Failed: There was an error while trying to create this media item.').code).toBe('unsupported-format');
+    expect(classifyItemStatus(8, 'Quota exceeded').code).toBe('quota');
+    expect(classifyItemStatus(14, 'Unavailable')).toMatchObject({
+      code: 'server',
+      message: 'API error creating media item: Unavailable (Code: 14)',
+    });
+    expect(classifyItemStatus(9, 'Failed precondition')).toBeInstanceOf(UploadError);
+  });
+
+  it('should reject unknown error codes', () => {
+    expect(parseUploadErrorCode('quota')).toBe('quota');
+    expect(() => parseUploadErrorCode('timeout')).toThrow('Unknown error code "timeout"');
+  });
+});
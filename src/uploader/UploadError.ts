@@ -0,0 +1,164 @@
+import axios from 'axios';
+
+export const UPLOAD_ERROR_CODES = [
+  'auth',
+  'quota',
+  'network',
+  'file-missing',
+  'unsupported-format',
+  'too-large',
+  'token-expired',
+  'server',
+  'unknown',
+] as const;
+
+/**
+ * Why an upload failed, stored in media_items.error_code:
+ *   auth               - Google rejected the credentials or the account lacks permission
+ *   quota              - the API quota or rate limit was hit
+ *   network            - no response, e.g. a timeout or a dropped connection
+ *   file-missing       - the local file to upload isn't there
+ *   unsupported-format - Google can't take the file as a photo or video
+ *   too-large          - the file is over Google Photos' size limit
+ *   token-expired      - the upload token was no longer valid when the media item was created
+ *   server             - Google failed on its side (5xx, Internal, Unavailable or a malformed response)
+ *   unknown            - anything else
+ */
+export type UploadErrorCode = (typeof UPLOAD_ERROR_CODES)[number];
+
+// Failures a later attempt can't fix, so retrying them only wastes quota
+export const PERMANENT_UPLOAD_ERROR_CODES: readonly UploadErrorCode[] = ['unsupported-format', 'too-large'];
+
+export function parseUploadErrorCode(value: string): UploadErrorCode {
+  if (!(UPLOAD_ERROR_CODES as readonly string[]).includes(value)) {
+    throw new Error(`Unknown error code "${value}" (expected one of: ${UPLOAD_ERROR_CODES.join(', ')})`);
+  }
+  return value as UploadErrorCode;
+}
+
+/**
+ * A failed upload of one item, with the reason classified
+ */
+export class UploadError extends Error {
+  readonly code: UploadErrorCode;
+
+  constructor(code: UploadErrorCode, message: string) {
+    super(message);
+    this.name = 'UploadError';
+    this.code = code;
+  }
+}
+
+export class AuthError extends UploadError {
+  constructor(message: string) {
+    super('auth', message);
+    this.name = 'AuthError';
+  }
+}
+
+export class QuotaError extends UploadError {
+  constructor(message: string) {
+    super('quota', message);
+    this.name = 'QuotaError';
+  }
+}
+
+export class NetworkError extends UploadError {
+  constructor(message: string) {
+    super('network', message);
+    this.name = 'NetworkError';
+  }
+}
+
+export class FileMissingError extends UploadError {
+  constructor(message: string) {
+    super('file-missing', message);
+    this.name = 'FileMissingError';
+  }
+}
+
+export class UnsupportedFormatError extends UploadError {
+  constructor(message: string) {
+    super('unsupported-format', message);
+    this.name = 'UnsupportedFormatError';
+  }
+}
+
+export class TooLargeError extends UploadError {
+  constructor(message: string) {
+    super('too-large', message);
+    this.name = 'TooLargeError';
+  }
+}
+
+export class TokenExpiredError extends UploadError {
+  constructor(message: string) {
+    super('token-expired', message);
+    this.name = 'TokenExpiredError';
+  }
+}
+
+export class ServerError extends UploadError {
+  constructor(message: string) {
+    super('server', message);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * Turns whatever a request to Google (or reading the file) threw into an UploadError.
+ * `during` names the step for the message, e.g. "byte upload".
+ */
+export function classifyRequestError(error: unknown, during: string): UploadError {
+  if (error instanceof UploadError) {
+    return error;
+  }
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    if (!status) {
+      return new NetworkError(`Network error during ${during}: ${error.message}`);
+    }
+    if (status === 401 || status === 403) {
+      return new AuthError(`Unauthorized (${status}) during ${during}`);
+    }
+    if (status === 429) {
+      return new QuotaError(`Quota exceeded (429) during ${during}`);
+    }
+    if (status === 413) {
+      return new TooLargeError(`File too large (413) during ${during}`);
+    }
+    if (status === 415) {
+      return new UnsupportedFormatError(`Unsupported media type (415) during ${during}`);
+    }
+    if (status >= 500) {
+      return new ServerError(`Server error ${status} during ${during}`);
+    }
+    return new UploadError('unknown', `Non-retriable API error ${status} during ${during}`);
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+    return new FileMissingError(`File disappeared during ${during}: ${message}`);
+  }
+  return new UploadError('unknown', message);
+}
+
+/**
+ * Classifies the status batchCreate reports for a single media item (a google.rpc.Status).
+ */
+export function classifyItemStatus(code: number, message: string): UploadError {
+  const errorMessage = `API error creating media item: ${message} (Code: ${code})`;
+  switch (code) {
+    case 3: // INVALID_ARGUMENT: an unusable upload token, or bytes Google can't process as media
+      return /token/i.test(message) ? new TokenExpiredError(errorMessage) : new UnsupportedFormatError(errorMessage);
+    case 7: // PERMISSION_DENIED
+    case 16: // UNAUTHENTICATED
+      return new AuthError(errorMessage);
+    case 8: // RESOURCE_EXHAUSTED
+      return new QuotaError(errorMessage);
+    case 13: // INTERNAL
+    case 14: // UNAVAILABLE
+      return new ServerError(errorMessage);
+    default:
+      return new UploadError('unknown', errorMessage);
+  }
+}
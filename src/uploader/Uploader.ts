@@ -1,11 +1,28 @@
 import { DatabaseManager, MediaItem } from '../utils/database';
-import { AuthManager } from '../auth/AuthManager'; // Assuming AuthManager lives here
+import { AuthManager, DEFAULT_PROFILE } from '../auth/AuthManager'; // Assuming AuthManager lives here
 import { createLogger } from '../utils/logger';
 import path from 'path'; // Import path module
 import fs from 'fs'; // Import fs module
+import { Readable } from 'stream';
 import axios, { AxiosRequestConfig, AxiosError } from 'axios'; // Import axios
 import retry from 'async-retry'; // Import async-retry
-// TODO: Import necessary HTTP client (e.g., axios)
+import { Semaphore } from './Semaphore';
+import { BandwidthThrottle } from './BandwidthThrottle';
+import { BatchPlanner } from '../batch-planner/BatchPlanner';
+import { StagingExporter } from '../exporter/StagingExporter';
+import { DiskMonitor } from '../disk-monitor/DiskMonitor';
+import { NetworkMonitor } from '../network-monitor/NetworkMonitor';
+import { RetryPolicy } from '../retry-policy/RetryPolicy';
+import {
+    AuthError,
+    FileMissingError,
+    ServerError,
+    TooLargeError,
+    UnsupportedFormatError,
+    UploadError,
+    classifyItemStatus,
+    classifyRequestError,
+} from './UploadError';
 
 const logger = createLogger('Uploader');
 
@@ -13,123 +30,415 @@ const logger = createLogger('Uploader');
 const GOOGLE_PHOTOS_API_BASE_URL = 'https://photoslibrary.googleapis.com/v1';
 const UPLOAD_ENDPOINT = `${GOOGLE_PHOTOS_API_BASE_URL}/uploads`;
 const MEDIA_ITEMS_CREATE_ENDPOINT = `${GOOGLE_PHOTOS_API_BASE_URL}/mediaItems:batchCreate`;
+const MAX_ITEMS_PER_BATCH_CREATE = 50; // API limit for newMediaItems per batchCreate call
+// Largest files Google Photos accepts
+const MAX_PHOTO_BYTES = 200 * 1024 * 1024; // 200MB
+const MAX_VIDEO_BYTES = 20 * 1024 * 1024 * 1024; // 20GB
+
+// Resumable upload chunk sizes - videos use larger chunks (FSD 5.3)
+const PHOTO_CHUNK_SIZE = 1024 * 1024; // 1MB
+const VIDEO_CHUNK_SIZE = 5 * 1024 * 1024; // 5MB
+// Every chunk except the last must be a multiple of this; Google may announce a different value
+const DEFAULT_CHUNK_GRANULARITY = 256 * 1024;
+
+// Worker pool defaults
+const DEFAULT_PHOTO_CONCURRENCY = 4;
+const DEFAULT_VIDEO_CONCURRENCY = 2;
+const DEFAULT_MAX_IN_FLIGHT_BYTES = 1024 * 1024 * 1024; // 1GB
+
+export interface UploaderOptions {
+    photoConcurrency?: number; // Photos uploaded in parallel
+    videoConcurrency?: number; // Videos uploaded in parallel (counted separately from photos)
+    maxInFlightBytes?: number; // Upper bound on the combined size of files being uploaded at once
+    throttle?: BandwidthThrottle; // Shared by all workers; uploads run at full speed without one
+    diskMonitor?: DiskMonitor; // No new batch is planned or staged while it is paused for low disk space
+    networkMonitor?: NetworkMonitor; // Uploads are held while it finds the network unavailable
+    retryPolicy?: RetryPolicy; // When failed items are attempted again, and when they are abandoned
+}
+
+/**
+ * Counts of what happened to the items handled by an upload run.
+ */
+export interface UploadQueueResult {
+    processed: number;
+    uploaded: number;
+    failed: number;
+    skipped: number;
+    authFailed: boolean; // True if the run stopped because no access token was available
+}
+
+type ItemOutcome = 'uploaded' | 'failed' | 'skipped';
+
+/**
+ * An item whose bytes have been uploaded and which is waiting for mediaItems:batchCreate.
+ */
+interface UploadedBytes {
+    item: MediaItem;
+    uploadToken: string;
+}
+
+/**
+ * Result of creating a single media item, keyed by upload token in createMediaItems.
+ */
+interface CreationResult {
+    success: boolean;
+    mediaItemId?: string;
+    error?: UploadError;
+}
+
+/**
+ * Raised when the AuthManager cannot provide an access token.
+ * Items are left untouched since retrying them without credentials is pointless.
+ */
+class AccessTokenUnavailableError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AccessTokenUnavailableError';
+    }
+}
+
+interface UploadSession {
+    url: string;
+    offset: number; // Bytes Google has acknowledged so far
+    granularity: number;
+}
+
+function createEmptyResult(): UploadQueueResult {
+    return { processed: 0, uploaded: 0, failed: 0, skipped: 0, authFailed: false };
+}
+
+function getChunkSize(isVideo: boolean, granularity: number): number {
+    const preferred = isVideo ? VIDEO_CHUNK_SIZE : PHOTO_CHUNK_SIZE;
+    return Math.max(granularity, Math.floor(preferred / granularity) * granularity);
+}
 
 export class Uploader {
     private dbManager: DatabaseManager;
     private authManager: AuthManager;
+    private profile: string;
+    private photoSlots: Semaphore;
+    private videoSlots: Semaphore;
+    private byteBudget: Semaphore;
+    private throttle?: BandwidthThrottle;
+    private diskMonitor?: DiskMonitor;
+    private networkMonitor?: NetworkMonitor;
+    private retryPolicy: RetryPolicy;
+    // Token request shared by all workers, so an expired token is refreshed once rather than once per worker
+    private pendingAccessToken: Promise<string> | null = null;
 
-    constructor(dbManager: DatabaseManager, authManager: AuthManager) {
+    constructor(dbManager: DatabaseManager, authManager: AuthManager, options: UploaderOptions = {}) {
         this.dbManager = dbManager;
         this.authManager = authManager;
-        logger.info('Uploader initialized.');
+        // Uploads go to the AuthManager's Google account, so the queue is scoped to the same profile
+        this.profile = authManager.profile ?? DEFAULT_PROFILE;
+        this.photoSlots = new Semaphore(options.photoConcurrency ?? DEFAULT_PHOTO_CONCURRENCY);
+        this.videoSlots = new Semaphore(options.videoConcurrency ?? DEFAULT_VIDEO_CONCURRENCY);
+        this.byteBudget = new Semaphore(options.maxInFlightBytes ?? DEFAULT_MAX_IN_FLIGHT_BYTES);
+        this.throttle = options.throttle;
+        this.diskMonitor = options.diskMonitor;
+        this.networkMonitor = options.networkMonitor;
+        this.retryPolicy = options.retryPolicy ?? new RetryPolicy();
+        logger.info(`Uploader initialized (profile: ${this.profile}, photo workers: ${this.photoSlots.capacity}, video workers: ${this.videoSlots.capacity}).`);
     }
 
     /**
      * Processes the upload queue, fetching pending items and uploading them.
+     * Photos and videos are uploaded in parallel up to their configured concurrency.
+     * Stops early (leaving the remaining items pending) if no access token can be obtained.
      */
-    async processUploadQueue(batchSize: number = 5): Promise<void> {
+    async processUploadQueue(batchSize: number = 5): Promise<UploadQueueResult> {
         logger.info(`Processing upload queue (batch size: ${batchSize})...`);
         
-        const pendingItems = this.dbManager.getPendingMedia(batchSize);
+        const pendingItems = this.dbManager.getPendingMedia(batchSize, this.profile);
         if (pendingItems.length === 0) {
             logger.info('No pending items found in the queue.');
-            return;
+            return createEmptyResult();
         }
 
         logger.info(`Found ${pendingItems.length} pending items to upload.`);
+        return this.uploadItems(pendingItems);
+    }
+
+    /**
+     * Uploads the given items, photos and videos in parallel up to their configured concurrency.
+     * Stops early (leaving the remaining items pending) if no access token can be obtained.
+     */
+    async uploadItems(pendingItems: MediaItem[]): Promise<UploadQueueResult> {
+        const result = createEmptyResult();
 
-        for (const item of pendingItems) {
+        // Bytes are uploaded item by item; media items are created afterwards in batchCreate groups
+        const uploaded: UploadedBytes[] = [];
+
+        // Each item only ever touches its own row and the database calls are synchronous,
+        // so concurrent workers cannot interleave partial status updates
+        const uploadItem = async (item: MediaItem) => {
+            if (result.authFailed) {
+                // Another worker lost authentication - leave the rest pending
+                return;
+            }
+            await this.networkMonitor?.waitUntilResumed();
             try {
                 logger.info(`Attempting to upload item: ${item.id} (${item.original_name})`);
-                await this.uploadMediaItem(item);
+                const outcome = await this.uploadMediaItem(item);
+                if (typeof outcome === 'string') {
+                    result[outcome]++;
+                } else {
+                    uploaded.push(outcome);
+                }
                 logger.info(`Successfully processed item: ${item.id}`);
             } catch (error: any) {
+                if (error instanceof AccessTokenUnavailableError) {
+                    // Not the item's fault - leave it pending and stop the run
+                    logger.error(`Aborting upload queue: ${error.message}`);
+                    result.authFailed = true;
+                    return;
+                }
                 logger.error(`Failed to upload item ${item.id}: ${error.message}`, { error });
-                // TODO: Implement retry logic and update item status to 'failed'
-                // this.dbManager.updateMediaStatus(item.id, 'failed', error.message);
-                // this.dbManager.incrementRetryCount(item.id);
+                const failure = classifyRequestError(error, 'upload');
+                this.retryPolicy.recordFailure(this.dbManager, item.id, failure.message, failure.code);
+                result.failed++;
+            } finally {
+                result.processed++;
+            }
+        };
+
+        await Promise.all(pendingItems.map(item => {
+            const slots = item.media_type === 'video' ? this.videoSlots : this.photoSlots;
+            return slots.run(() => uploadItem(item));
+        }));
+
+        if (uploaded.length > 0) {
+            try {
+                await this.commitUploadedItems(uploaded, result);
+            } catch (error: any) {
+                if (!(error instanceof AccessTokenUnavailableError)) {
+                    throw error;
+                }
+                // Items stay pending; their bytes are uploaded again on the next run
+                logger.error(`Could not create media items: ${error.message}`);
+                result.authFailed = true;
             }
         }
         
         logger.info('Finished processing current batch of uploads.');
-        // Consider recursively calling if more pending items exist?
+        return result;
     }
 
     /**
-     * Uploads a single media item.
-     * (Placeholder for Tasks 1.5.2 and 1.5.3)
+     * Repeatedly processes batches until no pending items remain (or authentication fails).
+     * Returns the totals accumulated over all batches.
      */
-    private async uploadMediaItem(item: MediaItem): Promise<void> {
-        logger.debug(`Uploading media item: ${item.id}`, { item });
+    async drainUploadQueue(batchSize: number = 5): Promise<UploadQueueResult> {
+        const totals = createEmptyResult();
 
-        // 1. Get Access Token (Task 1.3)
-        const accessToken = await this.authManager.getAccessToken(); // Assuming this method exists
+        while (true) {
+            const batch = await this.processUploadQueue(batchSize);
+            totals.processed += batch.processed;
+            totals.uploaded += batch.uploaded;
+            totals.failed += batch.failed;
+            totals.skipped += batch.skipped;
+
+            if (batch.authFailed) {
+                totals.authFailed = true;
+                break;
+            }
+            if (batch.processed === 0) {
+                break;
+            }
+        }
+
+        logger.info(`Upload queue drained. Uploaded: ${totals.uploaded}, Failed: ${totals.failed}, Skipped: ${totals.skipped}`);
+        return totals;
+    }
+
+    /**
+     * Uploads batch after batch as the planner plans them, resuming a batch an earlier run left open,
+     * until nothing that fits is pending (or authentication fails). Returns the totals over all batches.
+     * With an exporter, each batch is staged before it is uploaded and its staging folder is removed
+     * once the batch is committed. No new batch is planned while the disk monitor is paused, but a
+     * staged batch (including the open one) is still uploaded, since uploading writes nothing and
+     * its cleanup frees space. Batches and items wait while the network monitor is paused.
+     */
+    async uploadPlannedBatches(planner: BatchPlanner, exporter?: StagingExporter): Promise<UploadQueueResult> {
+        const totals = createEmptyResult();
+
+        let planned = planner.resumeOpenBatch();
+        if (!planned) {
+            await this.diskMonitor?.waitUntilResumed();
+            planned = planner.planNextBatch();
+        }
+        while (planned) {
+            if (this.networkMonitor) {
+                await this.networkMonitor.check();
+                await this.networkMonitor.waitUntilResumed();
+            }
+            planner.startBatch(planned.batch.id);
+            let items = planned.items;
+            if (exporter) {
+                const staged = await exporter.exportBatch(planned.batch.id, items);
+                items = staged.exported;
+                totals.processed += staged.failed;
+                totals.failed += staged.failed;
+            }
+            const batch = await this.uploadItems(items);
+            planner.finishBatch(planned.batch.id);
+            exporter?.cleanupBatch(planned.batch.id);
+
+            totals.processed += batch.processed;
+            totals.uploaded += batch.uploaded;
+            totals.failed += batch.failed;
+            totals.skipped += batch.skipped;
+
+            if (batch.authFailed) {
+                totals.authFailed = true;
+                break;
+            }
+            await this.diskMonitor?.waitUntilResumed();
+            planned = planner.planNextBatch();
+        }
+
+        logger.info(`Planned batches uploaded. Uploaded: ${totals.uploaded}, Failed: ${totals.failed}, Skipped: ${totals.skipped}`);
+        return totals;
+    }
+
+    /**
+     * Creates media items for uploaded bytes in groups of up to MAX_ITEMS_PER_BATCH_CREATE
+     * and records the outcome of each item in the database and in `result`.
+     */
+    private async commitUploadedItems(uploaded: UploadedBytes[], result: UploadQueueResult): Promise<void> {
+        const accessToken = await this.getAccessToken();
+
+        for (let start = 0; start < uploaded.length; start += MAX_ITEMS_PER_BATCH_CREATE) {
+            const group = uploaded.slice(start, start + MAX_ITEMS_PER_BATCH_CREATE);
+            const creationResults = await this.createMediaItems(group, accessToken);
+
+            for (const { item, uploadToken } of group) {
+                const creation = creationResults.get(uploadToken);
+                if (creation?.success) {
+                    this.dbManager.updateMediaStatus(item.id, 'uploaded');
+                    if (creation.mediaItemId) {
+                        this.dbManager.updateGooglePhotosId(item.id, creation.mediaItemId);
+                    }
+                    logger.info(`Successfully created media item and updated DB for item ${item.id} (Google ID: ${creation.mediaItemId || 'N/A'})`);
+                    result.uploaded++;
+                } else {
+                    const error = creation?.error ?? new ServerError(`Failed to create media item in Google Photos for item ${item.id}.`);
+                    logger.error(`Failed to create media item for item ${item.id}: ${error.message}`);
+                    this.retryPolicy.recordFailure(this.dbManager, item.id, error.message, error.code);
+                    result.failed++;
+                }
+            }
+        }
+    }
+
+    /**
+     * Gets an access token, turning any failure into AccessTokenUnavailableError.
+     * Concurrent callers share a single request to the AuthManager.
+     */
+    private getAccessToken(): Promise<string> {
+        if (!this.pendingAccessToken) {
+            this.pendingAccessToken = this.requestAccessToken().finally(() => {
+                this.pendingAccessToken = null;
+            });
+        }
+        return this.pendingAccessToken;
+    }
+
+    private async requestAccessToken(): Promise<string> {
+        let accessToken: string | null | undefined;
+        try {
+            accessToken = await this.authManager.getAccessToken();
+        } catch (error: any) {
+            throw new AccessTokenUnavailableError(error.message);
+        }
         if (!accessToken) {
             // AuthManager should handle refresh internally or throw if it fails completely
-            logger.error(`Failed to obtain access token for item ${item.id}. AuthManager did not provide one.`);
-            throw new Error('Failed to obtain access token.');
+            throw new AccessTokenUnavailableError('Failed to obtain access token.');
+        }
+        return accessToken;
+    }
+
+    /**
+     * Uploads the bytes of a single media item.
+     * Returns the upload token for batchCreate, or the final outcome if the item was not uploaded.
+     * Throws if the upload failed in a way the caller should record.
+     */
+    private async uploadMediaItem(item: MediaItem): Promise<ItemOutcome | UploadedBytes> {
+        logger.debug(`Uploading media item: ${item.id}`, { item });
+
+        // 1. Get Access Token (Task 1.3)
+        try {
+            await this.getAccessToken();
+        } catch (error: any) {
+            logger.error(`Failed to obtain access token for item ${item.id}: ${error.message}`);
+            throw error;
         }
         logger.debug(`Obtained access token for item ${item.id}.`);
+
+        // Claim the item for this profile so status and retries stay with this account
+        this.dbManager.updateMediaProfile(item.id, this.profile);
         
         // --- Check for iCloud-only items ---
-        if (item.is_in_icloud) {
+        // The Photos export stage downloads iCloud originals into staging, so a staged copy can be uploaded
+        if (item.is_in_icloud && !item.local_copy_path) {
             logger.warn(`Skipping iCloud-only item ${item.id} - File is not fully downloaded locally.`);
             this.dbManager.updateMediaStatus(item.id, 'skipped_icloud', 'Item is stored in iCloud and not fully available locally');
-            return;
+            return 'skipped';
         }
         
-        // --- File Path Handling (Needs refinement in Phase 2) ---
+        // Apple Photos assets only have a readable path once the export stage has staged them (see StagingExporter)
         const filePath = item.local_copy_path || item.original_path;
         if (!filePath || filePath.startsWith('urn:')) { 
              logger.warn(`Skipping item ${item.id} - No local file path available yet (Path: ${filePath}).`);
-             // Mark as failed temporarily or implement a 'needs_export' status?
-             this.dbManager.updateMediaStatus(item.id, 'failed', 'No local file path available for upload');
-             return; 
+             this.retryPolicy.recordFailure(this.dbManager, item.id, 'No local file path available for upload', 'file-missing');
+             return 'failed';
         }
         
         // Check if file actually exists before attempting upload
         if (!fs.existsSync(filePath)) {
              logger.error(`File not found at path: ${filePath} for item ${item.id}. Marking as failed.`);
-             this.dbManager.updateMediaStatus(item.id, 'failed', `File not found at expected path: ${filePath}`);
-             return;
+             this.retryPolicy.recordFailure(this.dbManager, item.id, `File not found at expected path: ${filePath}`, 'file-missing');
+             return 'failed';
         }
 
         // 2. Upload Bytes (Task 1.5.2)
-        logger.info(`Starting byte upload for item ${item.id} from ${filePath}`);
-        const uploadToken = await this.uploadFileBytes(filePath, accessToken, item.mime_type);
+        // Wait until the file fits in the in-flight byte budget shared by all workers
+        const fileSize = fs.statSync(filePath).size;
+        const uploadToken = await this.byteBudget.run(async () => {
+            // The wait can be long, so fetch the token again rather than reusing the one from above
+            const currentAccessToken = await this.getAccessToken();
+            logger.info(`Starting byte upload for item ${item.id} from ${filePath}`);
+            return this.uploadFileBytes(item, filePath, currentAccessToken);
+        }, fileSize);
         logger.info(`Got upload token for ${item.id}: ${uploadToken}`);
 
-        // 3. Create Media Item (Task 1.5.3)
-        logger.info(`Attempting to create media item for token: ${uploadToken}`);
-        // Pass original_name as description for now
-        const creationResult = await this.createMediaItem(uploadToken, accessToken, item.original_name);
-        
-        if (!creationResult.success) {
-            // Error is logged within createMediaItem, just throw to trigger main error handling
-            // TODO: Consider more specific error handling/retry based on createMediaItem failure type?
-            throw new Error(`Failed to create media item in Google Photos for item ${item.id}.`);
-        }
-
-        // 4. Update DB Status (Task 1.5.4)
-        // If creation was successful, update DB status to 'uploaded' and store Google Photos ID
-        this.dbManager.updateMediaStatus(item.id, 'uploaded');
-        if (creationResult.mediaItemId) {
-             this.dbManager.updateGooglePhotosId(item.id, creationResult.mediaItemId);
-        }
-        logger.info(`Successfully created media item and updated DB for item ${item.id} (Google ID: ${creationResult.mediaItemId || 'N/A'})`);
-       
-        // Placeholder logs removed
+        // 3. Media item creation happens in batches once the whole queue batch is uploaded
+        return { item, uploadToken };
     }
 
-    // Implemented Task 1.5.2
-    private async uploadFileBytes(filePath: string, accessToken: string, mimeType: string): Promise<string> {
+    // Implemented Task 1.5.2 - resumable upload protocol
+    /**
+     * Uploads the bytes of a file through a resumable session and returns the upload token.
+     * Failures are thrown as an UploadError saying what went wrong.
+     */
+    private async uploadFileBytes(item: MediaItem, filePath: string, accessToken: string): Promise<string> {
+        const mimeType = item.mime_type;
         logger.info(`Uploading bytes for: ${filePath} (MIME: ${mimeType})`);
 
-        const isVideo = mimeType.startsWith('video/');
-        const UPLOAD_TIMEOUT = isVideo ? 300000 : 120000; // 5 minutes for video, 2 minutes otherwise
+        // Photos rows scanned before UTIs were mapped to MIME types still carry e.g. com.apple.quicktime-movie
+        const isVideo = item.media_type === 'video';
+        const UPLOAD_TIMEOUT = isVideo ? 300000 : 120000; // 5 minutes for video, 2 minutes otherwise (per request)
         const MAX_RETRIES = 5;
+        const maxBytes = isVideo ? MAX_VIDEO_BYTES : MAX_PHOTO_BYTES;
 
-        return retry(async (bail, attempt) => {
+        // Resume a session left behind by an earlier run instead of starting from zero
+        let session: UploadSession | null = item.upload_session_url
+            ? { url: item.upload_session_url, offset: item.upload_offset ?? 0, granularity: DEFAULT_CHUNK_GRANULARITY }
+            : null;
+        // The stored offset may lag behind what Google committed, so ask before sending more bytes
+        let needsOffsetQuery = session !== null;
+
+        const uploadAttempt = async (bail: (error: Error) => void, attempt: number): Promise<string> => {
             // bail function: call bail(new Error('Non-retriable error')) to stop retrying
             // attempt number: 1, 2, ...
             logger.debug(`Attempt ${attempt} to upload bytes for ${filePath}`);
@@ -139,45 +448,89 @@ export class Uploader {
                 const fileSize = stats.size;
                 if (fileSize === 0) {
                     // Non-retriable error for empty file
-                    bail(new Error('File size is 0, cannot upload empty file.'));
+                    bail(new UnsupportedFormatError('File size is 0, cannot upload empty file.'));
                     return ''; // Required return, though bail prevents it from being used
                 }
+                if (fileSize > maxBytes) {
+                    bail(new TooLargeError(`File is ${fileSize} bytes, more than the ${maxBytes} bytes Google Photos accepts for a ${isVideo ? 'video' : 'photo'}`));
+                    return '';
+                }
                 logger.debug(`File size: ${fileSize} bytes`);
 
-                const fileStream = fs.createReadStream(filePath);
-
-                const config: AxiosRequestConfig = {
-                    method: 'post',
-                    url: UPLOAD_ENDPOINT,
-                    headers: {
-                        'Authorization': `Bearer ${accessToken}`,
-                        'Content-Type': 'application/octet-stream',
-                        'X-Goog-Upload-Content-Type': mimeType,
-                        'X-Goog-Upload-Protocol': 'raw',
-                        'Content-Length': fileSize.toString(),
-                    },
-                    data: fileStream,
-                    maxContentLength: Infinity,
-                    maxBodyLength: Infinity,
-                    timeout: UPLOAD_TIMEOUT,
-                };
-
-                logger.info(`[Attempt ${attempt}] POSTing ${fileSize} bytes to ${UPLOAD_ENDPOINT}`);
-                const response = await axios(config);
-
-                if (response.status === 200 && response.data) {
-                    const uploadToken = response.data as string;
-                    logger.info(`Successfully uploaded bytes, received upload token.`);
-                    logger.debug(`Upload Token: ${uploadToken}`);
-                    return uploadToken;
-                } else {
-                    // Unexpected success status? Bail.
-                    logger.error(`Upload bytes received unexpected status ${response.status}. Bailing.`, { responseData: response.data });
-                    bail(new Error(`Upload bytes failed with unexpected status ${response.status}`));
-                    return '';
+                if (session && needsOffsetQuery) {
+                    const committed = await this.queryCommittedOffset(session.url, accessToken);
+                    if (committed === null || committed > fileSize) {
+                        logger.warn(`Upload session for item ${item.id} can no longer be resumed. Starting a new one.`);
+                        session = null;
+                        this.dbManager.clearUploadSession(item.id);
+                    } else {
+                        session.offset = committed;
+                        this.dbManager.saveUploadSession(item.id, session.url, committed);
+                        logger.info(`Resuming upload of ${filePath} at byte ${committed} of ${fileSize}`);
+                    }
+                }
+                needsOffsetQuery = false;
+
+                if (!session) {
+                    session = await this.startUploadSession(accessToken, mimeType, fileSize);
+                    this.dbManager.saveUploadSession(item.id, session.url, 0);
+                }
+
+                const chunkSize = getChunkSize(isVideo, session.granularity);
+                while (true) {
+                    const offset: number = session.offset;
+                    const length = Math.min(chunkSize, fileSize - offset);
+                    const isLastChunk = offset + length >= fileSize;
+
+                    const config: AxiosRequestConfig = {
+                        method: 'post',
+                        url: session.url,
+                        headers: {
+                            'Authorization': `Bearer ${accessToken}`,
+                            'Content-Type': 'application/octet-stream',
+                            'Content-Length': length.toString(),
+                            'X-Goog-Upload-Command': isLastChunk ? 'upload, finalize' : 'upload',
+                            'X-Goog-Upload-Offset': offset.toString(),
+                        },
+                        // A session can be fully uploaded but not finalized; that takes an empty request
+                        data: length > 0 ? this.readChunk(filePath, offset, length) : '',
+                        maxContentLength: Infinity,
+                        maxBodyLength: Infinity,
+                        timeout: UPLOAD_TIMEOUT,
+                    };
+
+                    logger.debug(`[Attempt ${attempt}] Sending bytes ${offset}-${offset + length} of ${fileSize} for ${filePath}`);
+                    const response = await axios(config);
+
+                    if (!isLastChunk) {
+                        session.offset = offset + length;
+                        this.dbManager.saveUploadSession(item.id, session.url, session.offset);
+                        continue;
+                    }
+
+                    if (response.status === 200 && response.data) {
+                        const uploadToken = response.data as string;
+                        this.dbManager.clearUploadSession(item.id);
+                        logger.info(`Successfully uploaded bytes, received upload token.`);
+                        logger.debug(`Upload Token: ${uploadToken}`);
+                        return uploadToken;
+                    } else {
+                        // Unexpected success status? Bail.
+                        logger.error(`Upload bytes received unexpected status ${response.status}. Bailing.`, { responseData: response.data });
+                        bail(new ServerError(`Upload bytes failed with unexpected status ${response.status}`));
+                        return '';
+                    }
                 }
 
             } catch (error: any) {
+                // Whatever happened, part of the last chunk may have been committed
+                needsOffsetQuery = true;
+
+                if (await this.waitIfOffline(error)) {
+                    // The network was down, which isn't a failed attempt
+                    return uploadAttempt(bail, attempt);
+                }
+
                 let errorMessage = 'Upload bytes attempt failed.';
                 if (axios.isAxiosError(error)) {
                     const status = error.response?.status;
@@ -188,8 +541,9 @@ export class Uploader {
                     if (status) {
                         if (status === 401) {
                             // Unauthorized - probably expired token. Bail and let AuthManager handle refresh.
+                            // The session stays in the database so the next run resumes it.
                             logger.error('Received 401 Unauthorized. Bailing upload attempt.');
-                            bail(new Error('Unauthorized (401) during byte upload'));
+                            bail(new AuthError('Unauthorized (401) during byte upload'));
                         } else if (status === 429) {
                             // Too Many Requests - Retry will happen due to exponential backoff
                             logger.warn('Received 429 Too Many Requests. Will retry after backoff.');
@@ -198,10 +552,16 @@ export class Uploader {
                             // Server error (5xx) - Retry
                             logger.warn(`Received server error ${status}. Will retry.`);
                             throw error; // Throw to trigger retry
+                        } else if (session && (status === 404 || status === 410)) {
+                            // Upload session expired or was cancelled - retry with a fresh session
+                            logger.warn(`Upload session rejected with status ${status}. Will start a new session.`);
+                            session = null;
+                            this.dbManager.clearUploadSession(item.id);
+                            throw error;
                         } else {
                             // Other client errors (4xx) are likely non-retriable for byte upload
                             logger.error(`Received non-retriable client error ${status}. Bailing.`);
-                            bail(new Error(`Non-retriable API error ${status} during byte upload`));
+                            bail(classifyRequestError(error, 'byte upload'));
                         }
                     } else if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
                          logger.warn(`Network timeout during byte upload. Will retry.`);
@@ -215,11 +575,13 @@ export class Uploader {
                     // Non-Axios error (e.g., fs error) - likely non-retriable
                     errorMessage = `Non-axios error during byte upload: ${error.message}`;
                     logger.error(errorMessage, { error });
-                    bail(new Error(errorMessage)); 
+                    bail(error.code === 'ENOENT' ? classifyRequestError(error, 'byte upload') : new UploadError('unknown', errorMessage));
                 }
                 return ''; // Required return, but bail/throw prevents use
             }
-        }, {
+        };
+
+        return retry(uploadAttempt, {
             retries: MAX_RETRIES,
             factor: 2,
             minTimeout: 1000, // Start with 1 second delay
@@ -229,25 +591,129 @@ export class Uploader {
                 const errorMessage = error instanceof Error ? error.message : String(error);
                 logger.warn(`Retrying upload for ${filePath} (attempt ${attempt}/${MAX_RETRIES}) due to error: ${errorMessage}`);
             }
+        }).catch((error) => {
+            throw classifyRequestError(error, 'byte upload');
         });
     }
 
-    // Placeholder for Task 1.5.3
-    private async createMediaItem(uploadToken: string, accessToken: string, description: string | undefined): Promise<{ success: boolean; mediaItemId?: string }> {
-        logger.info(`Creating media item with token: ${uploadToken}`);
+    /**
+     * For a request that failed without getting a response: if the network monitor finds the network
+     * unavailable, waits until it is back and returns true, so the caller repeats the request without
+     * counting it against the item.
+     */
+    private async waitIfOffline(error: unknown): Promise<boolean> {
+        if (!this.networkMonitor || !axios.isAxiosError(error) || error.response) {
+            return false;
+        }
+        if (await this.networkMonitor.check()) {
+            return false;
+        }
+        logger.warn(`Holding uploads while the network is unavailable (${error.message})`);
+        await this.networkMonitor.waitUntilResumed();
+        return true;
+    }
+
+    /**
+     * Streams part of a file, throttled to the configured bandwidth limit if there is one.
+     */
+    private readChunk(filePath: string, offset: number, length: number): Readable {
+        const stream = fs.createReadStream(filePath, { start: offset, end: offset + length - 1 });
+        return this.throttle ? this.throttle.throttle(stream) : stream;
+    }
+
+    /**
+     * Opens a resumable upload session and returns its URL.
+     * Errors are left to the caller's retry handling.
+     */
+    private async startUploadSession(accessToken: string, mimeType: string, fileSize: number): Promise<UploadSession> {
+        const config: AxiosRequestConfig = {
+            method: 'post',
+            url: UPLOAD_ENDPOINT,
+            headers: {
+                'Authorization': `Bearer ${accessToken}`,
+                'Content-Length': '0',
+                'X-Goog-Upload-Command': 'start',
+                'X-Goog-Upload-Content-Type': mimeType,
+                'X-Goog-Upload-Protocol': 'resumable',
+                'X-Goog-Upload-Raw-Size': fileSize.toString(),
+            },
+            timeout: 30000,
+        };
+
+        logger.info(`Starting resumable upload session for ${fileSize} bytes`);
+        const response = await axios(config);
+
+        const url = response.headers?.['x-goog-upload-url'];
+        if (!url) {
+            throw new Error('Resumable upload start response did not include an upload URL');
+        }
+        const granularity = Number(response.headers?.['x-goog-upload-chunk-granularity']) || DEFAULT_CHUNK_GRANULARITY;
+        return { url, offset: 0, granularity };
+    }
+
+    /**
+     * Asks Google how many bytes of a session it has committed.
+     * Returns null if the session can't be resumed (finalized, cancelled or unknown).
+     */
+    private async queryCommittedOffset(sessionUrl: string, accessToken: string): Promise<number | null> {
+        const config: AxiosRequestConfig = {
+            method: 'post',
+            url: sessionUrl,
+            headers: {
+                'Authorization': `Bearer ${accessToken}`,
+                'Content-Length': '0',
+                'X-Goog-Upload-Command': 'query',
+            },
+            timeout: 30000,
+        };
+
+        try {
+            const response = await axios(config);
+            const uploadStatus = response.headers?.['x-goog-upload-status'];
+            const sizeReceived = Number(response.headers?.['x-goog-upload-size-received']);
+            if (uploadStatus !== 'active' || !Number.isFinite(sizeReceived)) {
+                logger.debug(`Upload session is not resumable (status: ${uploadStatus})`);
+                return null;
+            }
+            return sizeReceived;
+        } catch (error: any) {
+            const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+            if (status === 404 || status === 410) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    // Implemented Task 1.5.3
+    /**
+     * Creates media items for up to MAX_ITEMS_PER_BATCH_CREATE uploaded files in one
+     * mediaItems:batchCreate call. Results are keyed by upload token; every token in
+     * `entries` gets a result. Entries that fail with a retriable status are retried on their own.
+     */
+    private async createMediaItems(entries: UploadedBytes[], accessToken: string): Promise<Map<string, CreationResult>> {
+        logger.info(`Creating ${entries.length} media items`);
         const MAX_RETRIES = 3; // Use fewer retries for metadata creation?
-        
-        return retry(async (bail, attempt) => {
-            logger.debug(`[Attempt ${attempt}] Creating media item for token ${uploadToken}`);
+        const results = new Map<string, CreationResult>();
+        let remaining = entries;
+
+        const failRemaining = (error: UploadError) => {
+            for (const { uploadToken } of remaining) {
+                results.set(uploadToken, { success: false, error });
+            }
+            remaining = [];
+        };
+
+        const createAttempt = async (bail: (error: Error) => void, attempt: number): Promise<void> => {
+            logger.debug(`[Attempt ${attempt}] Creating ${remaining.length} media items`);
             const payload = {
-                newMediaItems: [
-                    {
-                        description: description || '',
-                        simpleMediaItem: {
-                            uploadToken: uploadToken,
-                        },
+                newMediaItems: remaining.map(({ item, uploadToken }) => ({
+                    // Pass original_name as description for now
+                    description: item.original_name || '',
+                    simpleMediaItem: {
+                        uploadToken: uploadToken,
                     },
-                ],
+                })),
             };
 
             const config: AxiosRequestConfig = {
@@ -261,62 +727,14 @@ export class Uploader {
                 timeout: 30000,
             };
 
+            let response;
             try {
-                const response = await axios(config);
-
-                if (response.status === 200 && response.data?.newMediaItemResults?.length > 0) {
-                    const result = response.data.newMediaItemResults[0];
-                    
-                    if (result.uploadToken !== uploadToken) {
-                        const errorMessage = `Mismatched upload token in response. Expected ${uploadToken}, got ${result.uploadToken}`;
-                        logger.error(errorMessage, { responseData: response.data });
-                        // This is unexpected and likely non-retriable
-                        bail(new Error(errorMessage)); 
-                        return { success: false };
-                    }
-                    
-                    // Handle API-level errors reported in the response body
-                    if (result.status.code !== 0 /* OK */ && result.status.message !== 'OK') {
-                        const apiErrorMessage = `API error creating media item: ${result.status.message} (Code: ${result.status.code})`;
-                        logger.warn(`[Attempt ${attempt}] ${apiErrorMessage}`);
-                        
-                        // Specific check for invalid upload token - indicates bytes need re-uploading
-                        // Let's bail here and let the outer loop handle re-uploading the bytes.
-                        // A more sophisticated retry could trigger re-upload directly.
-                        if (result.status.message.includes('Invalid upload token') || result.status.message.includes('Expired upload token')) {
-                             logger.error('Upload token invalid or expired. Bailing media item creation.');
-                             // Bail, but throw a specific error? Or just let the main handler deal with {success: false}?
-                             // For now, return false, the calling function needs to handle this.
-                             // bail(new Error('Invalid upload token')); // Bail might prevent returning {success: false}
-                              return { success: false }; // Signal failure to uploadMediaItem
-                        }
-                        
-                        // Check if it's a potentially retriable server-side issue within the API result
-                        // Assuming codes similar to HTTP might be used, or check specific API docs
-                         if (result.status.code === 13 /* Internal */ || result.status.code === 14 /* Unavailable */ || result.status.code === 8 /* Resource exhausted / Quota */) {
-                            logger.warn(`Potentially retriable API error ${result.status.code}. Will retry.`);
-                            throw new Error(apiErrorMessage); // Throw to trigger retry
-                        } else {
-                            // Other API errors likely non-retriable
-                            logger.error(`Non-retriable API error ${result.status.code}. Bailing.`);
-                            bail(new Error(apiErrorMessage));
-                            return { success: false };
-                        }
-                    }
-                    
-                    // Success case
-                    const mediaItemId = result.mediaItem?.id;
-                    logger.info(`Successfully created media item. Google Photos ID: ${mediaItemId}`);
-                    return { success: true, mediaItemId: mediaItemId };
-
-                } else {
-                     // Unexpected successful HTTP status but invalid data structure?
-                     const errorMessage = `Create media item response invalid. Status: ${response.status}. Data: ${JSON.stringify(response.data)}`;
-                     logger.error(errorMessage);
-                     bail(new Error(errorMessage)); // Non-retriable
-                     return { success: false };
-                }
+                response = await axios(config);
             } catch (error: any) {
+                 if (await this.waitIfOffline(error)) {
+                     // The network was down, which isn't a failed attempt
+                     return createAttempt(bail, attempt);
+                 }
                  let errorMessage = 'Failed during create media item attempt.';
                  if (axios.isAxiosError(error)) {
                     const status = error.response?.status;
@@ -326,7 +744,7 @@ export class Uploader {
                     if (status) {
                         if (status === 401) {
                             logger.error('Received 401 Unauthorized. Bailing create media item attempt.');
-                            bail(new Error('Unauthorized (401) during media item creation'));
+                            failRemaining(new AuthError('Unauthorized (401) during media item creation'));
                         } else if (status === 429) {
                              logger.warn('Received 429 Too Many Requests. Will retry after backoff.');
                             throw error;
@@ -335,7 +753,7 @@ export class Uploader {
                             throw error;
                         } else {
                              logger.error(`Received non-retriable client error ${status}. Bailing.`);
-                            bail(new Error(`Non-retriable API error ${status} during media item creation`));
+                            failRemaining(classifyRequestError(error, 'media item creation'));
                         }
                      } else if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
                          logger.warn(`Network timeout during media item creation. Will retry.`);
@@ -347,28 +765,79 @@ export class Uploader {
                  } else {
                      errorMessage = `Non-axios error during media item creation: ${error.message}`;
                      logger.error(errorMessage, { error });
-                     bail(new Error(errorMessage)); 
+                     failRemaining(new UploadError('unknown', errorMessage));
                  }
-                 // If we bailed or exhausted retries, we need to ensure a failure object is returned
-                 // Throwing within the catch block triggers a retry by async-retry
-                 // If retry limit is reached, async-retry throws the last error caught
-                 // We need to catch that final error outside the retry block
-                 throw error; // Re-throw caught error to potentially trigger retry
+                 // Only non-retriable paths reach this point (retriable errors were re-thrown above).
+                 // Returning instead of bailing keeps the per-token results recorded above.
+                 return;
+            }
+
+            const itemResults = response.data?.newMediaItemResults;
+            if (response.status !== 200 || !Array.isArray(itemResults)) {
+                // Unexpected successful HTTP status but invalid data structure?
+                const errorMessage = `Create media item response invalid. Status: ${response.status}. Data: ${JSON.stringify(response.data)}`;
+                logger.error(errorMessage);
+                failRemaining(new ServerError(errorMessage)); // Non-retriable
+                return;
+            }
+
+            const retriable: UploadedBytes[] = [];
+            let lastRetriableError: UploadError | undefined;
+            for (const entry of remaining) {
+                // Results are matched by upload token, not by position
+                const result = itemResults.find((candidate: any) => candidate?.uploadToken === entry.uploadToken);
+                if (!result) {
+                    const errorMessage = `No result returned for upload token ${entry.uploadToken}`;
+                    logger.error(errorMessage, { responseData: response.data });
+                    results.set(entry.uploadToken, { success: false, error: new ServerError(errorMessage) });
+                    continue;
+                }
+
+                const status = result.status ?? {};
+                // Handle API-level errors reported in the response body
+                if (status.code && status.code !== 0 /* OK */ && status.message !== 'OK') {
+                    const apiError = classifyItemStatus(status.code, status.message);
+                    logger.warn(`[Attempt ${attempt}] ${apiError.message}`);
+
+                    // Invalid/expired upload token means the bytes need re-uploading, which a retry here can't do
+                    if (apiError.code === 'server' || apiError.code === 'quota') {
+                        retriable.push(entry);
+                        lastRetriableError = apiError;
+                    } else {
+                        results.set(entry.uploadToken, { success: false, error: apiError });
+                    }
+                    continue;
+                }
+
+                // Success case
+                const mediaItemId = result.mediaItem?.id;
+                logger.info(`Successfully created media item. Google Photos ID: ${mediaItemId}`);
+                results.set(entry.uploadToken, { success: true, mediaItemId });
+            }
+
+            remaining = retriable;
+            if (remaining.length > 0) {
+                logger.warn(`${remaining.length} media items failed with retriable errors. Will retry.`);
+                throw lastRetriableError; // Throw to trigger retry
             }
-        }, {
+        };
+
+        await retry(createAttempt, {
             retries: MAX_RETRIES,
             factor: 2, // Standard exponential backoff
             minTimeout: 1000,
             maxTimeout: 30000, // Shorter max timeout for metadata creation
             onRetry: (error: unknown, attempt) => {
                 const errorMessage = error instanceof Error ? error.message : String(error);
-                logger.warn(`Retrying media item creation for token ${uploadToken} (attempt ${attempt}/${MAX_RETRIES}) due to error: ${errorMessage}`);
+                logger.warn(`Retrying media item creation for ${remaining.length} items (attempt ${attempt}/${MAX_RETRIES}) due to error: ${errorMessage}`);
             }
         }).catch(finalError => {
             // Catch error after all retries have failed
-            logger.error(`Media item creation failed permanently for token ${uploadToken} after ${MAX_RETRIES} retries: ${finalError.message}`, { finalError });
-            return { success: false }; // Return failure object
+            logger.error(`Media item creation failed permanently for ${remaining.length} items after ${MAX_RETRIES} retries: ${finalError.message}`, { finalError });
+            failRemaining(classifyRequestError(finalError, 'media item creation'));
         });
+
+        return results;
     }
 
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -1,17 +1,13 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import fs from 'fs';
 import path from 'path';
-import { DatabaseManager, MediaItem, Batch, MediaType, MediaStatus } from './database';
+import { DatabaseManager, MediaItem, Batch, MediaType, MediaStatus, InvalidStatusTransitionError } from './database';
 
 // Mock the logger to avoid console output during tests
-vi.mock('./logger', () => ({
-  logger: {
-    info: vi.fn(),
-    warn: vi.fn(),
-    error: vi.fn(),
-    debug: vi.fn(),
-  },
-}));
+vi.mock('./logger', () => {
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+  return { logger, createLogger: () => logger };
+});
 
 // Test data factories
 const createTestMedia = (
@@ -52,10 +48,10 @@ describe('DatabaseManager', () => {
   const testDbPath = path.join(process.cwd(), 'test-db.sqlite');
   let dbManager: DatabaseManager;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     // Create a new database instance for each test
     dbManager = new DatabaseManager(testDbPath);
-    dbManager.initialize();
+    await dbManager.initialize();
   });
 
   afterEach(() => {
@@ -72,9 +68,9 @@ describe('DatabaseManager', () => {
       expect(dbManager['isInitialized']).toBe(true);
     });
 
-    it('should not re-initialize if already initialized', () => {
+    it('should not re-initialize if already initialized', async () => {
       // Call initialize again and expect it to return true without error
-      expect(dbManager.initialize()).toBe(true);
+      await expect(dbManager.initialize()).resolves.toBe(true);
     });
   });
 
@@ -235,6 +231,33 @@ describe('DatabaseManager', () => {
       
       expect(result).toBe(false);
     });
+
+    it('should record each status change in the history of the item', () => {
+      dbManager.addMediaItem(createTestPhoto({ id: 'tracked' }));
+
+      dbManager.updateMediaStatus('tracked', 'exported');
+      dbManager.updateMediaStatus('tracked', 'failed', 'Upload failed');
+      dbManager.updateMediaStatus('tracked', 'failed', 'Upload failed again'); // Not a change
+      dbManager.updateMediaStatus('tracked', 'pending', undefined, 'Retrying');
+
+      const events = dbManager.getMediaEvents('tracked');
+      expect(events.map(({ from_status, to_status, reason }) => [from_status, to_status, reason])).toEqual([
+        ['pending', 'exported', null],
+        ['exported', 'failed', 'Upload failed'],
+        ['failed', 'pending', 'Retrying'],
+      ]);
+      expect(Date.parse(events[0].created_at)).not.toBeNaN();
+    });
+
+    it('should reject moving an uploaded item to another status', () => {
+      dbManager.addMediaItem(createTestPhoto({ id: 'done' }));
+      dbManager.updateMediaStatus('done', 'uploaded');
+
+      expect(() => dbManager.updateMediaStatus('done', 'failed', 'Upload failed')).toThrow(InvalidStatusTransitionError);
+      expect(() => dbManager.updateMediaStatus('done', 'pending')).toThrow("Media item done cannot move from 'uploaded' to 'pending'");
+      expect(dbManager.getMediaById('done')).toMatchObject({ status: 'uploaded', error_message: null });
+      expect(dbManager.getMediaEvents('done')).toHaveLength(1);
+    });
   });
 
   describe('updateGooglePhotosId', () => {
@@ -493,6 +516,138 @@ describe('DatabaseManager', () => {
     });
   });
 
+  describe('upload sessions', () => {
+    it('should save and clear the resumable upload session', () => {
+      dbManager.addMediaItem(createTestPhoto({ id: 'resumable', original_path: '/r', original_name: 'r.jpg', status: 'pending' }));
+
+      expect(dbManager.saveUploadSession('resumable', 'https://upload.example/session-1', 2097152)).toBe(true);
+      let item = dbManager.getMediaById('resumable');
+      expect(item?.upload_session_url).toBe('https://upload.example/session-1');
+      expect(item?.upload_offset).toBe(2097152);
+
+      expect(dbManager.clearUploadSession('resumable')).toBe(true);
+      item = dbManager.getMediaById('resumable');
+      expect(item?.upload_session_url).toBeNull();
+      expect(item?.upload_offset).toBeNull();
+    });
+
+    it('should return false for unknown items', () => {
+      expect(dbManager.saveUploadSession('non-existent', 'https://upload.example/x', 0)).toBe(false);
+      expect(dbManager.clearUploadSession('non-existent')).toBe(false);
+    });
+  });
+
+  describe('rescans', () => {
+    it('should update only the given metadata fields', () => {
+      dbManager.addMediaItem(createTestPhoto({ id: 'edited', original_path: '/e', original_name: 'e.jpg', pixel_size: '100x100', is_in_icloud: true, status: 'skipped_icloud' }));
+
+      expect(dbManager.updateMediaMetadata('edited', { pixel_size: '200x100', is_in_icloud: false, status: 'pending' })).toBe(true);
+      const item = dbManager.getMediaById('edited');
+      expect(item?.pixel_size).toBe('200x100');
+      expect(item?.is_in_icloud).toBe(0);
+      expect(item?.status).toBe('pending');
+      expect(item?.original_name).toBe('e.jpg');
+
+      expect(dbManager.updateMediaMetadata('non-existent', { size_bytes: 1 })).toBe(false);
+      expect(dbManager.getMediaEvents('edited')).toMatchObject([{ from_status: 'skipped_icloud', to_status: 'pending', reason: 'Updated by a rescan' }]);
+    });
+
+    it('should mark removed items but keep uploaded ones', () => {
+      dbManager.addMediaItem(createTestPhoto({ id: 'gone-pending', original_path: '/gp', original_name: 'gp.jpg', status: 'pending' }));
+      dbManager.addMediaItem(createTestPhoto({ id: 'gone-uploaded', original_path: '/gu', original_name: 'gu.jpg', status: 'uploaded' }));
+      dbManager.saveUploadSession('gone-pending', 'https://upload.example/session', 1024);
+
+      expect(dbManager.markRemovedFromSource(['gone-pending', 'gone-uploaded', 'non-existent'])).toBe(1);
+      expect(dbManager.getMediaById('gone-pending')?.status).toBe('removed_from_source');
+      expect(dbManager.getMediaById('gone-pending')?.upload_session_url).toBeNull();
+      expect(dbManager.getMediaById('gone-uploaded')?.status).toBe('uploaded');
+      expect(dbManager.getPendingMedia(10)).toHaveLength(0);
+      expect(dbManager.getAllMediaIds().sort()).toEqual(['gone-pending', 'gone-uploaded']);
+      expect(dbManager.getMediaEvents('gone-pending')).toMatchObject([{ to_status: 'removed_from_source' }]);
+      expect(dbManager.getMediaEvents('gone-uploaded')).toEqual([]);
+    });
+
+    it('should find items by the directory their file is in', () => {
+      dbManager.addMediaItem(createTestPhoto({ id: 'in-root', original_path: '/photos/a.jpg', original_name: 'a.jpg' }));
+      dbManager.addMediaItem(createTestPhoto({ id: 'nested', original_path: '/photos/2024/b.jpg', original_name: 'b.jpg' }));
+      dbManager.addMediaItem(createTestPhoto({ id: 'sibling', original_path: '/photos-old/c.jpg', original_name: 'c.jpg' }));
+
+      expect(dbManager.getMediaIdsUnderDirectory('/photos').sort()).toEqual(['in-root', 'nested']);
+      expect(dbManager.getMediaIdsUnderDirectory('/photos/2024/')).toEqual(['nested']);
+    });
+  });
+
+  describe('scan quarantine', () => {
+    it('should store and list quarantined scanner records', () => {
+      expect(dbManager.getQuarantineCount()).toBe(0);
+
+      dbManager.addQuarantinedRecord({ source: 'MediaScannerMac', reason: 'Invalid JSON', payload: '{"type":' });
+      dbManager.addQuarantinedRecord({ source: 'MediaScannerMac', local_identifier: 'ID1', reason: 'missing field "isInCloud"', payload: '{}' });
+
+      expect(dbManager.getQuarantineCount()).toBe(2);
+      const records = dbManager.getQuarantinedRecords();
+      expect(records[0]).toMatchObject({ local_identifier: 'ID1', reason: 'missing field "isInCloud"', payload: '{}' });
+      expect(records[1].local_identifier).toBeNull();
+      expect(Date.parse(records[1].created_at)).not.toBeNaN();
+    });
+  });
+
+  describe('duplicates', () => {
+    it('should group items by hash and mark duplicates', () => {
+      dbManager.addMediaItem(createTestPhoto({ id: 'first', sha256_hash: 'same', status: 'pending' }));
+      dbManager.addMediaItem(createTestPhoto({ id: 'second', sha256_hash: 'same', status: 'pending' }));
+      dbManager.addMediaItem(createTestPhoto({ id: 'other', sha256_hash: 'different', status: 'pending' }));
+      dbManager.saveUploadSession('second', 'https://upload.example/session', 1024);
+
+      expect(dbManager.getDuplicateHashes()).toEqual(['same']);
+      expect(dbManager.getMediaItemsByHash('same').map(item => item.id)).toEqual(['first', 'second']);
+
+      expect(dbManager.markDuplicate('second', 'first')).toBe(true);
+      expect(dbManager.getMediaById('second')).toMatchObject({ status: 'skipped', duplicate_of: 'first', upload_session_url: null });
+
+      expect(dbManager.clearDuplicate('first')).toBe(false);
+      expect(dbManager.clearDuplicate('second')).toBe(true);
+      expect(dbManager.getMediaById('second')).toMatchObject({ status: 'pending', duplicate_of: null });
+      expect(dbManager.getMediaEvents('second').map((event) => event.reason)).toEqual(['Duplicate of first', 'Duplicate mark cleared']);
+
+      dbManager.updateMediaStatus('first', 'uploaded');
+      expect(() => dbManager.markDuplicate('first', 'second')).toThrow(InvalidStatusTransitionError);
+      expect(dbManager.getMediaById('first')).toMatchObject({ status: 'uploaded', duplicate_of: null });
+    });
+  });
+
+  describe('profiles', () => {
+    beforeEach(() => {
+      dbManager.addMediaItem(createTestPhoto({ id: 'unclaimed', original_path: '/u', original_name: 'u.jpg', status: 'pending' }));
+      dbManager.addMediaItem(createTestPhoto({ id: 'mine', original_path: '/m', original_name: 'm.jpg', status: 'pending' }));
+      dbManager.addMediaItem(createTestPhoto({ id: 'theirs', original_path: '/t', original_name: 't.jpg', status: 'pending' }));
+      dbManager.addMediaItem(createTestPhoto({ id: 'theirs-done', original_path: '/td', original_name: 'td.jpg', status: 'uploaded' }));
+      dbManager.updateMediaProfile('mine', 'alice');
+      dbManager.updateMediaProfile('theirs', 'bob');
+      dbManager.updateMediaProfile('theirs-done', 'bob');
+    });
+
+    it('should record the profile on a media item', () => {
+      expect(dbManager.getMediaById('mine')?.profile).toBe('alice');
+      expect(dbManager.getMediaById('unclaimed')?.profile).toBeNull();
+      expect(dbManager.updateMediaProfile('non-existent', 'alice')).toBe(false);
+    });
+
+    it('should exclude items claimed by other profiles from the pending queue', () => {
+      const ids = dbManager.getPendingMedia(10, 'alice').map(item => item.id).sort();
+      expect(ids).toEqual(['mine', 'unclaimed']);
+      // Without a profile every pending item is returned
+      expect(dbManager.getPendingMedia(10)).toHaveLength(3);
+    });
+
+    it('should scope status counts to a profile', () => {
+      expect(dbManager.getCountByStatus('uploaded', 'alice')).toBe(0);
+      expect(dbManager.getCountByStatus('uploaded', 'bob')).toBe(1);
+      expect(dbManager.getCountByStatus('pending', 'bob')).toBe(2);
+      expect(dbManager.getCountByStatus('pending')).toBe(3);
+    });
+  });
+
   describe('incrementRetryCount', () => {
     beforeEach(() => {
       dbManager.addMediaItem(createTestPhoto({
@@ -535,6 +690,36 @@ describe('DatabaseManager', () => {
       
       expect(result).toBe(-1);
     });
+
+    it('should requeue failed and abandoned items matching the error with a fresh retry count', () => {
+      dbManager.incrementRetryCount('retry-test-photo');
+      dbManager.updateMediaStatus('retry-test-photo', 'abandoned', 'Non-retriable API error 400 during byte upload');
+      dbManager.updateMediaStatus('retry-test-video', 'failed', 'Export failed: Asset not found');
+      dbManager.updateNextAttemptAt('retry-test-video', '2999-01-01T00:00:00.000Z');
+
+      expect(dbManager.requeueFailedMedia({ errorMatch: 'api error 400' })).toBe(1);
+      expect(dbManager.getMediaById('retry-test-photo')).toMatchObject({ status: 'pending', retry_count: 0, error_message: null });
+      expect(dbManager.getMediaById('retry-test-video')?.status).toBe('failed');
+      expect(dbManager.getMediaEvents('retry-test-photo').at(-1)).toMatchObject({ from_status: 'abandoned', reason: 'Requeued by retry-failed' });
+
+      expect(dbManager.requeueFailedMedia()).toBe(1);
+      expect(dbManager.getMediaById('retry-test-video')).toMatchObject({ status: 'pending', next_attempt_at: null });
+    });
+
+    it('should count failures by error code and requeue only those with a given code', () => {
+      dbManager.updateMediaStatus('retry-test-photo', 'failed', 'Quota exceeded (429) during byte upload');
+      dbManager.updateErrorCode('retry-test-photo', 'quota');
+      dbManager.updateMediaStatus('retry-test-video', 'abandoned', 'Export failed: Asset not found');
+
+      expect(dbManager.getFailureCountsByErrorCode()).toEqual([
+        { error_code: null, count: 1 },
+        { error_code: 'quota', count: 1 },
+      ]);
+
+      expect(dbManager.requeueFailedMedia({ errorCode: 'quota' })).toBe(1);
+      expect(dbManager.getMediaById('retry-test-photo')).toMatchObject({ status: 'pending', error_code: null });
+      expect(dbManager.getMediaById('retry-test-video')?.status).toBe('abandoned');
+    });
   });
 
   describe('batch operations', () => {
@@ -591,6 +776,19 @@ describe('DatabaseManager', () => {
       expect(uploadingBatches[0].id).toBe('uploading-batch');
     });
 
+    it('should record the items of a batch and leave them out of later batches while it is open', () => {
+      dbManager.addMediaItem(createTestPhoto({ id: 'in-batch', size_bytes: 100 }));
+      dbManager.addMediaItem(createTestPhoto({ id: 'not-in-batch', size_bytes: 300 }));
+      dbManager.addBatch(createTestBatch({ id: 'open-batch' }), ['in-batch']);
+
+      expect(dbManager.getBatchMedia('open-batch').map((item) => item.id)).toEqual(['in-batch']);
+      expect(dbManager.getUnbatchedPendingTotals('default')).toEqual({ count: 1, total_bytes: 300 });
+      expect([...dbManager.iterateUnbatchedPendingMedia('default')].map((item) => item.id)).toEqual(['not-in-batch']);
+
+      dbManager.updateBatchStatus('open-batch', 'failed');
+      expect(dbManager.getUnbatchedPendingTotals('default')).toEqual({ count: 2, total_bytes: 400 });
+    });
+
     it('should respect the limit parameter when getting batches by status', () => {
       // Add multiple batches with the same status
       dbManager.addBatch(createTestBatch({ id: 'limit-test-1', status: 'planned' }));
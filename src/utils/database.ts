@@ -2,9 +2,10 @@ import Database from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
 import { logger } from './logger';
+import { MigrationRunner } from '../migrations/MigrationRunner';
 
 export type MediaType = 'photo' | 'video';
-export type MediaStatus = 'pending' | 'exported' | 'uploaded' | 'failed' | 'skipped' | 'skipped_icloud';
+export type MediaStatus = 'pending' | 'exported' | 'uploaded' | 'failed' | 'skipped' | 'skipped_icloud' | 'removed_from_source' | 'abandoned';
 
 export interface MediaItem {
   id: string;
@@ -25,11 +26,74 @@ export interface MediaItem {
   status: MediaStatus;
   retry_count: number;
   last_attempt_at?: string;
+  next_attempt_at?: string; // A failed item is not attempted again before this time (see RetryPolicy)
   google_photos_id?: string;
   error_message?: string;
+  error_code?: string; // Classified reason of the last failure (see UploadErrorCode)
   is_in_icloud?: boolean; // New property to indicate if media is stored primarily in iCloud
+  profile?: string; // Google account profile the item was (or is being) uploaded to; unset until first attempt
+  // Resumable upload state, kept so an interrupted upload can continue after a restart
+  upload_session_url?: string;
+  upload_offset?: number;
+  is_favorite?: boolean;
+  is_hidden?: boolean; // Hidden in Apple Photos
+  duplicate_of?: string; // Item with the same (or visually the same) content that is uploaded instead of this one
 }
 
+/**
+ * Fields a rescan may refresh on an existing media item
+ */
+export type MediaMetadataUpdate = Partial<
+  Pick<
+    MediaItem,
+    | 'mime_type'
+    | 'original_path'
+    | 'original_name'
+    | 'size_bytes'
+    | 'creation_date'
+    | 'pixel_size'
+    | 'duration_seconds'
+    | 'codec'
+    | 'is_in_icloud'
+    | 'is_favorite'
+    | 'is_hidden'
+    | 'status'
+    | 'sha256_hash'
+    | 'visual_hash'
+  >
+>;
+
+const METADATA_UPDATE_COLUMNS: (keyof MediaMetadataUpdate)[] = [
+  'mime_type',
+  'original_path',
+  'original_name',
+  'size_bytes',
+  'creation_date',
+  'pixel_size',
+  'duration_seconds',
+  'codec',
+  'is_in_icloud',
+  'is_favorite',
+  'is_hidden',
+  'status',
+  'sha256_hash',
+  'visual_hash',
+];
+
+// Items still to be hashed: no hash yet, still in the library, and with a file on disk
+// (Apple Photos assets without a path only have a urn placeholder until they are exported)
+const UNHASHED_CONDITION = `sha256_hash IS NULL AND status != 'removed_from_source' AND (original_path NOT LIKE 'urn:%' OR local_copy_path IS NOT NULL)`;
+// Photos still to be visually hashed, under the same conditions; the MIME types that can be decoded are bound separately
+const UNVISUAL_HASHED_CONDITION = `visual_hash IS NULL AND media_type = 'photo' AND status != 'removed_from_source' AND (original_path NOT LIKE 'urn:%' OR local_copy_path IS NOT NULL)`;
+// Items due for an upload attempt: pending ones, and failed ones whose retry time has come
+const DUE_CONDITION = `(status = 'pending' OR (status = 'failed' AND next_attempt_at <= strftime('%Y-%m-%dT%H:%M:%fZ', 'now')))`;
+// Due items for a profile (bound first) that no open batch holds yet
+const UNBATCHED_PENDING_CONDITION = `${DUE_CONDITION} AND (profile IS NULL OR profile = ?) AND id NOT IN (
+  SELECT batch_items.media_id FROM batch_items
+  JOIN batches ON batches.id = batch_items.batch_id
+  WHERE batches.status IN ('planned', 'uploading')
+)`;
+
 export interface Batch {
   id: string;
   created_at: string;
@@ -38,11 +102,80 @@ export interface Batch {
   files_count: number;
 }
 
+/**
+ * Number and combined size of media items
+ */
+export interface MediaTotals {
+  count: number;
+  total_bytes: number;
+}
+
+/**
+ * Scanner output that failed validation, kept for inspection instead of being inserted
+ */
+export interface QuarantinedRecord {
+  id: number;
+  source: string; // Scanner that produced the record
+  local_identifier?: string;
+  reason: string;
+  payload: string; // Raw output line
+  created_at: string;
+}
+
 export interface Setting {
   key: string;
   value: string;
 }
 
+/**
+ * A status change of a media item
+ */
+export interface MediaEvent {
+  id: number;
+  media_id: string;
+  from_status: MediaStatus;
+  to_status: MediaStatus;
+  reason?: string;
+  created_at: string;
+}
+
+/**
+ * Statuses a media item may move to from each status. Setting the status it already has is
+ * always allowed. 'uploaded' is final: leaving it would upload the item again and create a
+ * duplicate in Google Photos.
+ */
+export const MEDIA_STATUS_TRANSITIONS: Record<MediaStatus, readonly MediaStatus[]> = {
+  pending: ['exported', 'uploaded', 'failed', 'abandoned', 'skipped', 'skipped_icloud', 'removed_from_source'],
+  exported: ['pending', 'uploaded', 'failed', 'abandoned', 'skipped', 'skipped_icloud', 'removed_from_source'],
+  failed: ['pending', 'exported', 'uploaded', 'abandoned', 'skipped', 'skipped_icloud', 'removed_from_source'],
+  abandoned: ['pending', 'removed_from_source'],
+  skipped: ['pending', 'removed_from_source'],
+  skipped_icloud: ['pending', 'skipped', 'removed_from_source'],
+  removed_from_source: ['pending'],
+  uploaded: [],
+};
+
+export function isStatusTransitionAllowed(from: MediaStatus, to: MediaStatus): boolean {
+  return from === to || MEDIA_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Raised when a media item is asked to move to a status its current status doesn't allow
+ */
+export class InvalidStatusTransitionError extends Error {
+  readonly mediaId: string;
+  readonly from: MediaStatus;
+  readonly to: MediaStatus;
+
+  constructor(mediaId: string, from: MediaStatus, to: MediaStatus) {
+    super(`Media item ${mediaId} cannot move from '${from}' to '${to}'`);
+    this.name = 'InvalidStatusTransitionError';
+    this.mediaId = mediaId;
+    this.from = from;
+    this.to = to;
+  }
+}
+
 export class DatabaseManager {
   private db: Database.Database;
   private isInitialized: boolean = false;
@@ -79,73 +212,17 @@ export class DatabaseManager {
   }
 
   /**
-   * Initialize the database schema
+   * Bring the database schema up to date by applying the pending migrations. The schema is
+   * owned by the migrations in src/migrations/versions, starting with the initial tables.
    */
-  public initialize(): boolean {
+  public async initialize(): Promise<boolean> {
     if (this.isInitialized) {
       logger.warn('Database already initialized');
       return true;
     }
 
     try {
-      // Create media_items table
-      this.db.exec(`
-        CREATE TABLE IF NOT EXISTS media_items (
-          id TEXT PRIMARY KEY,
-          media_type TEXT CHECK(media_type IN ('photo', 'video')) NOT NULL,
-          mime_type TEXT NOT NULL,
-          original_path TEXT NOT NULL,
-          local_copy_path TEXT,
-          original_name TEXT NOT NULL,
-          size_bytes INTEGER,
-          creation_date TEXT,
-          sha256_hash TEXT,
-          visual_hash TEXT,
-          pixel_size TEXT,
-          duration_seconds REAL,
-          frame_rate REAL,
-          codec TEXT,
-          status TEXT CHECK(status IN ('pending', 'exported', 'uploaded', 'failed', 'skipped', 'skipped_icloud')),
-          retry_count INTEGER DEFAULT 0,
-          last_attempt_at TEXT,
-          google_photos_id TEXT,
-          error_message TEXT,
-          is_in_icloud INTEGER DEFAULT 0
-        );
-      `);
-
-      // Create batches table
-      this.db.exec(`
-        CREATE TABLE IF NOT EXISTS batches (
-          id TEXT PRIMARY KEY,
-          created_at TEXT,
-          status TEXT CHECK(status IN ('planned', 'uploading', 'complete', 'failed')),
-          total_size INTEGER,
-          files_count INTEGER
-        );
-      `);
-
-      // Create settings table
-      this.db.exec(`
-        CREATE TABLE IF NOT EXISTS settings (
-          key TEXT PRIMARY KEY,
-          value TEXT
-        );
-      `);
-
-      // Create indexes for frequently queried columns
-      this.db.exec(`
-        CREATE INDEX IF NOT EXISTS idx_media_status ON media_items(status);
-        CREATE INDEX IF NOT EXISTS idx_media_sha256_hash ON media_items(sha256_hash);
-        CREATE INDEX IF NOT EXISTS idx_media_type ON media_items(media_type);
-        CREATE INDEX IF NOT EXISTS idx_media_mime_type ON media_items(mime_type);
-        CREATE INDEX IF NOT EXISTS idx_media_retry_count ON media_items(retry_count);
-        CREATE INDEX IF NOT EXISTS idx_batches_status ON batches(status);
-        
-        -- Compound indexes for multi-field queries
-        CREATE INDEX IF NOT EXISTS idx_media_type_status ON media_items(media_type, status);
-        CREATE INDEX IF NOT EXISTS idx_media_mime_status ON media_items(mime_type, status);
-      `);
+      await new MigrationRunner(this).up();
 
       this.isInitialized = true;
       logger.info('Database schema initialized successfully');
@@ -166,8 +243,8 @@ export class DatabaseManager {
         INSERT INTO media_items 
         (id, media_type, mime_type, original_path, local_copy_path, original_name, size_bytes, creation_date, 
          sha256_hash, visual_hash, pixel_size, duration_seconds, frame_rate, codec, status, 
-         retry_count, last_attempt_at, google_photos_id, error_message, is_in_icloud)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?, ?, ?)
+         retry_count, last_attempt_at, google_photos_id, error_message, is_in_icloud, is_favorite, is_hidden)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?, ?, ?, ?, ?)
       `);
 
       stmt.run(
@@ -189,7 +266,9 @@ export class DatabaseManager {
         media.last_attempt_at || null,
         media.google_photos_id || null,
         media.error_message || null,
-        media.is_in_icloud === true ? 1 : 0
+        media.is_in_icloud === true ? 1 : 0,
+        media.is_favorite === true ? 1 : 0,
+        media.is_hidden === true ? 1 : 0
       );
       
       logger.debug('Added media item to database', { id: media.id, type: media.media_type, mimeType: media.mime_type });
@@ -218,8 +297,8 @@ export class DatabaseManager {
           INSERT INTO media_items 
           (id, media_type, mime_type, original_path, local_copy_path, original_name, size_bytes, creation_date, 
            sha256_hash, visual_hash, pixel_size, duration_seconds, frame_rate, codec, status, 
-           retry_count, last_attempt_at, google_photos_id, error_message, is_in_icloud)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?, ?, ?)
+           retry_count, last_attempt_at, google_photos_id, error_message, is_in_icloud, is_favorite, is_hidden)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?, ?, ?, ?, ?)
         `);
         
         for (const media of mediaList) {
@@ -242,7 +321,9 @@ export class DatabaseManager {
             media.last_attempt_at || null,
             media.google_photos_id || null,
             media.error_message || null,
-            media.is_in_icloud === true ? 1 : 0
+            media.is_in_icloud === true ? 1 : 0,
+            media.is_favorite === true ? 1 : 0,
+            media.is_hidden === true ? 1 : 0
           );
           ids.push(media.id);
         }
@@ -262,24 +343,34 @@ export class DatabaseManager {
   }
 
   /**
-   * Update the status of a media item in the database
+   * Update the status of a media item in the database, clearing its error code. Throws an InvalidStatusTransitionError
+   * if the item's current status doesn't allow the change (see MEDIA_STATUS_TRANSITIONS).
+   * @param reason Recorded in the item's history; defaults to the error message
    */
-  public updateMediaStatus(id: string, status: MediaStatus, errorMessage?: string): boolean {
+  public updateMediaStatus(id: string, status: MediaStatus, errorMessage?: string, reason: string | undefined = errorMessage): boolean {
     try {
       const stmt = this.db.prepare(`
         UPDATE media_items 
-        SET status = ?, last_attempt_at = ?, error_message = ?
+        SET status = ?, last_attempt_at = ?, error_message = ?, error_code = NULL
         WHERE id = ?
       `);
 
-      const result = stmt.run(
-        status,
-        new Date().toISOString(),
-        errorMessage || null,
-        id
-      );
+      const transaction = this.db.transaction(() => {
+        const current = this.getCurrentStatus(id);
+        if (current === undefined) {
+          return false;
+        }
+        this.recordStatusChange(id, current, status, reason);
+        stmt.run(
+          status,
+          new Date().toISOString(),
+          errorMessage || null,
+          id
+        );
+        return true;
+      });
       
-      if (result.changes === 0) {
+      if (!transaction()) {
         logger.warn('No media item found with the given ID', { id });
         return false;
       }
@@ -321,9 +412,16 @@ export class DatabaseManager {
   }
 
   /**
-   * Update the local_copy_path for a media item
+   * Path of the database file
+   */
+  public getDatabasePath(): string {
+    return this.db.name;
+  }
+
+  /**
+   * Update the local_copy_path for a media item (null once the copy is deleted)
    */
-  public updateLocalCopyPath(id: string, localCopyPath: string): boolean {
+  public updateLocalCopyPath(id: string, localCopyPath: string | null): boolean {
     try {
       const stmt = this.db.prepare(`
         UPDATE media_items 
@@ -348,305 +446,1090 @@ export class DatabaseManager {
   }
 
   /**
-   * Get media items with a specific status
+   * Set when a failed media item may be attempted again
    */
-  public getMediaByStatus(status: MediaStatus, limit: number = 100): MediaItem[] {
+  public updateNextAttemptAt(id: string, nextAttemptAt: string | null): boolean {
     try {
       const stmt = this.db.prepare(`
-        SELECT * FROM media_items
-        WHERE status = ?
-        LIMIT ?
+        UPDATE media_items 
+        SET next_attempt_at = ?
+        WHERE id = ?
       `);
 
-      return stmt.all(status, limit) as MediaItem[];
+      const result = stmt.run(nextAttemptAt, id);
+      
+      if (result.changes === 0) {
+        logger.warn('No media item found with the given ID', { id });
+        return false;
+      }
+      
+      logger.debug('Updated next attempt time', { id, nextAttemptAt });
+      return true;
     } catch (error) {
       const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
-      logger.error('Failed to get media items by status', { error: safeError, status });
+      logger.error('Failed to update next attempt time', { error: safeError, id });
       throw error;
     }
   }
 
   /**
-   * Get media items by type and status
+   * Put failed and abandoned media items back in the queue with their retry count reset.
+   * `errorMatch` selects items whose error message contains the text (case-insensitive), `errorCode`
+   * those with that error code, and `profile` those of the profile (or not yet claimed by any).
+   * @returns Number of items requeued
    */
-  public getMediaByTypeAndStatus(type: MediaType, status: MediaStatus, limit: number = 100): MediaItem[] {
+  public requeueFailedMedia(filter: { errorMatch?: string; errorCode?: string; profile?: string } = {}): number {
+    const { errorMatch, errorCode, profile } = filter;
     try {
-      const stmt = this.db.prepare(`
-        SELECT * FROM media_items
-        WHERE media_type = ? AND status = ?
-        LIMIT ?
+      const select = this.db.prepare(`
+        SELECT id, status FROM media_items
+        WHERE status IN ('failed', 'abandoned')
+          AND (? IS NULL OR instr(lower(error_message), lower(?)) > 0)
+          AND (? IS NULL OR error_code = ?)
+          AND (? IS NULL OR profile IS NULL OR profile = ?)
+      `);
+      const update = this.db.prepare(`
+        UPDATE media_items 
+        SET status = 'pending', retry_count = 0, next_attempt_at = NULL, error_message = NULL, error_code = NULL
+        WHERE id = ?
       `);
 
-      return stmt.all(type, status, limit) as MediaItem[];
+      const transaction = this.db.transaction(() => {
+        const items = select.all(
+          errorMatch ?? null, errorMatch ?? null, errorCode ?? null, errorCode ?? null, profile ?? null, profile ?? null
+        ) as Pick<MediaItem, 'id' | 'status'>[];
+        for (const item of items) {
+          this.recordStatusChange(item.id, item.status, 'pending', 'Requeued by retry-failed');
+          update.run(item.id);
+        }
+        return items.length;
+      });
+      const requeued = transaction();
+
+      logger.debug(`Requeued ${requeued} failed media items`, filter);
+      return requeued;
     } catch (error) {
       const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
-      logger.error('Failed to get media items by type and status', { error: safeError, type, status });
+      logger.error('Failed to requeue failed media items', { error: safeError, ...filter });
       throw error;
     }
   }
 
   /**
-   * Get pending media items (maintained for API compatibility with requirements)
-   */
-  public getPendingMedia(limit: number = 100): MediaItem[] {
-    return this.getMediaByStatus('pending', limit);
-  }
-
-  /**
-   * Get pending photos only
+   * Record the classified reason of a media item's last failure
    */
-  public getPendingPhotos(limit: number = 100): MediaItem[] {
-    return this.getMediaByTypeAndStatus('photo', 'pending', limit);
-  }
+  public updateErrorCode(id: string, errorCode: string | null): boolean {
+    try {
+      const stmt = this.db.prepare(`
+        UPDATE media_items 
+        SET error_code = ?
+        WHERE id = ?
+      `);
 
-  /**
-   * Get pending videos only
-   */
-  public getPendingVideos(limit: number = 100): MediaItem[] {
-    return this.getMediaByTypeAndStatus('video', 'pending', limit);
+      const result = stmt.run(errorCode, id);
+      
+      if (result.changes === 0) {
+        logger.warn('No media item found with the given ID', { id });
+        return false;
+      }
+      
+      logger.debug('Updated error code', { id, errorCode });
+      return true;
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to update error code', { error: safeError, id });
+      throw error;
+    }
   }
 
   /**
-   * Get a media item by its SHA256 hash
+   * Count failed and abandoned media items by error code, most frequent first. Items failed
+   * before error codes were recorded have a null code.
+   * When a profile is given, only items of that profile (or not yet claimed by any) are counted.
    */
-  public getMediaByHash(hash: string): MediaItem | undefined {
+  public getFailureCountsByErrorCode(profile?: string): { error_code: string | null; count: number }[] {
     try {
+      const profileFilter = profile === undefined ? '' : 'AND (profile IS NULL OR profile = ?)';
       const stmt = this.db.prepare(`
-        SELECT * FROM media_items
-        WHERE sha256_hash = ?
-        LIMIT 1
+        SELECT error_code, COUNT(*) as count FROM media_items
+        WHERE status IN ('failed', 'abandoned') ${profileFilter}
+        GROUP BY error_code
+        ORDER BY count DESC, error_code
       `);
 
-      return stmt.get(hash) as MediaItem | undefined;
+      const params = profile === undefined ? [] : [profile];
+      return stmt.all(...params) as { error_code: string | null; count: number }[];
     } catch (error) {
       const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
-      logger.error('Failed to get media item by hash', { error: safeError, hash });
+      logger.error('Failed to count failures by error code', { error: safeError });
       throw error;
     }
   }
 
   /**
-   * Get a media item by its ID
+   * Record which Google account profile an item is being uploaded to
    */
-  public getMediaById(id: string): MediaItem | undefined {
+  public updateMediaProfile(id: string, profile: string): boolean {
     try {
       const stmt = this.db.prepare(`
-        SELECT * FROM media_items
+        UPDATE media_items 
+        SET profile = ?
         WHERE id = ?
-        LIMIT 1
       `);
 
-      return stmt.get(id) as MediaItem | undefined;
+      const result = stmt.run(profile, id);
+      
+      if (result.changes === 0) {
+        logger.warn('No media item found with the given ID', { id });
+        return false;
+      }
+      
+      logger.debug('Updated media item profile', { id, profile });
+      return true;
     } catch (error) {
       const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
-      logger.error('Failed to get media item by ID', { error: safeError, id });
+      logger.error('Failed to update media item profile', { error: safeError, id });
       throw error;
     }
   }
 
   /**
-   * Get the total count of media items
+   * Save the resumable upload session URL and the number of bytes Google has acknowledged
    */
-  public getTotalCount(): number {
+  public saveUploadSession(id: string, sessionUrl: string, offset: number): boolean {
     try {
       const stmt = this.db.prepare(`
-        SELECT COUNT(*) as count FROM media_items
+        UPDATE media_items 
+        SET upload_session_url = ?, upload_offset = ?
+        WHERE id = ?
       `);
 
-      const result = stmt.get() as { count: number };
-      return result.count;
+      const result = stmt.run(sessionUrl, offset, id);
+      
+      if (result.changes === 0) {
+        logger.warn('No media item found with the given ID', { id });
+        return false;
+      }
+      
+      logger.debug('Saved upload session', { id, offset });
+      return true;
     } catch (error) {
       const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
-      logger.error('Failed to get total count of media items', { error: safeError });
+      logger.error('Failed to save upload session', { error: safeError, id });
       throw error;
     }
   }
 
   /**
-   * Get the count of media items by type
+   * Forget the resumable upload session for a media item (finished or no longer usable)
    */
-  public getCountByType(type: MediaType): number {
+  public clearUploadSession(id: string): boolean {
     try {
       const stmt = this.db.prepare(`
-        SELECT COUNT(*) as count FROM media_items
-        WHERE media_type = ?
+        UPDATE media_items 
+        SET upload_session_url = NULL, upload_offset = NULL
+        WHERE id = ?
       `);
 
-      const result = stmt.get(type) as { count: number };
-      return result.count;
+      const result = stmt.run(id);
+      
+      if (result.changes === 0) {
+        logger.warn('No media item found with the given ID', { id });
+        return false;
+      }
+      
+      logger.debug('Cleared upload session', { id });
+      return true;
     } catch (error) {
       const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
-      logger.error('Failed to get count of media items by type', { error: safeError, type });
+      logger.error('Failed to clear upload session', { error: safeError, id });
       throw error;
     }
   }
 
   /**
-   * Get the count of media items by status
+   * Update the scanned metadata of a media item. Only the given fields are changed.
    */
-  public getCountByStatus(status: MediaStatus): number {
+  public updateMediaMetadata(id: string, changes: MediaMetadataUpdate): boolean {
+    const columns = METADATA_UPDATE_COLUMNS.filter((column) => column in changes);
+    if (columns.length === 0) {
+      return true;
+    }
+
     try {
       const stmt = this.db.prepare(`
-        SELECT COUNT(*) as count FROM media_items
-        WHERE status = ?
+        UPDATE media_items 
+        SET ${columns.map((column) => `${column} = ?`).join(', ')}
+        WHERE id = ?
       `);
 
-      const result = stmt.get(status) as { count: number };
-      return result.count;
+      const values = columns.map((column) => {
+        const value = changes[column];
+        return typeof value === 'boolean' ? (value ? 1 : 0) : value ?? null;
+      });
+      const transaction = this.db.transaction(() => {
+        const current = this.getCurrentStatus(id);
+        if (current === undefined) {
+          return false;
+        }
+        if (changes.status) {
+          this.recordStatusChange(id, current, changes.status, 'Updated by a rescan');
+        }
+        stmt.run(...values, id);
+        return true;
+      });
+      
+      if (!transaction()) {
+        logger.warn('No media item found with the given ID', { id });
+        return false;
+      }
+      
+      logger.debug('Updated media item metadata', { id, columns });
+      return true;
     } catch (error) {
       const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
-      logger.error('Failed to get count of media items by status', { error: safeError, status });
+      logger.error('Failed to update media item metadata', { error: safeError, id });
       throw error;
     }
   }
 
   /**
-   * Get the count of media items by type and status
+   * Mark media items whose asset no longer exists in the source library.
+   * Items whose status can't move to removed_from_source (uploaded ones) keep their status.
+   * @returns Number of items marked
    */
-  public getCountByTypeAndStatus(type: MediaType, status: MediaStatus): number {
+  public markRemovedFromSource(ids: string[]): number {
+    if (ids.length === 0) {
+      return 0;
+    }
+
     try {
       const stmt = this.db.prepare(`
-        SELECT COUNT(*) as count FROM media_items
-        WHERE media_type = ? AND status = ?
+        UPDATE media_items 
+        SET status = 'removed_from_source', upload_session_url = NULL, upload_offset = NULL
+        WHERE id = ?
       `);
 
-      const result = stmt.get(type, status) as { count: number };
-      return result.count;
+      const transaction = this.db.transaction((idList: string[]) =>
+        idList.reduce((marked, id) => {
+          const current = this.getCurrentStatus(id);
+          if (current === undefined || current === 'removed_from_source' || !isStatusTransitionAllowed(current, 'removed_from_source')) {
+            return marked;
+          }
+          this.recordStatusChange(id, current, 'removed_from_source', 'No longer in the source library');
+          return marked + stmt.run(id).changes;
+        }, 0)
+      );
+      const marked = transaction(ids);
+
+      logger.debug(`Marked ${marked} media items as removed from source`);
+      return marked;
     } catch (error) {
       const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
-      logger.error('Failed to get count of media items by type and status', { error: safeError, type, status });
+      logger.error('Failed to mark media items as removed from source', { error: safeError, count: ids.length });
       throw error;
     }
   }
 
   /**
-   * Get the count of completed media items (status = 'uploaded')
-   * Maintained for API compatibility with requirements
-   */
-  public getCompletedCount(): number {
-    return this.getCountByStatus('uploaded');
-  }
-
-  /**
-   * Increment the retry count for a media item
+   * Get the IDs of all media items
    */
-  public incrementRetryCount(id: string): number {
+  public getAllMediaIds(): string[] {
     try {
       const stmt = this.db.prepare(`
-        UPDATE media_items
-        SET retry_count = retry_count + 1, last_attempt_at = ?
-        WHERE id = ?
-        RETURNING retry_count
+        SELECT id FROM media_items
       `);
 
-      const result = stmt.get(new Date().toISOString(), id) as { retry_count: number } | undefined;
-      
-      if (!result) {
-        logger.warn('No media item found with the given ID', { id });
-        return -1;
-      }
-      
-      logger.debug('Incremented retry count', { id, newCount: result.retry_count });
-      return result.retry_count;
+      return (stmt.all() as { id: string }[]).map((row) => row.id);
     } catch (error) {
       const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
-      logger.error('Failed to increment retry count', { error: safeError, id });
+      logger.error('Failed to get media item IDs', { error: safeError });
       throw error;
     }
   }
 
   /**
-   * Add a new batch to the database
+   * Get the IDs of media items whose original file is below a directory
    */
-  public addBatch(batch: Omit<Batch, 'created_at'>): string {
+  public getMediaIdsUnderDirectory(directory: string): string[] {
+    const prefix = directory.endsWith(path.sep) ? directory : directory + path.sep;
     try {
       const stmt = this.db.prepare(`
-        INSERT INTO batches
-        (id, created_at, status, total_size, files_count)
-        VALUES (?, ?, ?, ?, ?)
+        SELECT id FROM media_items
+        WHERE instr(original_path, ?) = 1
       `);
 
-      stmt.run(
-        batch.id,
-        new Date().toISOString(),
-        batch.status,
-        batch.total_size,
-        batch.files_count
-      );
-      
-      logger.debug('Added batch to database', { id: batch.id });
-      return batch.id;
+      return (stmt.all(prefix) as { id: string }[]).map((row) => row.id);
     } catch (error) {
       const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
-      logger.error('Failed to add batch to database', { error: safeError, batchId: batch.id });
+      logger.error(`Failed to get media item IDs under ${directory}`, { error: safeError });
       throw error;
     }
   }
 
   /**
-   * Update the status of a batch
+   * Get media items with a specific status
    */
-  public updateBatchStatus(id: string, status: Batch['status']): boolean {
+  public getMediaByStatus(status: MediaStatus, limit: number = 100): MediaItem[] {
     try {
       const stmt = this.db.prepare(`
-        UPDATE batches
-        SET status = ?
-        WHERE id = ?
+        SELECT * FROM media_items
+        WHERE status = ?
+        LIMIT ?
       `);
 
-      const result = stmt.run(status, id);
-      
-      if (result.changes === 0) {
-        logger.warn('No batch found with the given ID', { id });
-        return false;
-      }
-      
-      logger.debug('Updated batch status', { id, status });
-      return true;
+      return stmt.all(status, limit) as MediaItem[];
     } catch (error) {
       const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
-      logger.error('Failed to update batch status', { error: safeError, id, status });
+      logger.error('Failed to get media items by status', { error: safeError, status });
       throw error;
     }
   }
 
   /**
-   * Get a batch by its ID
+   * Get media items by type and status
    */
-  public getBatchById(id: string): Batch | undefined {
+  public getMediaByTypeAndStatus(type: MediaType, status: MediaStatus, limit: number = 100): MediaItem[] {
     try {
       const stmt = this.db.prepare(`
-        SELECT * FROM batches
-        WHERE id = ?
+        SELECT * FROM media_items
+        WHERE media_type = ? AND status = ?
+        LIMIT ?
       `);
 
-      return stmt.get(id) as Batch | undefined;
+      return stmt.all(type, status, limit) as MediaItem[];
     } catch (error) {
       const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
-      logger.error('Failed to get batch by ID', { error: safeError, id });
+      logger.error('Failed to get media items by type and status', { error: safeError, type, status });
       throw error;
     }
   }
 
   /**
-   * Get batches by status
+   * Get pending media items, and failed ones that are due for a retry (see RetryPolicy)
+   * When a profile is given, items already claimed by another profile are excluded.
    */
-  public getBatchesByStatus(status: Batch['status'], limit: number = 10): Batch[] {
+  public getPendingMedia(limit: number = 100, profile?: string): MediaItem[] {
     try {
+      const profileFilter = profile === undefined ? '' : 'AND (profile IS NULL OR profile = ?)';
       const stmt = this.db.prepare(`
-        SELECT * FROM batches
-        WHERE status = ?
+        SELECT * FROM media_items
+        WHERE ${DUE_CONDITION} ${profileFilter}
         LIMIT ?
       `);
 
-      return stmt.all(status, limit) as Batch[];
+      const params = profile === undefined ? [limit] : [profile, limit];
+      return stmt.all(...params) as MediaItem[];
     } catch (error) {
       const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
-      logger.error('Failed to get batches by status', { error: safeError, status });
+      logger.error('Failed to get pending media items', { error: safeError, profile });
       throw error;
     }
   }
 
+  /**
+   * Get pending photos only
+   */
+  public getPendingPhotos(limit: number = 100): MediaItem[] {
+    return this.getMediaByTypeAndStatus('photo', 'pending', limit);
+  }
+
+  /**
+   * Get pending videos only
+   */
+  public getPendingVideos(limit: number = 100): MediaItem[] {
+    return this.getMediaByTypeAndStatus('video', 'pending', limit);
+  }
+
+  /**
+   * Get a media item by its SHA256 hash
+   */
+  public getMediaByHash(hash: string): MediaItem | undefined {
+    try {
+      const stmt = this.db.prepare(`
+        SELECT * FROM media_items
+        WHERE sha256_hash = ?
+        LIMIT 1
+      `);
+
+      return stmt.get(hash) as MediaItem | undefined;
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to get media item by hash', { error: safeError, hash });
+      throw error;
+    }
+  }
+
+  /**
+   * Get media items without a content hash whose file is available locally, ordered by ID.
+   * Pass the last ID of the previous page as `afterId` to page through them.
+   */
+  public getUnhashedMedia(limit: number = 100, afterId: string = ''): MediaItem[] {
+    try {
+      const stmt = this.db.prepare(`
+        SELECT * FROM media_items
+        WHERE ${UNHASHED_CONDITION} AND id > ?
+        ORDER BY id
+        LIMIT ?
+      `);
+
+      return stmt.all(afterId, limit) as MediaItem[];
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to get unhashed media items', { error: safeError });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the number of media items that getUnhashedMedia would return
+   */
+  public getUnhashedCount(): number {
+    try {
+      const stmt = this.db.prepare(`
+        SELECT COUNT(*) as count FROM media_items
+        WHERE ${UNHASHED_CONDITION}
+      `);
+
+      const result = stmt.get() as { count: number };
+      return result.count;
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to get unhashed media count', { error: safeError });
+      throw error;
+    }
+  }
+
+  /**
+   * Store the SHA-256 hash of a media item's content
+   */
+  public updateSha256Hash(id: string, hash: string): boolean {
+    try {
+      const stmt = this.db.prepare(`
+        UPDATE media_items 
+        SET sha256_hash = ?
+        WHERE id = ?
+      `);
+
+      const result = stmt.run(hash, id);
+      
+      if (result.changes === 0) {
+        logger.warn('No media item found with the given ID', { id });
+        return false;
+      }
+      
+      return true;
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to update media item hash', { error: safeError, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Get photos of the given MIME types without a visual hash whose file is available locally, ordered by ID.
+   * Pass the last ID of the previous page as `afterId` to page through them.
+   */
+  public getUnvisualHashedMedia(mimeTypes: string[], limit: number = 100, afterId: string = ''): MediaItem[] {
+    try {
+      const stmt = this.db.prepare(`
+        SELECT * FROM media_items
+        WHERE ${UNVISUAL_HASHED_CONDITION} AND mime_type IN (${mimeTypes.map(() => '?').join(', ')}) AND id > ?
+        ORDER BY id
+        LIMIT ?
+      `);
+
+      return stmt.all(...mimeTypes, afterId, limit) as MediaItem[];
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to get media items without a visual hash', { error: safeError });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the number of media items that getUnvisualHashedMedia would return
+   */
+  public getUnvisualHashedCount(mimeTypes: string[]): number {
+    try {
+      const stmt = this.db.prepare(`
+        SELECT COUNT(*) as count FROM media_items
+        WHERE ${UNVISUAL_HASHED_CONDITION} AND mime_type IN (${mimeTypes.map(() => '?').join(', ')})
+      `);
+
+      const result = stmt.get(...mimeTypes) as { count: number };
+      return result.count;
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to get count of media items without a visual hash', { error: safeError });
+      throw error;
+    }
+  }
+
+  /**
+   * Store the perceptual hash of a photo, and its dimensions if they weren't known yet
+   */
+  public updateVisualHash(id: string, visualHash: string, pixelSize: string): boolean {
+    try {
+      const stmt = this.db.prepare(`
+        UPDATE media_items 
+        SET visual_hash = ?, pixel_size = COALESCE(pixel_size, ?)
+        WHERE id = ?
+      `);
+
+      const result = stmt.run(visualHash, pixelSize, id);
+      
+      if (result.changes === 0) {
+        logger.warn('No media item found with the given ID', { id });
+        return false;
+      }
+      
+      return true;
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to update media item visual hash', { error: safeError, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Get all media items still in the library that have a visual hash
+   */
+  public getVisuallyHashedMedia(): MediaItem[] {
+    try {
+      const stmt = this.db.prepare(`
+        SELECT * FROM media_items
+        WHERE visual_hash IS NOT NULL AND status != 'removed_from_source'
+        ORDER BY id
+      `);
+
+      return stmt.all() as MediaItem[];
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to get visually hashed media items', { error: safeError });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the content hashes shared by more than one item still in the library
+   */
+  public getDuplicateHashes(): string[] {
+    try {
+      const stmt = this.db.prepare(`
+        SELECT sha256_hash FROM media_items
+        WHERE sha256_hash IS NOT NULL AND status != 'removed_from_source'
+        GROUP BY sha256_hash
+        HAVING COUNT(*) > 1
+        ORDER BY MIN(creation_date), sha256_hash
+      `);
+
+      return (stmt.all() as { sha256_hash: string }[]).map((row) => row.sha256_hash);
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to get duplicate hashes', { error: safeError });
+      throw error;
+    }
+  }
+
+  /**
+   * Get all media items still in the library with the given SHA256 hash
+   */
+  public getMediaItemsByHash(hash: string): MediaItem[] {
+    try {
+      const stmt = this.db.prepare(`
+        SELECT * FROM media_items
+        WHERE sha256_hash = ? AND status != 'removed_from_source'
+        ORDER BY id
+      `);
+
+      return stmt.all(hash) as MediaItem[];
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to get media items by hash', { error: safeError, hash });
+      throw error;
+    }
+  }
+
+  /**
+   * Skip a media item because `keeperId` has the same content and is uploaded instead.
+   * Any unfinished upload session is dropped.
+   */
+  public markDuplicate(id: string, keeperId: string): boolean {
+    try {
+      const stmt = this.db.prepare(`
+        UPDATE media_items 
+        SET status = 'skipped', duplicate_of = ?, upload_session_url = NULL, upload_offset = NULL
+        WHERE id = ?
+      `);
+
+      const transaction = this.db.transaction(() => {
+        const current = this.getCurrentStatus(id);
+        if (current === undefined) {
+          return false;
+        }
+        this.recordStatusChange(id, current, 'skipped', `Duplicate of ${keeperId}`);
+        stmt.run(keeperId, id);
+        return true;
+      });
+      
+      if (!transaction()) {
+        logger.warn('No media item found with the given ID', { id });
+        return false;
+      }
+      
+      logger.debug('Marked media item as duplicate', { id, keeperId });
+      return true;
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to mark media item as duplicate', { error: safeError, id, keeperId });
+      throw error;
+    }
+  }
+
+  /**
+   * Make a media item skipped as a duplicate uploadable again
+   */
+  public clearDuplicate(id: string): boolean {
+    try {
+      const stmt = this.db.prepare(`
+        UPDATE media_items 
+        SET status = 'pending', duplicate_of = NULL
+        WHERE id = ? AND duplicate_of IS NOT NULL
+      `);
+
+      const transaction = this.db.transaction(() => {
+        const current = this.getCurrentStatus(id);
+        if (current === undefined || stmt.run(id).changes === 0) {
+          return false;
+        }
+        this.recordStatusChange(id, current, 'pending', 'Duplicate mark cleared');
+        return true;
+      });
+      
+      if (!transaction()) {
+        logger.warn('No duplicate media item found with the given ID', { id });
+        return false;
+      }
+      
+      logger.debug('Cleared duplicate mark of media item', { id });
+      return true;
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to clear duplicate mark of media item', { error: safeError, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a media item by its ID
+   */
+  public getMediaById(id: string): MediaItem | undefined {
+    try {
+      const stmt = this.db.prepare(`
+        SELECT * FROM media_items
+        WHERE id = ?
+        LIMIT 1
+      `);
+
+      return stmt.get(id) as MediaItem | undefined;
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to get media item by ID', { error: safeError, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the total count of media items
+   */
+  public getTotalCount(): number {
+    try {
+      const stmt = this.db.prepare(`
+        SELECT COUNT(*) as count FROM media_items
+      `);
+
+      const result = stmt.get() as { count: number };
+      return result.count;
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to get total count of media items', { error: safeError });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the count of media items by type
+   */
+  public getCountByType(type: MediaType): number {
+    try {
+      const stmt = this.db.prepare(`
+        SELECT COUNT(*) as count FROM media_items
+        WHERE media_type = ?
+      `);
+
+      const result = stmt.get(type) as { count: number };
+      return result.count;
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to get count of media items by type', { error: safeError, type });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the count of media items by status
+   * When a profile is given, only items of that profile (or not yet claimed by any) are counted.
+   */
+  public getCountByStatus(status: MediaStatus, profile?: string): number {
+    try {
+      const profileFilter = profile === undefined ? '' : 'AND (profile IS NULL OR profile = ?)';
+      const stmt = this.db.prepare(`
+        SELECT COUNT(*) as count FROM media_items
+        WHERE status = ? ${profileFilter}
+      `);
+
+      const params = profile === undefined ? [status] : [status, profile];
+      const result = stmt.get(...params) as { count: number };
+      return result.count;
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to get count of media items by status', { error: safeError, status });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the count of media items by type and status
+   */
+  public getCountByTypeAndStatus(type: MediaType, status: MediaStatus): number {
+    try {
+      const stmt = this.db.prepare(`
+        SELECT COUNT(*) as count FROM media_items
+        WHERE media_type = ? AND status = ?
+      `);
+
+      const result = stmt.get(type, status) as { count: number };
+      return result.count;
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to get count of media items by type and status', { error: safeError, type, status });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the count of completed media items (status = 'uploaded')
+   * Maintained for API compatibility with requirements
+   */
+  public getCompletedCount(): number {
+    return this.getCountByStatus('uploaded');
+  }
+
+  /**
+   * Increment the retry count for a media item
+   */
+  public incrementRetryCount(id: string): number {
+    try {
+      const stmt = this.db.prepare(`
+        UPDATE media_items
+        SET retry_count = retry_count + 1, last_attempt_at = ?
+        WHERE id = ?
+        RETURNING retry_count
+      `);
+
+      const result = stmt.get(new Date().toISOString(), id) as { retry_count: number } | undefined;
+      
+      if (!result) {
+        logger.warn('No media item found with the given ID', { id });
+        return -1;
+      }
+      
+      logger.debug('Incremented retry count', { id, newCount: result.retry_count });
+      return result.retry_count;
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to increment retry count', { error: safeError, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Add a new batch to the database, together with the media items it contains
+   */
+  public addBatch(batch: Omit<Batch, 'created_at'>, mediaIds: string[] = []): string {
+    try {
+      const stmt = this.db.prepare(`
+        INSERT INTO batches
+        (id, created_at, status, total_size, files_count)
+        VALUES (?, ?, ?, ?, ?)
+      `);
+      const itemStmt = this.db.prepare(`
+        INSERT INTO batch_items (batch_id, media_id)
+        VALUES (?, ?)
+      `);
+
+      this.db.transaction(() => {
+        stmt.run(
+          batch.id,
+          new Date().toISOString(),
+          batch.status,
+          batch.total_size,
+          batch.files_count
+        );
+        mediaIds.forEach((mediaId) => itemStmt.run(batch.id, mediaId));
+      })();
+      
+      logger.debug('Added batch to database', { id: batch.id, items: mediaIds.length });
+      return batch.id;
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to add batch to database', { error: safeError, batchId: batch.id });
+      throw error;
+    }
+  }
+
+  /**
+   * Update the status of a batch
+   */
+  public updateBatchStatus(id: string, status: Batch['status']): boolean {
+    try {
+      const stmt = this.db.prepare(`
+        UPDATE batches
+        SET status = ?
+        WHERE id = ?
+      `);
+
+      const result = stmt.run(status, id);
+      
+      if (result.changes === 0) {
+        logger.warn('No batch found with the given ID', { id });
+        return false;
+      }
+      
+      logger.debug('Updated batch status', { id, status });
+      return true;
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to update batch status', { error: safeError, id, status });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a batch by its ID
+   */
+  public getBatchById(id: string): Batch | undefined {
+    try {
+      const stmt = this.db.prepare(`
+        SELECT * FROM batches
+        WHERE id = ?
+      `);
+
+      return stmt.get(id) as Batch | undefined;
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to get batch by ID', { error: safeError, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Get batches by status
+   */
+  public getBatchesByStatus(status: Batch['status'], limit: number = 10): Batch[] {
+    try {
+      const stmt = this.db.prepare(`
+        SELECT * FROM batches
+        WHERE status = ?
+        LIMIT ?
+      `);
+
+      return stmt.all(status, limit) as Batch[];
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to get batches by status', { error: safeError, status });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the media items of a batch
+   */
+  public getBatchMedia(batchId: string): MediaItem[] {
+    try {
+      const stmt = this.db.prepare(`
+        SELECT media_items.* FROM batch_items
+        JOIN media_items ON media_items.id = batch_items.media_id
+        WHERE batch_items.batch_id = ?
+        ORDER BY media_items.id
+      `);
+
+      return stmt.all(batchId) as MediaItem[];
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to get media items of batch', { error: safeError, batchId });
+      throw error;
+    }
+  }
+
+  /**
+   * Count pending items for a profile that aren't part of a planned or uploading batch, and their combined size.
+   * Items without a known size count as zero bytes.
+   */
+  public getUnbatchedPendingTotals(profile: string, mediaType?: MediaType): MediaTotals {
+    try {
+      const stmt = this.db.prepare(`
+        SELECT COUNT(*) as count, COALESCE(SUM(size_bytes), 0) as total_bytes FROM media_items
+        WHERE ${UNBATCHED_PENDING_CONDITION} AND (? IS NULL OR media_type = ?)
+      `);
+
+      return stmt.get(profile, mediaType ?? null, mediaType ?? null) as MediaTotals;
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to get unbatched pending media totals', { error: safeError, profile });
+      throw error;
+    }
+  }
+
+  /**
+   * Iterate over pending items for a profile that aren't part of a planned or uploading batch,
+   * in scan order or smallest first. The database can't be written to until iteration ends.
+   */
+  public iterateUnbatchedPendingMedia(profile: string, options: { mediaType?: MediaType; smallestFirst?: boolean } = {}): IterableIterator<MediaItem> {
+    try {
+      const stmt = this.db.prepare(`
+        SELECT * FROM media_items
+        WHERE ${UNBATCHED_PENDING_CONDITION} AND (? IS NULL OR media_type = ?)
+        ORDER BY ${options.smallestFirst ? 'COALESCE(size_bytes, 0), rowid' : 'rowid'}
+      `);
+
+      const mediaType = options.mediaType ?? null;
+      return stmt.iterate(profile, mediaType, mediaType) as IterableIterator<MediaItem>;
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to iterate unbatched pending media items', { error: safeError, profile });
+      throw error;
+    }
+  }
+
+  /**
+   * Current status of a media item, or undefined if there is no item with the ID
+   */
+  private getCurrentStatus(id: string): MediaStatus | undefined {
+    const row = this.db.prepare(`SELECT status FROM media_items WHERE id = ?`).get(id) as { status: MediaStatus } | undefined;
+    return row?.status;
+  }
+
+  /**
+   * Checks a status change against MEDIA_STATUS_TRANSITIONS and adds it to the item's history.
+   * Called inside the transaction that writes the new status, so a rejected change writes nothing.
+   */
+  private recordStatusChange(id: string, from: MediaStatus, to: MediaStatus, reason?: string): void {
+    if (!isStatusTransitionAllowed(from, to)) {
+      throw new InvalidStatusTransitionError(id, from, to);
+    }
+    if (from === to) {
+      return;
+    }
+    this.db.prepare(`
+      INSERT INTO media_events
+      (media_id, from_status, to_status, reason, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(id, from, to, reason || null, new Date().toISOString());
+  }
+
+  /**
+   * Get the status history of a media item, oldest first
+   */
+  public getMediaEvents(id: string): MediaEvent[] {
+    try {
+      const stmt = this.db.prepare(`
+        SELECT * FROM media_events
+        WHERE media_id = ?
+        ORDER BY id
+      `);
+
+      return stmt.all(id) as MediaEvent[];
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to get media item events', { error: safeError, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Store a scanner record that failed validation
+   */
+  public addQuarantinedRecord(record: Omit<QuarantinedRecord, 'id' | 'created_at'>): number {
+    try {
+      const stmt = this.db.prepare(`
+        INSERT INTO scan_quarantine
+        (source, local_identifier, reason, payload, created_at)
+        VALUES (?, ?, ?, ?, ?)
+      `);
+
+      const result = stmt.run(
+        record.source,
+        record.local_identifier || null,
+        record.reason,
+        record.payload,
+        new Date().toISOString()
+      );
+      
+      logger.debug('Quarantined scanner record', { source: record.source, localIdentifier: record.local_identifier });
+      return Number(result.lastInsertRowid);
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to quarantine scanner record', { error: safeError, source: record.source });
+      throw error;
+    }
+  }
+
+  /**
+   * Get quarantined scanner records, newest first
+   */
+  public getQuarantinedRecords(limit: number = 100): QuarantinedRecord[] {
+    try {
+      const stmt = this.db.prepare(`
+        SELECT * FROM scan_quarantine
+        ORDER BY id DESC
+        LIMIT ?
+      `);
+
+      return stmt.all(limit) as QuarantinedRecord[];
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to get quarantined records', { error: safeError });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the number of quarantined scanner records
+   */
+  public getQuarantineCount(): number {
+    try {
+      const stmt = this.db.prepare(`
+        SELECT COUNT(*) as count FROM scan_quarantine
+      `);
+
+      const result = stmt.get() as { count: number };
+      return result.count;
+    } catch (error) {
+      const safeError = { message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined };
+      logger.error('Failed to get quarantine count', { error: safeError });
+      throw error;
+    }
+  }
+
+  /**
+   * The underlying connection, for schema changes made by the MigrationRunner
+   */
+  public getConnection(): Database.Database {
+    return this.db;
+  }
+
   /**
    * Close the database connection
    */
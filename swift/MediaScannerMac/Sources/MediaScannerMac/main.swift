@@ -17,6 +17,107 @@ struct MediaItem: Codable {
     let durationSeconds: Double? // For videos
     // Placeholder for codec, might require AVFoundation
     let codec: String? // Removed `= nil` to avoid Codable warning for now
+
+    // Encode every key, writing null for missing values: the Node side validates against a
+    // schema that requires all keys (see src/media-scanner/assetSchema.ts)
+    func encode(to encoder: Encoder) throws {
+        var container = encoder.container(keyedBy: CodingKeys.self)
+        try container.encode(localIdentifier, forKey: .localIdentifier)
+        try container.encode(originalPath, forKey: .originalPath)
+        try container.encode(originalFilename, forKey: .originalFilename)
+        try container.encode(uti, forKey: .uti)
+        try container.encode(creationDate, forKey: .creationDate)
+        try container.encode(modificationDate, forKey: .modificationDate)
+        try container.encode(sizeBytes, forKey: .sizeBytes)
+        try container.encode(pixelWidth, forKey: .pixelWidth)
+        try container.encode(pixelHeight, forKey: .pixelHeight)
+        try container.encode(isInCloud, forKey: .isInCloud)
+        try container.encode(mediaType, forKey: .mediaType)
+        try container.encode(durationSeconds, forKey: .durationSeconds)
+        try container.encode(codec, forKey: .codec)
+    }
+}
+
+// Messages written to stdout as newline-delimited JSON, one object per line.
+// Must match the protocol in src/media-scanner/ScannerBridge.ts.
+// Bump together with SCANNER_PROTOCOL_VERSION in src/media-scanner/assetSchema.ts
+let protocolVersion = 3
+
+struct HelloMessage: Encodable {
+    let type = "hello"
+    let protocolVersion: Int
+    let scanner: String
+}
+
+struct AssetMessage: Encodable {
+    let type = "asset"
+    let asset: MediaItem
+}
+
+struct ProgressMessage: Encodable {
+    let type = "progress"
+    let processed: Int
+    let total: Int
+}
+
+struct LogMessage: Encodable {
+    let type = "log"
+    let level: String // "debug", "info", "warn" or "error"
+    let message: String
+}
+
+struct DoneMessage: Encodable {
+    let type = "done"
+    let count: Int
+    let limited: Bool // Only the assets the user selected for the app were readable
+}
+
+// Export mode: one of these per requested identifier instead of asset messages
+struct ExportedMessage: Encodable {
+    let type = "exported"
+    let localIdentifier: String
+    let path: String
+}
+
+struct ExportFailedMessage: Encodable {
+    let type = "exportFailed"
+    let localIdentifier: String
+    let error: String
+}
+
+// Emit a progress message every this many assets
+let progressInterval = 1000
+
+func makeMessageEncoder() -> JSONEncoder {
+    let jsonEncoder = JSONEncoder()
+
+    // Configure a specific date formatter to ensure fractional seconds are included
+    let dateFormatter = DateFormatter()
+    dateFormatter.dateFormat = "yyyy-MM-dd'T'HH:mm:ss.SSSZZZZZ" // ISO 8601 format with fractional seconds and timezone
+    dateFormatter.locale = Locale(identifier: "en_US_POSIX") // Essential for consistent ISO 8601 parsing/formatting
+    dateFormatter.timeZone = TimeZone(secondsFromGMT: 0) // Use UTC (Zulu time)
+    jsonEncoder.dateEncodingStrategy = .formatted(dateFormatter)
+
+    // No pretty printing: each message must stay on a single line
+    jsonEncoder.outputFormatting = [.sortedKeys]
+    return jsonEncoder
+}
+
+let messageEncoder = makeMessageEncoder()
+
+// Writes one message as a line on stdout
+func emit<T: Encodable>(_ message: T) {
+    do {
+        var line = try messageEncoder.encode(message)
+        line.append(0x0A) // Newline
+        FileHandle.standardOutput.write(line)
+    } catch {
+        fputs("Error encoding message: \(error)\n", stderr)
+    }
+}
+
+func emitLog(_ level: String, _ message: String) {
+    emit(LogMessage(level: level, message: message))
 }
 
 // Function to process a single PHAsset into a MediaItem
@@ -57,7 +158,7 @@ func processAsset(_ asset: PHAsset) -> MediaItem {
           // For now, assume true unless proven otherwise later
           // isInCloud = !(resource.value(forKey: "isLocallyAvailable") as? Bool ?? false)
     } else {
-         fputs("Warning: Could not find primary resource for asset \(asset.localIdentifier)\n", stderr)
+         emitLog("warn", "Could not find primary resource for asset \(asset.localIdentifier)")
     }
    
     // Correctly handle potential nil pixelWidth/Height
@@ -81,64 +182,127 @@ func processAsset(_ asset: PHAsset) -> MediaItem {
     )
 }
 
-// Function to fetch and print media items
+// Function to fetch media items and stream them to stdout
 func fetchMediaItems() {
     let fetchOptions = PHFetchOptions()
     // fetchOptions.sortDescriptors = [NSSortDescriptor(key: "creationDate", ascending: true)]
     // fetchOptions.includeAssetSourceTypes = [.typeUserLibrary, .typeCloudShared, .typeiTunesSynced] // Be specific if needed
     
     let allMediaAssets = PHAsset.fetchAssets(with: fetchOptions)
-    var results: [MediaItem] = [] // Array to hold results
-    results.reserveCapacity(allMediaAssets.count)
+    let total = allMediaAssets.count
+    var count = 0
     
-    fputs("Starting media scan. Found \(allMediaAssets.count) assets...\n", stderr)
+    emitLog("info", "Starting media scan. Found \(total) assets.")
 
-    // Use the extracted processing function
+    // Each asset is written as soon as it is processed, so memory use stays flat on large libraries
     allMediaAssets.enumerateObjects { (asset, index, stop) in
-        let item = processAsset(asset)
-        results.append(item)
+        autoreleasepool {
+            emit(AssetMessage(asset: processAsset(asset)))
+        }
+        count += 1
         
-        // Log progress to stderr periodically
-        if (index + 1) % 100 == 0 {
-             fputs("Processed \(index + 1)/\(allMediaAssets.count) assets...\n", stderr)
+        if (index + 1) % progressInterval == 0 {
+            emit(ProgressMessage(processed: index + 1, total: total))
         }
     }
     
-    fputs("Finished processing assets. Encoding JSON...\n", stderr)
+    // Tells Node the scan is complete, so assets missing from it can be treated as deleted
+    // (unless access is limited, when the enumeration only covers the selected assets)
+    emit(DoneMessage(count: count, limited: hasLimitedAccess()))
+    exit(0) // Exit successfully
+}
 
-    // Encode the entire array at the end
-    let jsonEncoder = JSONEncoder()
-    
-    // Configure a specific date formatter to ensure fractional seconds are included
-    let dateFormatter = DateFormatter()
-    dateFormatter.dateFormat = "yyyy-MM-dd'T'HH:mm:ss.SSSZZZZZ" // ISO 8601 format with fractional seconds and timezone
-    dateFormatter.locale = Locale(identifier: "en_US_POSIX") // Essential for consistent ISO 8601 parsing/formatting
-    dateFormatter.timeZone = TimeZone(secondsFromGMT: 0) // Use UTC (Zulu time)
-    
-    jsonEncoder.dateEncodingStrategy = .formatted(dateFormatter)
+func hasLimitedAccess() -> Bool {
+    return PHPhotoLibrary.authorizationStatus(for: .readWrite) == .limited
+}
 
-    // Use compact output for efficiency when piping to Node.js
-    // Output formatting set to sorted keys for deterministic output, easier for testing/diffing
-    jsonEncoder.outputFormatting = [.prettyPrinted, .sortedKeys] // Use prettyPrinted for readability during debug, remove later for pure efficiency
-    
-    do {
-        let jsonData = try jsonEncoder.encode(results)
-        if let jsonString = String(data: jsonData, encoding: .utf8) {
-            print(jsonString) // Print the complete JSON array string
-             fputs("Successfully encoded and printed JSON output.\n", stderr)
-            exit(0) // Exit successfully
+// Picks the resource holding the asset's original photo or video data
+func primaryResource(for asset: PHAsset) -> PHAssetResource? {
+    let resources = PHAssetResource.assetResources(for: asset)
+    return resources.first { res in
+        (asset.mediaType == .image && (res.type == .photo || res.type == .fullSizePhoto)) ||
+        (asset.mediaType == .video && (res.type == .video || res.type == .fullSizeVideo))
+    } ?? resources.first
+}
+
+// Same naming as stagedFileName in src/exporter/FilesystemExporter.ts: the identifier made safe
+// for a file name, keeping the extension of the original
+func stagedFileName(_ localIdentifier: String, _ originalFilename: String) -> String {
+    let allowed = CharacterSet(charactersIn: "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789._-")
+    let safeIdentifier = String(localIdentifier.unicodeScalars.map { allowed.contains($0) ? Character($0) : "_" })
+    let fileExtension = (originalFilename as NSString).pathExtension
+    return fileExtension.isEmpty ? safeIdentifier : "\(safeIdentifier).\(fileExtension)"
+}
+
+// Writes the original resource of each requested asset into `directory`, downloading it from
+// iCloud when needed, and reports one exported or exportFailed message per identifier
+func exportAssets(_ localIdentifiers: [String], to directory: URL) {
+    let assets = PHAsset.fetchAssets(withLocalIdentifiers: localIdentifiers, options: nil)
+    var assetsById: [String: PHAsset] = [:]
+    assets.enumerateObjects { (asset, _, _) in
+        assetsById[asset.localIdentifier] = asset
+    }
+
+    let options = PHAssetResourceRequestOptions()
+    options.isNetworkAccessAllowed = true
+    var exported = 0
+
+    for localIdentifier in localIdentifiers {
+        guard let asset = assetsById[localIdentifier] else {
+            emit(ExportFailedMessage(localIdentifier: localIdentifier, error: "Asset not found in the Photos library"))
+            continue
+        }
+        guard let resource = primaryResource(for: asset) else {
+            emit(ExportFailedMessage(localIdentifier: localIdentifier, error: "Asset has no original resource"))
+            continue
+        }
+
+        let fileURL = directory.appendingPathComponent(stagedFileName(localIdentifier, resource.originalFilename))
+        // writeData refuses to overwrite, and a copy left by an interrupted export may be incomplete
+        try? FileManager.default.removeItem(at: fileURL)
+
+        // writeData calls back on another queue; wait for it so assets are exported one at a time
+        let finished = DispatchSemaphore(value: 0)
+        var writeError: Error?
+        PHAssetResourceManager.default().writeData(for: resource, toFile: fileURL, options: options) { error in
+            writeError = error
+            finished.signal()
+        }
+        finished.wait()
+
+        if let writeError = writeError {
+            emit(ExportFailedMessage(localIdentifier: localIdentifier, error: writeError.localizedDescription))
         } else {
-            fputs("Error: Failed to convert final JSON data to string.\n", stderr)
-            exit(1)
+            emit(ExportedMessage(localIdentifier: localIdentifier, path: fileURL.path))
+            exported += 1
         }
-    } catch {
-        fputs("Error encoding final JSON array: \(error)\n", stderr)
-        exit(1)
+    }
+
+    emit(DoneMessage(count: exported, limited: hasLimitedAccess()))
+    exit(0)
+}
+
+// Usage: MediaScannerMac                                   scan the library
+//        MediaScannerMac --export DIR LOCAL_IDENTIFIER...  export originals into DIR
+func run() {
+    let arguments = CommandLine.arguments
+    if arguments.count >= 3 && arguments[1] == "--export" {
+        let directory = URL(fileURLWithPath: arguments[2], isDirectory: true)
+        let localIdentifiers = Array(arguments.dropFirst(3))
+        // Off the main thread, which the Photos callbacks may need while we wait on them
+        DispatchQueue.global(qos: .userInitiated).async {
+            exportAssets(localIdentifiers, to: directory)
+        }
+    } else {
+        fetchMediaItems()
     }
 }
 
 // --- Main Execution --- 
 
+// The handshake comes first so Node can reject an incompatible build before reading any assets
+emit(HelloMessage(protocolVersion: protocolVersion, scanner: "MediaScannerMac"))
+
 // Check authorization status
 let status = PHPhotoLibrary.authorizationStatus(for: .readWrite) // Request readWrite for future export needs
 
@@ -146,15 +310,15 @@ switch status {
 case .authorized, .limited: // Handle limited access if applicable
     // Access is granted
     if status == .limited {
-        fputs("Warning: Limited photo library access granted.\n", stderr)
+        emitLog("warn", "Limited photo library access granted.")
     }
-    fetchMediaItems()
+    run()
 case .notDetermined:
     // Request authorization
     PHPhotoLibrary.requestAuthorization(for: .readWrite) { newStatus in
         if newStatus == .authorized || newStatus == .limited {
             DispatchQueue.main.async { // Ensure fetch is on main thread if needed by Photos API
-                 fetchMediaItems()
+                 run()
             }
         } else {
             fputs("Error: Photo library access denied.\n", stderr)
@@ -40,7 +40,7 @@ final class MediaScannerMacTests: XCTestCase {
         encodingDateFormatter.timeZone = TimeZone(secondsFromGMT: 0)
         encoder.dateEncodingStrategy = .formatted(encodingDateFormatter)
         // Match main code's output formatting 
-        encoder.outputFormatting = [.prettyPrinted, .sortedKeys] 
+        encoder.outputFormatting = [.sortedKeys] 
         
         let jsonData = try encoder.encode(sampleItem)
 
@@ -90,7 +90,62 @@ final class MediaScannerMacTests: XCTestCase {
         }
     }
 
-    // Add more test functions here to test specific parts of your code.
-    // func testJsonOutputStructure() throws { ... }
-    // func testDateEncoding() throws { ... }
+    // Each message must be a single line of JSON tagged with its type
+    func testAssetMessageEncodesAsSingleLine() throws {
+        let item = MediaItem(
+            localIdentifier: "ABCDEFGH-1234-5678-90AB-CDEFGHIJKL/L0/001",
+            originalPath: nil,
+            originalFilename: "IMG_0001.JPG",
+            uti: "public.jpeg",
+            creationDate: Date(timeIntervalSince1970: 0),
+            modificationDate: nil,
+            sizeBytes: 1_234_567,
+            pixelWidth: 4032,
+            pixelHeight: 3024,
+            isInCloud: false,
+            mediaType: "photo",
+            durationSeconds: nil,
+            codec: nil
+        )
+
+        let data = try makeMessageEncoder().encode(AssetMessage(asset: item))
+        let line = try XCTUnwrap(String(data: data, encoding: .utf8))
+        XCTAssertFalse(line.contains("\n"))
+
+        let json = try XCTUnwrap(JSONSerialization.jsonObject(with: data) as? [String: Any])
+        XCTAssertEqual(json["type"] as? String, "asset")
+        let asset = try XCTUnwrap(json["asset"] as? [String: Any])
+        XCTAssertEqual(asset["localIdentifier"] as? String, item.localIdentifier)
+        XCTAssertEqual(asset["creationDate"] as? String, "1970-01-01T00:00:00.000Z")
+    }
+
+    // Missing values are written as null rather than left out
+    func testAssetEncodesNilFieldsAsNull() throws {
+        let item = MediaItem(
+            localIdentifier: "ID/L0/001",
+            originalPath: nil,
+            originalFilename: nil,
+            uti: nil,
+            creationDate: nil,
+            modificationDate: nil,
+            sizeBytes: nil,
+            pixelWidth: nil,
+            pixelHeight: nil,
+            isInCloud: true,
+            mediaType: "video",
+            durationSeconds: nil,
+            codec: nil
+        )
+
+        let data = try makeMessageEncoder().encode(item)
+        let json = try XCTUnwrap(JSONSerialization.jsonObject(with: data) as? [String: Any])
+        XCTAssertEqual(json.count, 13)
+        XCTAssertTrue(json["originalFilename"] is NSNull)
+        XCTAssertTrue(json["durationSeconds"] is NSNull)
+    }
+
+    func testDoneMessageEncoding() throws {
+        let data = try makeMessageEncoder().encode(DoneMessage(count: 42))
+        XCTAssertEqual(String(data: data, encoding: .utf8), #"{"count":42,"type":"done"}"#)
+    }
 } 
\ No newline at end of file